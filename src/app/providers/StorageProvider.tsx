@@ -2,7 +2,8 @@ import { createContext, useContext, useEffect, useState, useCallback, ReactNode
 import { useAuth } from './AuthProvider'
 import * as progressService from '@/shared/services/progress'
 import * as activityService from '@/shared/services/activity'
-import { getDB } from '@/shared/services/indexedDB'
+import type { FinishedGameRecord } from '@/shared/services/progress'
+import { getDB, getSavedGame, setSavedGame, deleteSavedGame } from '@/shared/services/indexedDB'
 
 interface StorageContextValue {
   /** Whether storage is initialized */
@@ -14,6 +15,14 @@ interface StorageContextValue {
   /** Save progress data for a module */
   saveProgress: (moduleId: string, data: Record<string, unknown>) => Promise<boolean>
 
+  // Saved games
+  /** Get the game in progress for a module, if there is one */
+  getGameInProgress: (moduleId: string) => Promise<Record<string, unknown> | null>
+  /** Checkpoint the game in progress for a module */
+  saveGameInProgress: (moduleId: string, data: Record<string, unknown>) => Promise<void>
+  /** Forget the game in progress for a module */
+  clearGameInProgress: (moduleId: string) => Promise<void>
+
   // Activity
   /** Start a new activity session */
   startSession: (moduleId: string) => Promise<string>
@@ -31,6 +40,9 @@ interface StorageContextValue {
     coinsEarned: number
   }) => Promise<void>
 
+  /** Record a finished game's practice result (kept apart from Quick Play stats) and replay */
+  recordFinishedGame: (game: FinishedGameRecord) => Promise<void>
+
   /** Add coins to the user's balance */
   addCoins: (amount: number) => Promise<number>
 
@@ -92,10 +104,14 @@ export function StorageProvider({ children }: StorageProviderProps) {
     isReady,
     getProgress: async () => ({}),
     saveProgress: async () => true,
+    getGameInProgress: async () => null,
+    saveGameInProgress: async () => {},
+    clearGameInProgress: async () => {},
     startSession: async () => '',
     endSession: async () => {},
     recordGame: () => {},
     recordQuickPlayResult: async () => {},
+    recordFinishedGame: async () => {},
     addCoins: async () => 0,
     getCoins: async () => 0,
     getRecentActivity: async () => [],
@@ -157,6 +173,35 @@ export function useStorage(): StorageContextValue {
     [userId, isGuest, isDemoMode]
   )
 
+  // ============================================
+  // Saved Games
+  // ============================================
+
+  const getGameInProgress = useCallback(
+    async (moduleId: string) => {
+      if (isDemoMode) return null
+      const saved = await getSavedGame(userId, moduleId)
+      return saved?.data ?? null
+    },
+    [userId, isDemoMode]
+  )
+
+  const saveGameInProgress = useCallback(
+    async (moduleId: string, data: Record<string, unknown>) => {
+      if (isDemoMode) return
+      await setSavedGame(userId, moduleId, data)
+    },
+    [userId, isDemoMode]
+  )
+
+  const clearGameInProgress = useCallback(
+    async (moduleId: string) => {
+      if (isDemoMode) return
+      await deleteSavedGame(userId, moduleId)
+    },
+    [userId, isDemoMode]
+  )
+
   // ============================================
   // Activity
   // ============================================
@@ -202,6 +247,15 @@ export function useStorage(): StorageContextValue {
     [userId, isGuest, isDemoMode]
   )
 
+  const recordFinishedGame = useCallback(
+    async (game: FinishedGameRecord) => {
+      if (isDemoMode) return
+
+      await progressService.recordFinishedGame(userId, isGuest, game)
+    },
+    [userId, isGuest, isDemoMode]
+  )
+
   const addCoins = useCallback(
     async (amount: number) => {
       if (isDemoMode) return 0
@@ -255,10 +309,14 @@ export function useStorage(): StorageContextValue {
     isReady: baseContext.isReady,
     getProgress,
     saveProgress,
+    getGameInProgress,
+    saveGameInProgress,
+    clearGameInProgress,
     startSession,
     endSession,
     recordGame,
     recordQuickPlayResult,
+    recordFinishedGame,
     addCoins,
     getCoins,
     getRecentActivity,
@@ -31,6 +31,7 @@ const PuzzleMakerScreen = lazy(() => import('@/modules/circuit-challenge/screens
 const ChapterSelect = lazy(() => import('@/modules/circuit-challenge/screens/ChapterSelect'))
 const LevelSelect = lazy(() => import('@/modules/circuit-challenge/screens/LevelSelect'))
 const StoryGameScreen = lazy(() => import('@/modules/circuit-challenge/screens/StoryGameScreen'))
+const SharedPuzzleScreen = lazy(() => import('@/modules/circuit-challenge/screens/SharedPuzzleScreen'))
 
 /**
  * Loading spinner for route transitions
@@ -226,6 +227,14 @@ const router = createBrowserRouter([
       </LazyRoute>
     ),
   },
+  {
+    path: '/play/circuit-challenge/practice',
+    element: (
+      <LazyRoute>
+        <QuickPlaySetup practice />
+      </LazyRoute>
+    ),
+  },
   {
     path: '/play/circuit-challenge/game',
     element: (
@@ -250,6 +259,14 @@ const router = createBrowserRouter([
       </LazyRoute>
     ),
   },
+  {
+    path: '/play/circuit-challenge/code/:code',
+    element: (
+      <LazyRoute>
+        <SharedPuzzleScreen />
+      </LazyRoute>
+    ),
+  },
 
   // Story Mode routes
   {
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useAuth } from '@/app/providers/AuthProvider'
 import Button from '@/ui/Button'
@@ -6,8 +6,11 @@ import Card from '@/ui/Card'
 import Modal from '@/ui/Modal'
 import Header from '../components/Header'
 import ActivityChart from '../components/ActivityChart'
+import { ReplayViewer } from '@/modules/circuit-challenge/components'
+import { decodePuzzleCode } from '@/modules/circuit-challenge/engine'
 import { getChildDetailStats } from '@/shared/services/dashboard'
-import { formatDate, formatDuration, formatRelativeTime } from '@/shared/utils/formatters'
+import { formatDate, formatDuration, formatRelativeTime, formatTime } from '@/shared/utils/formatters'
+import type { CircuitChallengeReplay } from '@/shared/services/progress'
 import type { ChildDetailStats, TimePeriod, ModuleStats } from '../types/dashboard'
 
 /**
@@ -28,6 +31,14 @@ export default function ChildDetailScreen() {
   const [chartPeriod, setChartPeriod] = useState<TimePeriod>('week')
   const [showRemoveModal, setShowRemoveModal] = useState(false)
   const [isRemoving, setIsRemoving] = useState(false)
+  const [watchingReplay, setWatchingReplay] = useState<CircuitChallengeReplay | null>(null)
+
+  // Puzzle for the replay being watched (null if its code can't be read)
+  const replayPuzzle = useMemo(() => {
+    if (!watchingReplay) return null
+    const result = decodePuzzleCode(watchingReplay.puzzleCode)
+    return result.success ? result.puzzle : null
+  }, [watchingReplay])
 
   // Load stats
   const loadStats = useCallback(async () => {
@@ -209,6 +220,19 @@ export default function ChildDetailScreen() {
                 )}
               </Card>
 
+              {/* Recent Circuit Challenge games */}
+              {stats.recentReplays.length > 0 && (
+                <Card className="p-4 mb-6">
+                  <h2 className="text-lg font-bold mb-4">Recent Puzzles</h2>
+
+                  <div className="space-y-1">
+                    {stats.recentReplays.map((replay) => (
+                      <ReplayRow key={replay.id} replay={replay} onWatch={() => setWatchingReplay(replay)} />
+                    ))}
+                  </div>
+                </Card>
+              )}
+
               {/* View Full History Button */}
               <Button
                 variant="secondary"
@@ -258,6 +282,25 @@ export default function ChildDetailScreen() {
         </div>
       </main>
 
+      {/* Replay Modal */}
+      <Modal
+        isOpen={!!watchingReplay}
+        onClose={() => setWatchingReplay(null)}
+        title="Replay"
+        size="lg"
+      >
+        {watchingReplay &&
+          (replayPuzzle ? (
+            <ReplayViewer
+              puzzle={replayPuzzle}
+              moves={watchingReplay.moves}
+              hiddenMode={watchingReplay.hiddenMode}
+            />
+          ) : (
+            <p className="text-text-secondary text-center py-8">This replay can't be played.</p>
+          ))}
+      </Modal>
+
       {/* Remove Child Confirmation Modal */}
       <Modal isOpen={showRemoveModal} onClose={() => setShowRemoveModal(false)} title="Remove Child?">
         <div className="text-center">
@@ -356,3 +399,35 @@ function ModuleProgressRow({ stats }: ModuleProgressRowProps) {
     </div>
   )
 }
+
+interface ReplayRowProps {
+  replay: CircuitChallengeReplay
+  onWatch: () => void
+}
+
+function ReplayRow({ replay, onWatch }: ReplayRowProps) {
+  const mistakes = replay.moves.filter((m) => !m.correct).length
+
+  return (
+    <div className="flex items-center gap-4 py-3 border-b border-white/5 last:border-0">
+      {/* Result */}
+      <span className="text-2xl">{replay.won ? '✅' : '❌'}</span>
+
+      {/* Game Info */}
+      <div className="flex-1 min-w-0">
+        <div className="font-bold">
+          {replay.difficultyName}
+          {replay.hiddenMode && ' (Hidden)'}
+        </div>
+        <div className="text-sm text-text-secondary">
+          {formatTime(replay.durationMs)} • {mistakes} {mistakes === 1 ? 'mistake' : 'mistakes'} •{' '}
+          {formatRelativeTime(replay.playedAt)}
+        </div>
+      </div>
+
+      <Button variant="ghost" size="sm" onClick={onWatch}>
+        ▶ Watch
+      </Button>
+    </div>
+  )
+}
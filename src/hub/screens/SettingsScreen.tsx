@@ -2,6 +2,8 @@ import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '@/app/providers/AuthProvider'
 import { useSound } from '@/app/providers/SoundProvider'
+import { useAccessibilitySettings } from '@/shared/hooks'
+import type { ScanSpeed } from '@/shared/services/accessibility'
 import Button from '@/ui/Button'
 import Card from '@/ui/Card'
 import Toggle from '@/ui/Toggle'
@@ -9,6 +11,12 @@ import Header from '../components/Header'
 
 type AnimationSetting = 'full' | 'reduced'
 
+const SCAN_SPEEDS: Array<{ value: ScanSpeed; label: string }> = [
+  { value: 'slow', label: 'Slow' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'fast', label: 'Fast' },
+]
+
 /**
  * Settings screen for app preferences
  */
@@ -16,6 +24,7 @@ export default function SettingsScreen() {
   const navigate = useNavigate()
   const { user, isGuest, logout } = useAuth()
   const { isMuted, toggleMute } = useSound()
+  const [accessibility, updateAccessibility] = useAccessibilitySettings()
 
   const [settings, setSettings] = useState({
     soundEffects: !isMuted,
@@ -87,6 +96,55 @@ export default function SettingsScreen() {
             </div>
           </Card>
 
+          {/* Accessibility Settings */}
+          <Card className="p-4">
+            <h2 className="text-lg font-bold mb-4">Accessibility</h2>
+
+            <div className="space-y-4">
+              <Toggle
+                label="Screen Reader Mode"
+                checked={accessibility.screenReaderMode}
+                onChange={(checked) => updateAccessibility({ screenReaderMode: checked })}
+              />
+
+              <p className="text-text-secondary text-sm">
+                Shows puzzles as text and reads out every move, your lives and the time.
+              </p>
+
+              <p className="text-text-secondary text-sm">
+                Puzzles can always be played with the arrow keys and Enter.
+                Switch scanning highlights each possible move in turn, so a single switch
+                (Space or Enter) can choose it.
+              </p>
+
+              <Toggle
+                label="Switch Scanning"
+                checked={accessibility.switchScanning}
+                onChange={(checked) => updateAccessibility({ switchScanning: checked })}
+              />
+
+              {accessibility.switchScanning && (
+                <div>
+                  <label className="text-sm text-text-secondary mb-2 block">
+                    Scanning Speed
+                  </label>
+                  <div className="flex gap-2">
+                    {SCAN_SPEEDS.map(({ value, label }) => (
+                      <Button
+                        key={value}
+                        variant={accessibility.scanSpeed === value ? 'primary' : 'ghost'}
+                        size="sm"
+                        onClick={() => updateAccessibility({ scanSpeed: value })}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </Card>
+
           {/* Account Section */}
           <Card className="p-4">
             <h2 className="text-lg font-bold mb-4">Account</h2>
@@ -3,6 +3,8 @@
  * Types for the parent dashboard data structures.
  */
 
+import type { CircuitChallengeReplay } from '@/shared/services/progress'
+
 // ============================================
 // Child Summary Types
 // ============================================
@@ -99,6 +101,9 @@ export interface ChildDetailStats {
 
   // Per-module breakdown
   moduleStats: Record<string, ModuleStats>
+
+  // Most recent Circuit Challenge games, newest first
+  recentReplays: CircuitChallengeReplay[]
 }
 
 // ============================================
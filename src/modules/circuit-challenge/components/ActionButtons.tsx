@@ -5,6 +5,10 @@ interface ActionButtonsProps {
   onNewPuzzle: () => void
   onChangeDifficulty: () => void
   onPrint: () => void
+  onShare?: () => void
+  onUndo?: () => void
+  onPause?: () => void
+  onHint?: () => void
   onViewSolution?: () => void
   onContinue?: () => void
   disabled?: boolean
@@ -22,6 +26,10 @@ export default function ActionButtons({
   onNewPuzzle,
   onChangeDifficulty,
   onPrint,
+  onShare,
+  onUndo,
+  onPause,
+  onHint,
   onViewSolution,
   onContinue,
   disabled = false,
@@ -37,6 +45,22 @@ export default function ActionButtons({
     { id: 'print', icon: '🖨️', label: 'Print', onClick: onPrint },
   ]
 
+  if (onShare) {
+    buttons.push({ id: 'share', icon: '🔗', label: 'Share', onClick: onShare })
+  }
+
+  if (onUndo) {
+    buttons.push({ id: 'undo', icon: '↩️', label: 'Undo', onClick: onUndo })
+  }
+
+  if (onPause) {
+    buttons.push({ id: 'pause', icon: '⏸️', label: 'Pause', onClick: onPause })
+  }
+
+  if (onHint) {
+    buttons.push({ id: 'hint', icon: '💡', label: 'Hint', onClick: onHint })
+  }
+
   if (showViewSolution && onViewSolution) {
     buttons.push({ id: 'solution', icon: '👁️', label: 'Solution', onClick: onViewSolution })
   }
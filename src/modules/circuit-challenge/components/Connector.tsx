@@ -1,4 +1,5 @@
 import type { ConnectorType } from '../types'
+import { formatNumber } from '../engine/expressions'
 import './animations.css'
 
 interface ConnectorProps {
@@ -8,11 +9,14 @@ interface ConnectorProps {
   type: ConnectorType
   isTraversed: boolean
   isWrong?: boolean
+  isHighlighted?: boolean
   animationDelay?: number
 }
 
 /**
  * Connector line between two cells with electric flow animation
+ * Highlighted connectors (reverse mode path) hide their value until they're traversed
+ * Each connector is labelled with its value for screen readers (hidden values stay hidden)
  */
 export default function Connector({
   cellA,
@@ -20,6 +24,7 @@ export default function Connector({
   value,
   isTraversed,
   isWrong = false,
+  isHighlighted = false,
   animationDelay = 0,
 }: ConnectorProps) {
   // Calculate direction and shorten endpoints
@@ -42,7 +47,7 @@ export default function Connector({
 
   if (isWrong) {
     return (
-      <g className="connector wrong">
+      <g className="connector wrong" role="img" aria-label={`Wrong connector ${formatNumber(value)}`}>
         <line
           x1={x1} y1={y1} x2={x2} y2={y2}
           stroke="#ef4444"
@@ -66,7 +71,7 @@ export default function Connector({
           fontWeight={800}
           style={{ fontFamily: 'system-ui, sans-serif' }}
         >
-          {value}
+          {formatNumber(value)}
         </text>
       </g>
     )
@@ -74,7 +79,7 @@ export default function Connector({
 
   if (isTraversed) {
     return (
-      <g className="connector traversed">
+      <g className="connector traversed" role="img" aria-label={`Connector ${formatNumber(value)}, used`}>
         {/* Layer 1: Glow */}
         <line
           x1={x1} y1={y1} x2={x2} y2={y2}
@@ -142,7 +147,42 @@ export default function Connector({
           fontWeight={800}
           style={{ fontFamily: 'system-ui, sans-serif' }}
         >
-          {value}
+          {formatNumber(value)}
+        </text>
+      </g>
+    )
+  }
+
+  if (isHighlighted) {
+    return (
+      <g className="connector highlighted" role="img" aria-label="Connector on the path, value hidden">
+        <line
+          x1={x1} y1={y1} x2={x2} y2={y2}
+          stroke="#00ff88"
+          strokeWidth={8}
+          strokeLinecap="round"
+          strokeDasharray="2 14"
+          opacity={0.6}
+        />
+        <rect
+          x={midX - 16} y={midY - 14}
+          width={32} height={28}
+          rx={6}
+          fill="#15151f"
+          stroke="#00ff88"
+          strokeWidth={2}
+          strokeDasharray="4 3"
+        />
+        <text
+          x={midX} y={midY}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fill="#00ff88"
+          fontSize={14}
+          fontWeight={800}
+          style={{ fontFamily: 'system-ui, sans-serif' }}
+        >
+          ?
         </text>
       </g>
     )
@@ -150,7 +190,7 @@ export default function Connector({
 
   // Default inactive connector
   return (
-    <g className="connector">
+    <g className="connector" role="img" aria-label={`Connector ${formatNumber(value)}`}>
       <line
         x1={x1} y1={y1} x2={x2} y2={y2}
         stroke="#3d3428"
@@ -174,7 +214,7 @@ export default function Connector({
         fontWeight={800}
         style={{ fontFamily: 'system-ui, sans-serif' }}
       >
-        {value}
+        {formatNumber(value)}
       </text>
     </g>
   )
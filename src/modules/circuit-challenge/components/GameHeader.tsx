@@ -14,12 +14,14 @@ interface GameHeaderProps {
   coins: number
   coinChange?: { value: number; type: 'earn' | 'penalty' }
   isHiddenMode: boolean
+  isPracticeMode?: boolean
   onBackClick: () => void
   className?: string
 }
 
 /**
  * Game header with all status displays
+ * Practice mode has no lives or timer, so those are left out
  */
 export default function GameHeader({
   title,
@@ -31,6 +33,7 @@ export default function GameHeader({
   coins,
   coinChange,
   isHiddenMode,
+  isPracticeMode = false,
   onBackClick,
   className = '',
 }: GameHeaderProps) {
@@ -66,7 +69,7 @@ export default function GameHeader({
 
       {/* Right section: Status displays */}
       <div className="flex items-center gap-4 md:gap-6">
-        {!isHiddenMode && (
+        {!isHiddenMode && !isPracticeMode && (
           <LivesDisplay
             lives={lives}
             maxLives={maxLives}
@@ -75,12 +78,14 @@ export default function GameHeader({
           />
         )}
 
-        <TimerDisplay
-          elapsedMs={elapsedMs}
-          thresholdMs={isHiddenMode ? undefined : timeThresholdMs}
-          isRunning={isTimerRunning}
-          size="md"
-        />
+        {!isPracticeMode && (
+          <TimerDisplay
+            elapsedMs={elapsedMs}
+            thresholdMs={isHiddenMode ? undefined : timeThresholdMs}
+            isRunning={isTimerRunning}
+            size="md"
+          />
+        )}
 
         <GameCoinDisplay
           amount={coins}
@@ -90,7 +95,7 @@ export default function GameHeader({
       </div>
 
       {/* Mobile-only second row for lives */}
-      {!isHiddenMode && (
+      {!isHiddenMode && !isPracticeMode && (
         <div className="w-full flex justify-center mt-2 md:hidden">
           <LivesDisplay
             lives={lives}
@@ -1,4 +1,7 @@
+import { useEffect, useRef } from 'react'
 import type { CellState } from '../types'
+import { formatNumber, isMissingNumberExpression, MISSING_NUMBER_SYMBOL } from '../engine/expressions'
+import { isClueText, splitCellText } from '../engine/clues'
 import './animations.css'
 
 interface HexCellProps {
@@ -11,6 +14,9 @@ interface HexCellProps {
   disabled?: boolean
   showAnswer?: boolean
   answer?: number
+  isCheckpoint?: boolean
+  isFocused?: boolean
+  connectorValue?: number
 }
 
 /**
@@ -56,6 +62,28 @@ function getHexagonPath(cx: number, cy: number, radius: number): string {
     ' Z'
 }
 
+/**
+ * Colour of the checkpoint ring and marker
+ */
+const CHECKPOINT_COLOR = '#ff66cc'
+
+/**
+ * Colour of the keyboard and switch-scanning cursor
+ */
+const CURSOR_COLOR = '#ffdd44'
+
+/**
+ * What each state adds to the cell's spoken label
+ */
+const STATE_LABELS: Record<CellState, string> = {
+  normal: '',
+  start: ', start',
+  finish: '',
+  current: ', current cell',
+  visited: ', visited',
+  wrong: ', wrong move',
+}
+
 /**
  * Get gradient IDs based on cell state
  */
@@ -103,6 +131,7 @@ function getGradients(state: CellState) {
 
 /**
  * 3D hexagonal cell with poker chip effect (matching spec exactly)
+ * isFocused draws the keyboard cursor and moves browser focus here so the label is read out
  */
 export default function HexCell({
   cx,
@@ -112,9 +141,17 @@ export default function HexCell({
   expression,
   onClick,
   disabled = false,
+  isCheckpoint = false,
+  isFocused = false,
+  connectorValue,
 }: HexCellProps) {
+  const cellRef = useRef<SVGGElement>(null)
   const gradients = getGradients(state)
 
+  useEffect(() => {
+    if (isFocused) cellRef.current?.focus({ preventScroll: true })
+  }, [isFocused])
+
   // Poker chip layers with offsets matching spec
   const shadowPoints = getHexagonPoints(cx + 4, cy + 14, size)
   const edgePoints = getHexagonPoints(cx, cy + 12, size)
@@ -125,16 +162,35 @@ export default function HexCell({
   const isClickable = onClick && !disabled
   const isPulsing = state === 'current' || state === 'start'
 
+  // Missing-number equations highlight the blank
+  const blankParts = isMissingNumberExpression(expression)
+    ? expression.split(MISSING_NUMBER_SYMBOL)
+    : null
+
+  // Number-property clues are wrapped onto several lines
+  const clueLines = isClueText(expression) ? splitCellText(expression) : null
+
   // Get font size - smaller for FINISH text
   const getFontSize = () => {
     if (state === 'finish') return 13
+    if (clueLines) return 9
+    if (expression.length > 11) return 10
     if (expression.length > 7) return 13
     if (expression.length > 5) return 15
     return 17
   }
 
+  const label = [
+    expression,
+    isCheckpoint ? ', checkpoint' : '',
+    STATE_LABELS[state],
+    isClickable ? ', available move' : '',
+    isClickable && connectorValue !== undefined ? `, along connector ${formatNumber(connectorValue)}` : '',
+  ].join('')
+
   return (
     <g
+      ref={cellRef}
       className={`hex-cell ${isClickable ? 'cursor-pointer' : ''} ${isPulsing ? 'cell-current' : ''}`}
       onClick={isClickable ? onClick : undefined}
       onKeyDown={isClickable ? (event) => {
@@ -143,9 +199,9 @@ export default function HexCell({
           onClick?.()
         }
       } : undefined}
-      role={isClickable ? 'button' : undefined}
+      role={isClickable ? 'button' : 'img'}
       tabIndex={isClickable ? 0 : undefined}
-      aria-label={isClickable ? `${expression}, available move` : expression}
+      aria-label={label}
       style={{
         cursor: isClickable ? 'pointer' : 'default',
       }}
@@ -179,6 +235,44 @@ export default function HexCell({
         strokeWidth={1.5}
       />
 
+      {/* Keyboard / switch-scanning cursor */}
+      {isFocused && (
+        <path
+          className="hex-cell-cursor"
+          d={getHexagonPath(cx, cy, size * 1.15)}
+          fill="none"
+          stroke={CURSOR_COLOR}
+          strokeWidth={4}
+          strokeDasharray="10 6"
+          strokeLinejoin="round"
+        />
+      )}
+
+      {/* Checkpoint: dashed ring and marker the path must pass through */}
+      {isCheckpoint && (
+        <>
+          <path
+            d={getHexagonPath(cx, cy, size * 0.82)}
+            fill="none"
+            stroke={CHECKPOINT_COLOR}
+            strokeWidth={2.5}
+            strokeDasharray="6 5"
+            strokeLinejoin="round"
+          />
+          <text
+            x={cx}
+            y={cy - size * 0.55}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize={10}
+            fill={CHECKPOINT_COLOR}
+            style={{ fill: CHECKPOINT_COLOR }}
+          >
+            ◆
+          </text>
+        </>
+      )}
+
       {/* Expression text - MUST BE WHITE */}
       <text
         x={cx}
@@ -190,7 +284,21 @@ export default function HexCell({
         fontWeight="900"
         style={{ fill: state === 'finish' ? '#ffdd44' : '#ffffff' }}
       >
-        {expression}
+        {clueLines ? (
+          clueLines.map((line, i) => (
+            <tspan key={i} x={cx} dy={i === 0 ? `${-(clueLines.length - 1) * 0.55}em` : '1.1em'}>
+              {line}
+            </tspan>
+          ))
+        ) : blankParts ? (
+          <>
+            {blankParts[0]}
+            <tspan fill="#ffdd44" style={{ fill: '#ffdd44' }}>{MISSING_NUMBER_SYMBOL}</tspan>
+            {blankParts[1]}
+          </>
+        ) : (
+          expression
+        )}
       </text>
 
       {/* Electric glow for current/start cell - matching connector style exactly */}
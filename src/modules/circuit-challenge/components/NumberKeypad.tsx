@@ -0,0 +1,102 @@
+import { useEffect } from 'react'
+import { Button } from '@/ui'
+
+interface NumberKeypadProps {
+  value: string
+  onDigit: (digit: string) => void
+  onDelete: () => void
+  onSubmit: () => void
+  onToggleSign?: () => void
+  disabled?: boolean
+  compact?: boolean
+  className?: string
+}
+
+const DIGIT_ROWS = [
+  ['7', '8', '9'],
+  ['4', '5', '6'],
+  ['1', '2', '3'],
+]
+
+/**
+ * Numeric keypad for typing cell answers in reverse mode
+ * Also listens for the number keys, Backspace and Enter on a physical keyboard
+ */
+export default function NumberKeypad({
+  value,
+  onDigit,
+  onDelete,
+  onSubmit,
+  onToggleSign,
+  disabled = false,
+  compact = false,
+  className = '',
+}: NumberKeypadProps) {
+  useEffect(() => {
+    if (disabled) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (/^[0-9]$/.test(e.key)) {
+        onDigit(e.key)
+      } else if (e.key === 'Backspace') {
+        onDelete()
+      } else if (e.key === 'Enter') {
+        onSubmit()
+      } else if (e.key === '-' && onToggleSign) {
+        onToggleSign()
+      } else {
+        return
+      }
+      e.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [disabled, onDigit, onDelete, onSubmit, onToggleSign])
+
+  const keySize = compact ? 'w-10 h-10 text-lg' : 'w-14 h-14 text-2xl'
+
+  const renderKey = (label: string, onClick: () => void, ariaLabel?: string) => (
+    <Button
+      key={label}
+      variant="ghost"
+      size="sm"
+      onClick={onClick}
+      disabled={disabled}
+      className={`${keySize} !p-0 flex items-center justify-center rounded-xl font-bold`}
+      aria-label={ariaLabel ?? label}
+    >
+      {label}
+    </Button>
+  )
+
+  return (
+    <div className={`flex flex-col items-center gap-2 ${className}`}>
+      {/* Answer typed so far */}
+      <div
+        className={`${compact ? 'w-32 h-10 text-xl' : 'w-44 h-14 text-3xl'} flex items-center justify-center rounded-xl bg-background-dark border border-accent-primary/50 font-display font-bold text-white`}
+        aria-live="polite"
+        aria-label="Your answer"
+      >
+        {value.replace('-', '−') || '?'}
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {DIGIT_ROWS.flat().map((digit) => renderKey(digit, () => onDigit(digit)))}
+        {onToggleSign ? renderKey('±', onToggleSign, 'Change sign') : <div />}
+        {renderKey('0', () => onDigit('0'))}
+        {renderKey('⌫', onDelete, 'Delete')}
+      </div>
+
+      <Button
+        variant="primary"
+        size="sm"
+        onClick={onSubmit}
+        disabled={disabled || value === '' || value === '-'}
+        className={compact ? 'w-32' : 'w-44'}
+      >
+        Check ✓
+      </Button>
+    </div>
+  )
+}
@@ -1,7 +1,18 @@
+import { useEffect, useMemo, useState } from 'react'
 import type { Puzzle, Coordinate, CellState } from '../types'
 import HexCell from './HexCell'
 import Connector from './Connector'
 import GridDefs from './GridDefs'
+import {
+  getCellInDirection,
+  getCellLayoutPosition,
+  getLayoutSize,
+  getPuzzleTopology,
+  isBlockedCell,
+  isFinishCell,
+  isStartCell,
+} from '../engine/topology'
+import { getAvailableMoves } from '../engine/solver'
 
 interface PuzzleGridProps {
   puzzle: Puzzle
@@ -13,12 +24,51 @@ interface PuzzleGridProps {
   onCellClick?: (coord: Coordinate) => void
   disabled?: boolean
   showSolution?: boolean
+  highlightPath?: boolean
+  blurred?: boolean
+  scanning?: boolean
+  scanIntervalMs?: number
   className?: string
 }
 
+/**
+ * Cursor directions for the arrow keys, Home/End/Page Up/Page Down (diagonals) and the numpad
+ * Directions are in layout units with y pointing down
+ */
+const KEY_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  Home: { x: -1, y: -1 },
+  PageUp: { x: 1, y: -1 },
+  End: { x: -1, y: 1 },
+  PageDown: { x: 1, y: 1 },
+  Numpad7: { x: -1, y: -1 },
+  Numpad8: { x: 0, y: -1 },
+  Numpad9: { x: 1, y: -1 },
+  Numpad4: { x: -1, y: 0 },
+  Numpad6: { x: 1, y: 0 },
+  Numpad1: { x: -1, y: 1 },
+  Numpad2: { x: 0, y: 1 },
+  Numpad3: { x: 1, y: 1 },
+}
+
+/**
+ * Elements that keep their own keyboard handling while the grid is listening
+ */
+const INTERACTIVE_SELECTOR = 'button, input, textarea, select, a, [role="dialog"]'
+
+const isSameCell = (a: Coordinate, b: Coordinate) => a.row === b.row && a.col === b.col
+
 /**
  * Complete puzzle grid with cells and connectors
  * Layout matches spec: rectangular grid with 150px horizontal, 140px vertical spacing
+ * Hex grids shift odd rows right by half a cell; blocked cells are left empty
+ * highlightPath marks the solution path without giving away its connector values (reverse mode)
+ * blurred hides the numbers while the game is paused, so pausing can't be used to study the puzzle
+ * While moves are allowed, a cursor picks between the available moves with the arrow or numpad keys
+ * and Enter or Space commits; scanning moves the cursor by itself so a single switch can play
  */
 export default function PuzzleGrid({
   puzzle,
@@ -30,31 +80,40 @@ export default function PuzzleGrid({
   onCellClick,
   disabled = false,
   showSolution = false,
+  highlightPath = false,
+  blurred = false,
+  scanning = false,
+  scanIntervalMs = 1500,
   className = '',
 }: PuzzleGridProps) {
+  const [focusedCell, setFocusedCell] = useState<Coordinate | null>(null)
+
   // Fixed dimensions matching the spec exactly
   const cellSize = 42  // radius of hexagon
   const horizontalSpacing = 150  // matches spec: cells at 75, 225, 375, 525, 675
   const verticalSpacing = 140    // matches spec: cells at 75, 215, 355, 495
 
-  const rows = puzzle.grid.length
-  const cols = puzzle.grid[0]?.length ?? 0
+  const topology = getPuzzleTopology(puzzle)
+  const layoutSize = getLayoutSize(topology)
 
   // Calculate grid dimensions with padding
   // First cell at (75, 75), so we need padding of 75 on left/top
   const padding = 75
-  const gridWidth = padding + (cols - 1) * horizontalSpacing + padding + 30
-  const gridHeight = padding + (rows - 1) * verticalSpacing + padding + 50
+  const gridWidth = padding + layoutSize.width * horizontalSpacing + padding + 30
+  const gridHeight = padding + layoutSize.height * verticalSpacing + padding + 50
 
   // Cell centers matching spec positions
-  const getCellCenter = (row: number, col: number) => ({
-    x: padding + col * horizontalSpacing,
-    y: padding + row * verticalSpacing,
-  })
+  const getCellCenter = (row: number, col: number) => {
+    const position = getCellLayoutPosition(topology, { row, col })
+    return {
+      x: padding + position.x * horizontalSpacing,
+      y: padding + position.y * verticalSpacing,
+    }
+  }
 
   const getCellState = (row: number, col: number): CellState => {
-    const isStart = row === 0 && col === 0
-    const isFinish = row === rows - 1 && col === cols - 1
+    const isStart = isStartCell(topology, { row, col })
+    const isFinish = isFinishCell(topology, { row, col })
     const isCurrent = currentPosition.row === row && currentPosition.col === col
     const isVisited = visitedCells.some(c => c.row === row && c.col === col)
     const isWrong = wrongMoves?.some(c => c.row === row && c.col === col)
@@ -134,22 +193,79 @@ export default function PuzzleGrid({
     ) ?? false
   }
 
-  const isCellClickable = (row: number, col: number): boolean => {
-    if (disabled) return false
-    if (visitedCells.some(cell => cell.row === row && cell.col === col)) return false
-    const rowDiff = Math.abs(row - currentPosition.row)
-    const colDiff = Math.abs(col - currentPosition.col)
-    return rowDiff <= 1 && colDiff <= 1 && !(rowDiff === 0 && colDiff === 0)
+  // Cells that can be moved to (none unless moves can be made)
+  const canMove = !disabled && !!onCellClick
+  const availableMoves = useMemo(
+    () => (canMove ? getAvailableMoves(puzzle, currentPosition, visitedCells) : []),
+    [puzzle, currentPosition, visitedCells, canMove]
+  )
+
+  const isCellClickable = (row: number, col: number): boolean =>
+    availableMoves.some(coord => isSameCell(coord, { row, col }))
+
+  // The cursor is dropped as soon as its cell stops being a possible move
+  const cursor = focusedCell ? availableMoves.find(coord => isSameCell(coord, focusedCell)) ?? null : null
+
+  // Keyboard play: move the cursor between the available moves, Enter or Space to commit
+  useEffect(() => {
+    if (!onCellClick || availableMoves.length === 0) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return
+      if (e.target instanceof Element && e.target.closest(INTERACTIVE_SELECTOR)) return
+
+      const direction = KEY_DIRECTIONS[e.key] ?? KEY_DIRECTIONS[e.code]
+      if (direction && !scanning) {
+        const next = getCellInDirection(getPuzzleTopology(puzzle), currentPosition, availableMoves, direction)
+        if (next) setFocusedCell(next)
+      } else if ((e.key === 'Enter' || e.key === ' ') && cursor) {
+        onCellClick(cursor)
+      } else {
+        return
+      }
+      e.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [puzzle, currentPosition, availableMoves, cursor, onCellClick, scanning])
+
+  // Switch scanning: step the cursor through the available moves in turn
+  useEffect(() => {
+    if (!scanning || availableMoves.length === 0) return
+
+    setFocusedCell(availableMoves[0])
+    const interval = setInterval(() => {
+      setFocusedCell(prev => {
+        const index = prev ? availableMoves.findIndex(coord => isSameCell(coord, prev)) : -1
+        return availableMoves[(index + 1) % availableMoves.length]
+      })
+    }, scanIntervalMs)
+
+    return () => clearInterval(interval)
+  }, [scanning, scanIntervalMs, availableMoves])
+
+  // Value of the connector leading to each available move, unless it's being kept hidden
+  const getMoveConnectorValue = (coord: Coordinate): number | undefined => {
+    const connector = puzzle.connectors.find(c =>
+      (isSameCell(c.cellA, currentPosition) && isSameCell(c.cellB, coord)) ||
+      (isSameCell(c.cellB, currentPosition) && isSameCell(c.cellA, coord))
+    )
+    if (!connector || (highlightPath && isConnectorOnSolutionPath(connector.cellA, connector.cellB))) return undefined
+    return connector.value
   }
 
   // Get the start cell position for the label
-  const startCenter = getCellCenter(0, 0)
+  const startCenter = getCellCenter(topology.start.row, topology.start.col)
 
   return (
     <svg
       viewBox={`0 0 ${gridWidth} ${gridHeight}`}
-      className={`puzzle-grid ${className}`}
+      className={`puzzle-grid ${blurred ? 'blur-lg pointer-events-none' : ''} ${className}`}
       preserveAspectRatio="xMidYMid meet"
+      role="group"
+      aria-label="Puzzle grid"
+      aria-hidden={blurred || undefined}
     >
       <GridDefs />
 
@@ -175,6 +291,7 @@ export default function PuzzleGrid({
               type={connector.type}
               isTraversed={isTraversed}
               isWrong={isConnectorWrong(connector.cellA, connector.cellB)}
+              isHighlighted={highlightPath && !isTraversed && isConnectorOnSolutionPath(connector.cellA, connector.cellB)}
               animationDelay={index * 50}
             />
           )
@@ -185,6 +302,8 @@ export default function PuzzleGrid({
       <g className="cells-layer">
         {puzzle.grid.map((row, rowIndex) =>
           row.map((cell, colIndex) => {
+            if (isBlockedCell(topology, { row: rowIndex, col: colIndex })) return null
+
             const center = getCellCenter(rowIndex, colIndex)
             const state = getCellState(rowIndex, colIndex)
             const clickable = isCellClickable(rowIndex, colIndex)
@@ -203,6 +322,9 @@ export default function PuzzleGrid({
                 expression={displayExpression}
                 onClick={clickable && onCellClick ? () => onCellClick({ row: rowIndex, col: colIndex }) : undefined}
                 disabled={!clickable}
+                isCheckpoint={cell.isCheckpoint}
+                isFocused={!!cursor && isSameCell(cursor, { row: rowIndex, col: colIndex })}
+                connectorValue={clickable ? getMoveConnectorValue({ row: rowIndex, col: colIndex }) : undefined}
                 answer={cell.answer ?? undefined}
               />
             )
@@ -210,11 +332,11 @@ export default function PuzzleGrid({
         )}
       </g>
 
-      {/* START label above the grid (matching spec) */}
+      {/* START label above the START cell (matching spec for a top-left START) */}
       <text
         className="start-label"
         x={startCenter.x}
-        y={20}
+        y={startCenter.y - 55}
         textAnchor="middle"
         fontSize={11}
         fontWeight={700}
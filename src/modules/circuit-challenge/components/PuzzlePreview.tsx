@@ -1,4 +1,7 @@
 import type { PrintablePuzzle, PrintConfig } from '../types/print'
+import { formatNumber, isMissingNumberExpression, MISSING_NUMBER_SYMBOL } from '../engine/expressions'
+import { isClueText, splitCellText } from '../engine/clues'
+import { createTopology, getCellLayoutPosition, getLayoutSize } from '../engine/topology'
 
 interface PuzzlePreviewProps {
   puzzle: PrintablePuzzle
@@ -23,12 +26,14 @@ export default function PuzzlePreview({
   showSolution = false,
 }: PuzzlePreviewProps) {
   const { gridRows, gridCols, cells, connectors, targetSum } = puzzle
+  const topology = puzzle.topology ?? createTopology(gridRows, gridCols)
+  const layoutSize = getLayoutSize(topology)
 
   // Calculate dimensions
   const firstCellX = 35
   const firstCellY = 35
-  const svgWidth = firstCellX + (gridCols - 1) * CELL_SPACING_X + 35
-  const svgHeight = firstCellY + (gridRows - 1) * CELL_SPACING_Y + 35
+  const svgWidth = firstCellX + layoutSize.width * CELL_SPACING_X + 35
+  const svgHeight = firstCellY + layoutSize.height * CELL_SPACING_Y + 35
 
   // Create solution set for highlighting
   const solutionSet = new Set(puzzle.solution)
@@ -45,10 +50,13 @@ export default function PuzzlePreview({
   }
 
   // Helper to get cell center
-  const getCellCenter = (row: number, col: number) => ({
-    x: firstCellX + col * CELL_SPACING_X,
-    y: firstCellY + row * CELL_SPACING_Y,
-  })
+  const getCellCenter = (row: number, col: number) => {
+    const position = getCellLayoutPosition(topology, { row, col })
+    return {
+      x: firstCellX + position.x * CELL_SPACING_X,
+      y: firstCellY + position.y * CELL_SPACING_Y,
+    }
+  }
 
   return (
     <div className="flex flex-col items-center">
@@ -129,7 +137,7 @@ export default function PuzzlePreview({
                 fontWeight="bold"
                 fill="#000"
               >
-                {connector.value}
+                {formatNumber(connector.value)}
               </text>
             </g>
           )
@@ -156,6 +164,18 @@ export default function PuzzlePreview({
                 strokeWidth={cell.isStart || cell.isEnd ? 2 : 1.5}
               />
 
+              {/* Dashed inner ring on checkpoints */}
+              {cell.isCheckpoint && (
+                <use
+                  href="#hex-preview"
+                  fill="none"
+                  stroke="#000"
+                  strokeWidth={1}
+                  strokeDasharray="3 2"
+                  transform="scale(0.82)"
+                />
+              )}
+
               {/* START label above cell */}
               {cell.isStart && (
                 <text
@@ -190,11 +210,25 @@ export default function PuzzlePreview({
                   y={cell.isStart ? 3 : 2}
                   textAnchor="middle"
                   dominantBaseline="middle"
-                  fontSize={9}
+                  fontSize={isClueText(cell.expression) ? 5 : cell.expression.length > 9 ? 7 : 9}
                   fontWeight="600"
                   fill="#000"
                 >
-                  {cell.expression}
+                  {isClueText(cell.expression) ? (
+                    splitCellText(cell.expression).map((line, i, lines) => (
+                      <tspan key={i} x={0} dy={i === 0 ? `${-(lines.length - 1) * 0.55}em` : '1.1em'}>
+                        {line}
+                      </tspan>
+                    ))
+                  ) : isMissingNumberExpression(cell.expression) ? (
+                    <>
+                      {cell.expression.split(MISSING_NUMBER_SYMBOL)[0]}
+                      <tspan fontWeight="900">{MISSING_NUMBER_SYMBOL}</tspan>
+                      {cell.expression.split(MISSING_NUMBER_SYMBOL)[1]}
+                    </>
+                  ) : (
+                    cell.expression
+                  )}
                 </text>
               )}
             </g>
@@ -0,0 +1,106 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button, Slider } from '@/ui'
+import { formatTime } from '@/shared/utils/formatters'
+import PuzzleGrid from './PuzzleGrid'
+import { getReplayFrame, getReplayStepDelayMs } from '../services/replay'
+import type { Puzzle } from '../types'
+import type { GameMoveResult } from '../types/gameState'
+
+interface ReplayViewerProps {
+  puzzle: Puzzle
+  moves: GameMoveResult[]
+  hiddenMode?: boolean
+  className?: string
+}
+
+/**
+ * Plays a finished game back on the puzzle grid, with play/pause and a scrubber
+ */
+export default function ReplayViewer({
+  puzzle,
+  moves,
+  hiddenMode = false,
+  className = '',
+}: ReplayViewerProps) {
+  const [moveCount, setMoveCount] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const frame = useMemo(
+    () => getReplayFrame(puzzle, moves, moveCount, hiddenMode),
+    [puzzle, moves, moveCount, hiddenMode]
+  )
+
+  // Step through the moves at the pace they were played
+  useEffect(() => {
+    if (!isPlaying) return
+    if (moveCount >= moves.length) {
+      setIsPlaying(false)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      setMoveCount((count) => count + 1)
+    }, getReplayStepDelayMs(moves, moveCount))
+    return () => clearTimeout(timer)
+  }, [isPlaying, moveCount, moves])
+
+  const handlePlayPause = () => {
+    if (isPlaying) {
+      setIsPlaying(false)
+      return
+    }
+    // Start again from the beginning once the end is reached
+    if (moveCount >= moves.length) setMoveCount(0)
+    setIsPlaying(true)
+  }
+
+  const handleScrub = (value: number) => {
+    setIsPlaying(false)
+    setMoveCount(value)
+  }
+
+  return (
+    <div className={`flex flex-col gap-4 ${className}`}>
+      <div className="flex items-center justify-center">
+        <PuzzleGrid
+          puzzle={puzzle}
+          currentPosition={frame.currentPosition}
+          visitedCells={frame.visitedCells}
+          traversedConnectors={frame.traversedConnectors}
+          wrongMoves={frame.wrongMoves}
+          wrongConnectors={frame.wrongConnectors}
+          disabled
+          className="max-w-full max-h-[50vh]"
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={handlePlayPause}
+          disabled={moves.length === 0}
+          className="w-11 h-11 !p-0 flex items-center justify-center rounded-xl"
+          aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+        >
+          <span className="text-lg">{isPlaying ? '⏸' : '▶'}</span>
+        </Button>
+
+        <Slider
+          min={0}
+          max={moves.length}
+          value={moveCount}
+          onChange={handleScrub}
+          showValue={false}
+          disabled={moves.length === 0}
+          className="flex-1"
+          aria-label="Replay position"
+        />
+      </div>
+
+      <p className="text-center text-sm text-text-secondary tabular-nums">
+        Move {moveCount} of {moves.length} • {formatTime(frame.timeMs)}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import type { DifficultyValidationResult } from '../engine/difficulty'
+
+interface SettingsFeasibilityProps {
+  result: DifficultyValidationResult
+  className?: string
+}
+
+/**
+ * Lists problems with custom difficulty settings before a puzzle is generated
+ * Errors block generation; warnings explain what will go wrong or look different
+ */
+export default function SettingsFeasibility({ result, className = '' }: SettingsFeasibilityProps) {
+  if (result.errors.length === 0 && result.warnings.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={`space-y-2 text-sm ${className}`} role="status">
+      {result.errors.map((error) => (
+        <p key={error} className="text-error">
+          ⛔ {error}
+        </p>
+      ))}
+      {result.warnings.map((warning) => (
+        <p key={warning} className="text-accent-tertiary">
+          ⚠️ {warning}
+        </p>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { Button } from '@/ui'
+import { formatNumber } from '../engine/expressions'
+import { getPuzzleTopology, isBlockedCell, type DirectionName } from '../engine/topology'
+import {
+  describeCell,
+  describeConnectorChoice,
+  getConnectorChoices,
+} from '../services/narration'
+import type { Coordinate, Puzzle } from '../types'
+
+interface TextPuzzleViewProps {
+  puzzle: Puzzle
+  currentPosition: Coordinate
+  visitedCells: Coordinate[]
+  onMove?: (coord: Coordinate) => void
+  onReadStatus?: () => void
+  isReverseMode?: boolean
+  className?: string
+}
+
+const DIRECTION_ARROWS: Record<DirectionName, string> = {
+  'up': '↑',
+  'up-right': '↗',
+  'right': '→',
+  'down-right': '↘',
+  'down': '↓',
+  'down-left': '↙',
+  'left': '←',
+  'up-left': '↖',
+}
+
+/**
+ * Text-only layout of the puzzle for screen readers and low-vision players
+ * Lists the connectors leading on from the current cell as large buttons,
+ * with the whole grid available as a table
+ */
+export default function TextPuzzleView({
+  puzzle,
+  currentPosition,
+  visitedCells,
+  onMove,
+  onReadStatus,
+  isReverseMode = false,
+  className = '',
+}: TextPuzzleViewProps) {
+  const topology = getPuzzleTopology(puzzle)
+  const choices = isReverseMode ? [] : getConnectorChoices(puzzle, currentPosition, visitedCells)
+
+  const isCurrent = (row: number, col: number) =>
+    currentPosition.row === row && currentPosition.col === col
+  const isVisited = (row: number, col: number) =>
+    visitedCells.some(c => c.row === row && c.col === col)
+
+  return (
+    <section
+      aria-label="Puzzle as text"
+      className={`w-full max-w-xl max-h-full overflow-y-auto p-4 rounded-xl bg-background-dark/90 border border-white/10 text-white ${className}`}
+    >
+      <h2 className="text-sm text-text-secondary mb-1">You are on</h2>
+      <p className="text-2xl font-display font-bold mb-4">
+        {describeCell(puzzle, currentPosition)}
+      </p>
+
+      {isReverseMode ? (
+        <p className="text-lg mb-4">Type the answer to this cell.</p>
+      ) : (
+        <>
+          <h2 className="text-sm text-text-secondary mb-2">
+            {choices.length === 1 ? '1 connector' : `${choices.length} connectors`} to choose from
+          </h2>
+          {choices.length === 0 ? (
+            <p className="text-lg mb-4">There are no connectors left to take.</p>
+          ) : (
+            <ul className="space-y-2 mb-4">
+              {choices.map(choice => (
+                <li key={`${choice.cell.row}-${choice.cell.col}`}>
+                  <Button
+                    variant="secondary"
+                    fullWidth
+                    onClick={onMove ? () => onMove(choice.cell) : undefined}
+                    disabled={!onMove}
+                    aria-label={describeConnectorChoice(choice)}
+                    className="!justify-start text-left text-lg"
+                  >
+                    <span aria-hidden="true">
+                      {DIRECTION_ARROWS[choice.direction]} {formatNumber(choice.value)} → {choice.label}
+                    </span>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {onReadStatus && (
+        <Button variant="ghost" size="sm" onClick={onReadStatus} className="mb-4">
+          Read Lives and Time
+        </Button>
+      )}
+
+      <details>
+        <summary className="cursor-pointer text-text-secondary">Whole puzzle</summary>
+        <table className="mt-2 w-full text-sm border-collapse">
+          <caption className="sr-only">
+            Puzzle grid by row. (here) marks the current cell and (done) marks cells already visited.
+          </caption>
+          <tbody>
+            {puzzle.grid.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                <th scope="row" className="pr-2 text-text-secondary font-normal text-left">
+                  Row {rowIndex + 1}
+                </th>
+                {row.map((_, colIndex) => {
+                  const blocked = isBlockedCell(topology, { row: rowIndex, col: colIndex })
+                  const marker = isCurrent(rowIndex, colIndex)
+                    ? ' (here)'
+                    : isVisited(rowIndex, colIndex) ? ' (done)' : ''
+
+                  return (
+                    <td
+                      key={colIndex}
+                      className={`p-1 border border-white/10 ${isCurrent(rowIndex, colIndex) ? 'text-accent-primary font-bold' : ''}`}
+                    >
+                      {blocked ? 'No cell' : `${describeCell(puzzle, { row: rowIndex, col: colIndex })}${marker}`}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </section>
+  )
+}
@@ -13,6 +13,10 @@ export { default as ActionButtons } from './ActionButtons'
 export { default as StarryBackground } from './StarryBackground'
 export { default as SplashBackground } from './SplashBackground'
 export { default as PuzzlePreview } from './PuzzlePreview'
+export { default as SettingsFeasibility } from './SettingsFeasibility'
+export { default as NumberKeypad } from './NumberKeypad'
+export { default as ReplayViewer } from './ReplayViewer'
+export { default as TextPuzzleView } from './TextPuzzleView'
 export { default as AnimatedStarReveal } from './AnimatedStarReveal'
 export { default as AnimatedAlien } from './AnimatedAlien'
 export { MusicToggleButton } from './MusicToggleButton'
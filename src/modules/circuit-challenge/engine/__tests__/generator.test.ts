@@ -8,7 +8,7 @@ import {
   calculateMinPathLength,
   calculateMaxPathLength,
 } from '../difficulty'
-import { generatePath, coordToKey, isInterestingPath } from '../pathfinder'
+import { generatePath, generateTopologyPath, coordToKey, isInterestingPath } from '../pathfinder'
 import { buildDiagonalGrid, buildConnectorGraph, getCellConnectors, areAdjacent } from '../connectors'
 import { assignConnectorValues } from '../valueAssigner'
 import {
@@ -17,9 +17,25 @@ import {
   generateMultiplication,
   generateDivision,
   evaluateExpression,
+  generateMultiStepExpression,
+  generateFractionOf,
+  generatePercentageOf,
+  generateDecimalAddition,
+  generateMissingNumber,
+  generateSignedAddition,
+  generateSignedSubtraction,
 } from '../expressions'
-import { validatePuzzle } from '../validator'
+import { validatePuzzle, validatePath, validateCheckpoints, findSolutionPaths, validateUniqueSolution } from '../validator'
 import { generatePuzzle } from '../generator'
+import type { Puzzle } from '../../types'
+import type { DifficultySettings } from '../types'
+import { createSeededRandom } from '../random'
+import { encodePuzzleCode, decodePuzzleCode } from '../puzzleCode'
+import { solvePuzzle, getNextMove, allCheckpointsVisited, getWorkedAnswer } from '../solver'
+import { getMistakeValues } from '../distractors'
+import { generateClue, evaluateClue, registerClueGenerator, splitCellText } from '../clues'
+import { analyzePuzzle, sortPuzzlesByDifficulty, filterPuzzlesByDifficulty } from '../analyzer'
+import { createTopology, getNeighbours, getHolePattern, isBlockedCell, validateTopology, getCenterCell, getCellInDirection } from '../topology'
 
 describe('Difficulty System', () => {
   it('has 10 preset levels', () => {
@@ -44,6 +60,16 @@ describe('Difficulty System', () => {
     expect(difficulty?.gridCols).toBe(4)
   })
 
+  it('fills in the optional expression settings when they are left out', () => {
+    const settings: DifficultySettings = { ...getDifficultyByLevel(3) }
+    delete settings.maxOperations
+    delete settings.negativeNumbers
+    delete settings.mistakeDistractors
+
+    expect(validateDifficultySettings(settings).valid).toBe(true)
+    expect(generatePuzzle(settings, { seed: 7 }).success).toBe(true)
+  })
+
   it('validateDifficultySettings catches invalid configs', () => {
     const invalidNoOps = createCustomDifficulty({
       additionEnabled: false,
@@ -56,6 +82,49 @@ describe('Difficulty System', () => {
     expect(result.errors).toContain('At least one operation must be enabled')
   })
 
+  it('validateDifficultySettings accepts every preset', () => {
+    for (let level = 1; level <= 10; level++) {
+      expect(validateDifficultySettings(getDifficultyByLevel(level)).valid).toBe(true)
+    }
+  })
+
+  it('validateDifficultySettings rejects too few connector values', () => {
+    const result = validateDifficultySettings(createCustomDifficulty({ connectorMin: 5, connectorMax: 8 }))
+    expect(result.valid).toBe(false)
+    expect(result.errors.some(e => e.includes('connector values'))).toBe(true)
+  })
+
+  it('validateDifficultySettings warns when a big grid has few connector values', () => {
+    const result = validateDifficultySettings(
+      createCustomDifficulty({ connectorMin: 5, connectorMax: 11, gridRows: 6, gridCols: 8 })
+    )
+    expect(result.valid).toBe(true)
+    expect(result.warnings.some(w => w.includes('at least 8 are needed'))).toBe(true)
+  })
+
+  it('validateDifficultySettings warns when no path fits around the blocked cells', () => {
+    // A pocket in the top right that a path can enter but never leave
+    const blockedCells = [{ row: 1, col: 3 }, { row: 2, col: 3 }, { row: 2, col: 4 }]
+    const settings = createCustomDifficulty({ gridRows: 4, gridCols: 5, blockedCells })
+    expect(validateDifficultySettings(settings).warnings).toEqual([])
+
+    const result = validateDifficultySettings({ ...settings, minPathLength: 16, maxPathLength: 17 })
+    expect(result.valid).toBe(true)
+    expect(result.warnings.some(w => w.includes('No path of 16 to 17 cells'))).toBe(true)
+  })
+
+  it('validateDifficultySettings warns when answers are out of reach of the operations', () => {
+    const result = validateDifficultySettings(createCustomDifficulty({
+      additionEnabled: false,
+      subtractionEnabled: false,
+      multiplicationEnabled: true,
+      divisionEnabled: false,
+      multDivRange: 3,
+    }))
+    expect(result.warnings.some(w => w.includes("can't be made"))).toBe(true)
+    expect(result.warnings.some(w => w.includes('times tables'))).toBe(true)
+  })
+
   it('createCustomDifficulty merges correctly', () => {
     const custom = createCustomDifficulty({
       gridRows: 6,
@@ -249,6 +318,794 @@ describe('Full Puzzle Generation', () => {
   })
 })
 
+describe('Solution Uniqueness', () => {
+  /**
+   * 2x2 puzzle where START's answer matches two connectors, both leading to FINISH
+   */
+  function createAmbiguousPuzzle(): Puzzle {
+    return {
+      id: 'ambiguous',
+      difficulty: 1,
+      grid: [
+        [
+          { row: 0, col: 0, expression: '2 + 3', answer: 5, isStart: true, isFinish: false },
+          { row: 0, col: 1, expression: '3 + 4', answer: 7, isStart: false, isFinish: false },
+        ],
+        [
+          { row: 1, col: 0, expression: '4 + 3', answer: 7, isStart: false, isFinish: false },
+          { row: 1, col: 1, expression: '', answer: null, isStart: false, isFinish: true },
+        ],
+      ],
+      connectors: [
+        { type: 'horizontal', cellA: { row: 0, col: 0 }, cellB: { row: 0, col: 1 }, value: 5 },
+        { type: 'horizontal', cellA: { row: 1, col: 0 }, cellB: { row: 1, col: 1 }, value: 7 },
+        { type: 'vertical', cellA: { row: 0, col: 0 }, cellB: { row: 1, col: 0 }, value: 5 },
+        { type: 'vertical', cellA: { row: 0, col: 1 }, cellB: { row: 1, col: 1 }, value: 7 },
+      ],
+      solution: {
+        path: [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 1, col: 1 }],
+        steps: 2,
+      },
+    }
+  }
+
+  it('finds exactly the intended route in generated puzzles', () => {
+    const result = generatePuzzle(getDifficultyByLevel(7), { seed: 2024 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const search = findSolutionPaths(result.puzzle)
+      expect(search.paths).toEqual([result.puzzle.solution.path])
+      expect(validateUniqueSolution(result.puzzle).valid).toBe(true)
+    }
+  })
+
+  it('reports ambiguous puzzles', () => {
+    const puzzle = createAmbiguousPuzzle()
+    expect(findSolutionPaths(puzzle).paths).toHaveLength(2)
+
+    const validation = validateUniqueSolution(puzzle)
+    expect(validation.valid).toBe(false)
+    expect(validation.errors[0]).toContain('ambiguous')
+  })
+
+  it('reports dead ends when no route reaches FINISH', () => {
+    const puzzle = createAmbiguousPuzzle()
+    puzzle.grid[0][0].answer = 9
+
+    const search = findSolutionPaths(puzzle)
+    expect(search.paths).toHaveLength(0)
+    expect(search.deadEnds).toEqual([{ row: 0, col: 0 }])
+    expect(validateUniqueSolution(puzzle).valid).toBe(false)
+  })
+
+  it('gives up past the step budget instead of claiming a unique route', () => {
+    const puzzle = createAmbiguousPuzzle()
+    const search = findSolutionPaths(puzzle, { maxSteps: 1 })
+    expect(search.exhausted).toBe(true)
+    expect(search.paths.length).toBeLessThan(2)
+  })
+
+  it('skips the route search once a cell matches several connectors', () => {
+    const validation = validatePuzzle(createAmbiguousPuzzle())
+    expect(validation.valid).toBe(false)
+    expect(validation.errors.some(e => e.includes('ambiguous'))).toBe(false)
+    expect(validation.errors.some(e => e.includes('matching 2 connectors'))).toBe(true)
+  })
+})
+
+describe('Seeded Generation', () => {
+  it('createSeededRandom repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(42)
+    const b = createSeededRandom(42)
+    const sequenceA = Array.from({ length: 5 }, () => a())
+    const sequenceB = Array.from({ length: 5 }, () => b())
+    expect(sequenceA).toEqual(sequenceB)
+    sequenceA.forEach(n => {
+      expect(n).toBeGreaterThanOrEqual(0)
+      expect(n).toBeLessThan(1)
+    })
+  })
+
+  it('generates identical puzzles from the same seed and settings', () => {
+    const difficulty = getDifficultyByLevel(8)
+    const first = generatePuzzle(difficulty, { seed: 12345 })
+    const second = generatePuzzle(difficulty, { seed: 12345 })
+    expect(first.success).toBe(true)
+    expect(second).toEqual(first)
+  })
+
+  it('generates different puzzles from different seeds', () => {
+    const difficulty = getDifficultyByLevel(5)
+    const first = generatePuzzle(difficulty, { seed: 1 })
+    const second = generatePuzzle(difficulty, { seed: 2 })
+    expect(first.success && second.success).toBe(true)
+    if (first.success && second.success) {
+      expect(second.puzzle.id).not.toBe(first.puzzle.id)
+      expect(second.puzzle.grid).not.toEqual(first.puzzle.grid)
+    }
+  })
+
+  it('stores the seed on the puzzle so it can be regenerated', () => {
+    const difficulty = getDifficultyByLevel(3)
+    const original = generatePuzzle(difficulty)
+    expect(original.success).toBe(true)
+    if (original.success) {
+      expect(original.puzzle.seed).toBeTypeOf('number')
+      const regenerated = generatePuzzle(difficulty, { seed: original.puzzle.seed })
+      expect(regenerated).toEqual(original)
+    }
+  })
+})
+
+describe('Puzzle Codes', () => {
+  it('round-trips a generated puzzle through a URL-safe code', () => {
+    const result = generatePuzzle(getDifficultyByLevel(10), { seed: 99 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const code = encodePuzzleCode(result.puzzle)
+      expect(code).toMatch(/^[A-Za-z0-9_-]+$/)
+
+      const decoded = decodePuzzleCode(code)
+      expect(decoded.success).toBe(true)
+      if (decoded.success) {
+        expect(decoded.puzzle.grid).toEqual(result.puzzle.grid)
+        expect(decoded.puzzle.solution).toEqual(result.puzzle.solution)
+        expect(decoded.puzzle.difficulty).toBe(result.puzzle.difficulty)
+        expect(new Set(decoded.puzzle.connectors.map(c => JSON.stringify(c))))
+          .toEqual(new Set(result.puzzle.connectors.map(c => JSON.stringify(c))))
+      }
+    }
+  })
+
+  it('rejects malformed codes', () => {
+    expect(decodePuzzleCode('not a code!').success).toBe(false)
+    expect(decodePuzzleCode('AQ').success).toBe(false)
+  })
+
+  it('rejects codes whose puzzle fails validation', () => {
+    const result = generatePuzzle(getDifficultyByLevel(3), { seed: 7 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const broken = {
+        ...result.puzzle,
+        connectors: result.puzzle.connectors.map(c => ({ ...c, value: 5 })),
+      }
+      expect(decodePuzzleCode(encodePuzzleCode(broken)).success).toBe(false)
+    }
+  })
+
+  it('rejects a hostile code quickly', () => {
+    // 6×6 grid: a corridor to FINISH along the top and right edges, plus a pocket where every
+    // cell's answer matches every connector, which once sent the uniqueness search into minutes
+    const hostile =
+      'BAYGAAAFBQAAAABzWnAABggGCAYCAgICBAICAgIEAgICAgQCAgICBAICAgIEBAgEBAQIAgICAgIGAgICAgIIAgICAgIGAgICAgIIBAQEBAQCAgICBAICAgIEAgICAgQCAgICBAUxICsgMgUyICsgMgUxICsgMgUyICsgMgUxICsgMgUyICsgMgUwICsgMQUwICsgMQUwICsgMQUwICsgMQUwICsgMQUxICsgMgUwICsgMQUwICsgMQUwICsgMQUwICsgMQUwICsgMQUyICsgMgUwICsgMQUwICsgMQUwICsgMQUwICsgMQUwICsgMQUxICsgMgUwICsgMQUwICsgMQUwICsgMQUwICsgMQUwICsgMQUyICsgMgUwICsgMQUwICsgMQUwICsgMQUwICsgMQUwICsgMQ'
+
+    const startedAt = performance.now()
+    const decoded = decodePuzzleCode(hostile)
+    expect(performance.now() - startedAt).toBeLessThan(1000)
+    expect(decoded.success).toBe(false)
+  })
+})
+
+describe('Solver', () => {
+  it('solves a puzzle along its solution path', () => {
+    const result = generatePuzzle(getDifficultyByLevel(4), { seed: 11 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(solvePuzzle(result.puzzle)).toEqual(result.puzzle.solution.path)
+    }
+  })
+
+  it('gives the next move with an explanation from any point on the path', () => {
+    const result = generatePuzzle(getDifficultyByLevel(4), { seed: 12 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const { path } = result.puzzle.solution
+      const position = path[1]
+      const hint = getNextMove(result.puzzle, position, path.slice(0, 2))
+      const cell = result.puzzle.grid[position.row][position.col]
+
+      expect(hint).not.toBeNull()
+      expect(hint?.to).toEqual(path[2])
+      expect(hint?.connectorValue).toBe(cell.answer)
+      expect(hint?.explanation).toBe(`${cell.expression} = ${cell.answer}, take the ${cell.answer} connector`)
+    }
+  })
+
+  it('fills in the missing number when explaining the next move', () => {
+    const result = generatePuzzle(getDifficultyByLevel(4), { seed: 12 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const [start] = result.puzzle.solution.path
+      const cell = result.puzzle.grid[start.row][start.col]
+      const answer = cell.answer!
+      const grid = result.puzzle.grid.map(row => row.map(c =>
+        c === cell ? { ...c, expression: `? + 7 = ${answer + 7}` } : c
+      ))
+
+      const hint = getNextMove({ ...result.puzzle, grid }, start)
+
+      expect(hint?.explanation).toBe(`${answer} + 7 = ${answer + 7}, take the ${answer} connector`)
+    }
+  })
+
+  it('returns null at FINISH', () => {
+    const result = generatePuzzle(getDifficultyByLevel(4), { seed: 13 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const { path } = result.puzzle.solution
+      expect(getNextMove(result.puzzle, path[path.length - 1], path)).toBeNull()
+    }
+  })
+
+  it('works through a cell expression to its answer', () => {
+    const cell = { row: 0, col: 0, expression: '3 × 4', answer: 12, isStart: true, isFinish: false }
+    expect(getWorkedAnswer(cell)).toBe('3 × 4 = 12')
+    expect(getWorkedAnswer({ ...cell, expression: '? + 7 = 15', answer: 8 })).toBe('8 + 7 = 15')
+    expect(getWorkedAnswer({ ...cell, expression: 'FINISH', answer: null })).toBeNull()
+  })
+})
+
+describe('Mistake Distractors', () => {
+  it('suggests common mistakes for each operation', () => {
+    expect(getMistakeValues('3 × 4', 12)).toEqual(expect.arrayContaining([11, 13, 7, 9, 15]))
+    expect(getMistakeValues('15 − 6', 9)).toEqual(expect.arrayContaining([8, 10, 21]))
+    expect(getMistakeValues('12 ÷ 3', 4)).toEqual(expect.arrayContaining([3, 5, 9]))
+    expect(getMistakeValues('7 + 5', 12)).toEqual(expect.arrayContaining([11, 13, 2]))
+  })
+
+  it('never suggests the correct answer or non-positive values', () => {
+    const values = getMistakeValues('2 − 1', 1)
+    expect(values).not.toContain(1)
+    expect(values.every(v => v > 0 && Number.isInteger(v))).toBe(true)
+  })
+
+  it('places mistake values next to the path while keeping puzzles valid', () => {
+    const difficulty = { ...getDifficultyByLevel(6), mistakeDistractors: true }
+    let nearMisses = 0
+
+    for (let seed = 1; seed <= 5; seed++) {
+      const result = generatePuzzle(difficulty, { seed })
+      expect(result.success).toBe(true)
+      if (!result.success) continue
+
+      const { puzzle } = result
+      expect(validatePuzzle(puzzle).valid).toBe(true)
+
+      for (const coord of puzzle.solution.path) {
+        const cell = puzzle.grid[coord.row][coord.col]
+        if (cell.answer === null) continue
+        const mistakes = getMistakeValues(cell.expression, cell.answer)
+        nearMisses += getCellConnectors(coord, puzzle.connectors)
+          .filter(c => mistakes.includes(c.value)).length
+      }
+    }
+
+    expect(nearMisses).toBeGreaterThan(0)
+  })
+})
+
+describe('Difficulty Analysis', () => {
+  const generateMany = (level: number, count: number): Puzzle[] => {
+    const puzzles: Puzzle[] = []
+    for (let seed = 1; seed <= count; seed++) {
+      const result = generatePuzzle(getDifficultyByLevel(level), { seed })
+      if (result.success) puzzles.push(result.puzzle)
+    }
+    return puzzles
+  }
+
+  it('measures generated puzzles', () => {
+    const [puzzle] = generateMany(5, 1)
+    expect(puzzle.measuredDifficulty).toEqual(analyzePuzzle(puzzle))
+    expect(puzzle.measuredDifficulty?.score).toBeGreaterThanOrEqual(1)
+    expect(puzzle.measuredDifficulty?.score).toBeLessThanOrEqual(10)
+    for (const factor of Object.values(puzzle.measuredDifficulty?.factors ?? {})) {
+      expect(factor).toBeGreaterThanOrEqual(0)
+      expect(factor).toBeLessThanOrEqual(1)
+    }
+  })
+
+  it('scores harder presets higher than easier ones', () => {
+    const average = (puzzles: Puzzle[]) =>
+      puzzles.reduce((sum, p) => sum + analyzePuzzle(p).score, 0) / puzzles.length
+    expect(average(generateMany(10, 3))).toBeGreaterThan(average(generateMany(1, 3)))
+  })
+
+  it('sorts and filters puzzles by measured difficulty', () => {
+    const puzzles = [...generateMany(10, 2), ...generateMany(1, 2)]
+    const scores = sortPuzzlesByDifficulty(puzzles).map(p => analyzePuzzle(p).score)
+    expect(scores).toEqual([...scores].sort((a, b) => a - b))
+
+    const easiest = scores[0]
+    const filtered = filterPuzzlesByDifficulty(puzzles, 1, easiest)
+    expect(filtered.length).toBeGreaterThan(0)
+    expect(filtered.every(p => analyzePuzzle(p).score <= easiest)).toBe(true)
+  })
+})
+
+describe('Generation Diagnostics', () => {
+  it('explains which step failed on every attempt', () => {
+    const impossible = createCustomDifficulty({ connectorMin: 5, connectorMax: 6, gridRows: 5, gridCols: 5 })
+    const result = generatePuzzle(impossible, { maxAttempts: 5, seed: 1 })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      const { diagnostics } = result
+      expect(diagnostics.attempts).toBe(5)
+      expect(diagnostics.failures).toHaveLength(5)
+      expect(diagnostics.failuresByStep.values).toBe(5)
+      expect(diagnostics.failures[0].errors[0]).toContain('No available values')
+      expect(diagnostics.suggestions[0]).toContain('bigger number range')
+    }
+  })
+
+  it('reports a grid with cut-off cells as a topology failure', () => {
+    // Holes around the top-right corner cut it off from START
+    const walledIn = createCustomDifficulty({ gridRows: 4, gridCols: 5, blockedCells: [{ row: 0, col: 3 }, { row: 1, col: 3 }, { row: 1, col: 4 }] })
+    const result = generatePuzzle(walledIn, { maxAttempts: 3, seed: 1 })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.diagnostics.failuresByStep.topology).toBe(3)
+      expect(result.diagnostics.failures[0].errors[0]).toContain('cut off from START')
+      expect(result.diagnostics.suggestions[0]).toContain('fewer holes')
+    }
+  })
+})
+
+describe('Multi-Step Expressions', () => {
+  it('evaluates with correct order of operations and brackets', () => {
+    expect(evaluateExpression('3 × 4 + 2')).toBe(14)
+    expect(evaluateExpression('2 + 3 × 4')).toBe(14)
+    expect(evaluateExpression('(20 − 5) ÷ 3')).toBe(5)
+    expect(evaluateExpression('20 − 5 − 3')).toBe(12)
+    expect(evaluateExpression('24 ÷ 4 ÷ 2')).toBe(3)
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(evaluateExpression('(3 + 4')).toBeNull()
+    expect(evaluateExpression('3 + × 4')).toBeNull()
+    expect(evaluateExpression('3 4')).toBeNull()
+    expect(evaluateExpression('6 ÷ 0')).toBeNull()
+  })
+
+  it('generates expressions with the requested number of operations', () => {
+    const difficulty = getDifficultyByLevel(10)
+    const random = createSeededRandom(5)
+    let generated = 0
+
+    for (let target = 5; target <= 60; target++) {
+      const expression = generateMultiStepExpression(target, difficulty, 2, random)
+      if (!expression) continue
+      generated++
+      expect(evaluateExpression(expression.text)).toBe(target)
+      expect(expression.text.match(/[+−×÷]/g)).toHaveLength(2)
+    }
+
+    expect(generated).toBeGreaterThan(0)
+  })
+
+  it('generates valid puzzles when maxOperations allows multi-step expressions', () => {
+    const difficulty = { ...getDifficultyByLevel(10), maxOperations: 3 }
+    const result = generatePuzzle(difficulty, { seed: 21 })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const expressions = result.puzzle.grid.flat().map(c => c.expression)
+      expect(expressions.some(e => (e.match(/[+−×÷]/g) ?? []).length > 1)).toBe(true)
+    }
+  })
+})
+
+describe('Fractions, Decimals and Percentages', () => {
+  it('evaluates fractions, decimals and percentages of amounts', () => {
+    expect(evaluateExpression('½ of 18')).toBe(9)
+    expect(evaluateExpression('¾ of 20')).toBe(15)
+    expect(evaluateExpression('⅓ of 12')).toBe(4)
+    expect(evaluateExpression('2.5 + 1.5')).toBe(4)
+    expect(evaluateExpression('0.1 + 0.2')).toBe(0.3)
+    expect(evaluateExpression('10% of 60')).toBe(6)
+    expect(evaluateExpression('of 60')).toBeNull()
+  })
+
+  it('generates expressions that evaluate to the target', () => {
+    const random = createSeededRandom(11)
+
+    for (let target = 1; target <= 30; target++) {
+      const fraction = generateFractionOf(target, 200, random)
+      const percentage = generatePercentageOf(target, 200, random)
+      const decimal = generateDecimalAddition(target, 20, random)
+
+      expect(fraction?.kind).toBe('fraction')
+      expect(evaluateExpression(fraction!.text)).toBe(target)
+      if (percentage) expect(evaluateExpression(percentage.text)).toBe(target)
+      if (decimal) {
+        expect(decimal.text).toMatch(/^\d+\.[1-9] \+ \d+\.[1-9]$/)
+        expect(evaluateExpression(decimal.text)).toBe(target)
+      }
+    }
+  })
+
+  it('generates valid puzzles using the enabled topics', () => {
+    const difficulty = {
+      ...getDifficultyByLevel(4),
+      fractionsEnabled: true,
+      decimalsEnabled: true,
+      percentagesEnabled: true,
+    }
+    const result = generatePuzzle(difficulty, { seed: 8 })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const expressions = result.puzzle.grid.flat().map(c => c.expression)
+      expect(expressions.some(e => e.includes(' of ') || e.includes('.'))).toBe(true)
+    }
+  })
+})
+
+describe('Missing-Number Expressions', () => {
+  it('evaluates to the missing number', () => {
+    expect(evaluateExpression('? + 7 = 15')).toBe(8)
+    expect(evaluateExpression('9 + ? = 15')).toBe(6)
+    expect(evaluateExpression('? − 3 = 5')).toBe(8)
+    expect(evaluateExpression('12 − ? = 5')).toBe(7)
+    expect(evaluateExpression('? × 4 = 28')).toBe(7)
+    expect(evaluateExpression('? ÷ 3 = 4')).toBe(12)
+    expect(evaluateExpression('24 ÷ ? = 6')).toBe(4)
+    expect(evaluateExpression('? + ? = 6')).toBeNull()
+  })
+
+  it('generates equations whose blank is the target', () => {
+    const difficulty = getDifficultyByLevel(8)
+    const random = createSeededRandom(3)
+
+    for (let target = 1; target <= 40; target++) {
+      const expression = generateMissingNumber(target, difficulty, random)
+      if (!expression) continue
+      expect(expression.kind).toBe('missing-number')
+      expect(expression.text).toMatch(/^(\?|\d+) [+−×÷] (\?|\d+) = \d+$/)
+      expect(evaluateExpression(expression.text)).toBe(target)
+    }
+  })
+
+  it('uses the forward operation as a common mistake', () => {
+    expect(getMistakeValues('? + 7 = 15', 8)).toContain(22)
+  })
+
+  it('generates valid puzzles with missing-number cells', () => {
+    const difficulty = { ...getDifficultyByLevel(5), missingNumberEnabled: true }
+    const result = generatePuzzle(difficulty, { seed: 14 })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const expressions = result.puzzle.grid.flat().map(c => c.expression)
+      expect(expressions.some(e => e.includes('?'))).toBe(true)
+    }
+  })
+})
+
+describe('Number-Property Clues', () => {
+  it('evaluates multiple, square and factor clues', () => {
+    expect(evaluateExpression('next multiple of 7 after 40')).toBe(42)
+    expect(evaluateExpression('square of 6')).toBe(36)
+    expect(evaluateExpression('largest factor of 18 below 9')).toBe(6)
+    expect(evaluateClue('3 + 4')).toBeNull()
+  })
+
+  it('generates clues whose answer is the target', () => {
+    const difficulty = getDifficultyByLevel(6)
+    const random = createSeededRandom(9)
+
+    for (let target = 2; target <= 40; target++) {
+      const clue = generateClue(target, difficulty, random)
+      expect(clue).not.toBeNull()
+      expect(evaluateExpression(clue!.text)).toBe(target)
+    }
+  })
+
+  it('uses registered clue generators', () => {
+    registerClueGenerator({
+      type: 'double',
+      generate: (target) => (target % 2 === 0
+        ? { text: `double ${target / 2}`, operation: '×', operandA: 2, operandB: target / 2, result: target }
+        : null),
+      evaluate: (text) => {
+        const match = text.match(/^double (\d+)$/)
+        return match ? parseInt(match[1], 10) * 2 : null
+      },
+    })
+    expect(evaluateExpression('double 9')).toBe(18)
+  })
+
+  it('wraps long clues onto several lines', () => {
+    expect(splitCellText('next multiple of 7 after 40')).toEqual(['next multiple', 'of 7 after 40'])
+    expect(splitCellText('square of 6')).toEqual(['square of 6'])
+  })
+
+  it('generates valid puzzles made of clues', () => {
+    const difficulty = { ...getDifficultyByLevel(5), numberClues: true }
+    const result = generatePuzzle(difficulty, { seed: 4 })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const expressions = result.puzzle.grid.flat().filter(c => c.expression).map(c => c.expression)
+      expect(expressions.filter(e => evaluateClue(e) !== null).length).toBeGreaterThan(expressions.length / 2)
+    }
+  })
+})
+
+describe('Negative Numbers', () => {
+  const difficulty = createCustomDifficulty({
+    additionEnabled: true,
+    subtractionEnabled: true,
+    addSubRange: 12,
+    connectorMax: 12,
+    negativeNumbers: true,
+  })
+
+  it('mirrors the connector range below zero and passes validation', () => {
+    expect(difficulty.connectorMin).toBe(-12)
+    expect(validateDifficultySettings(difficulty).valid).toBe(true)
+    expect(validateDifficultySettings({ ...difficulty, negativeNumbers: false }).valid).toBe(false)
+  })
+
+  it('evaluates negative numbers', () => {
+    expect(evaluateExpression('3 − 8')).toBe(-5)
+    expect(evaluateExpression('−3 + 8')).toBe(5)
+    expect(evaluateExpression('2 − (−4)')).toBe(6)
+    expect(evaluateExpression('−2 + (−4)')).toBe(-6)
+  })
+
+  it('generates directed-number sums for positive, zero and negative targets', () => {
+    const random = createSeededRandom(17)
+
+    // 12 can't be made by adding a negative number to another number up to 12
+    for (let target = -12; target < 12; target++) {
+      const addition = generateSignedAddition(target, 12, random)
+      const subtraction = generateSignedSubtraction(target, 12, random)
+      expect(addition).not.toBeNull()
+      expect(subtraction).not.toBeNull()
+      expect(evaluateExpression(addition!.text)).toBe(target)
+      expect(evaluateExpression(subtraction!.text)).toBe(target)
+      expect(addition!.text).not.toContain('-')
+    }
+  })
+
+  it('generates valid puzzles with negative connector values', () => {
+    const result = generatePuzzle(difficulty, { seed: 6 })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.puzzle.connectors.some(c => c.value < 0)).toBe(true)
+      expect(validatePuzzle(result.puzzle).valid).toBe(true)
+
+      // Codes store signed values
+      const decoded = decodePuzzleCode(encodePuzzleCode(result.puzzle))
+      expect(decoded.success).toBe(true)
+      if (decoded.success) {
+        expect(decoded.puzzle.grid).toEqual(result.puzzle.grid)
+      }
+    }
+  })
+})
+
+describe('Grid Topologies', () => {
+  it('gives hex cells up to six neighbours', () => {
+    const topology = createTopology(5, 5, 'hex')
+    expect(getNeighbours(topology, { row: 2, col: 2 })).toHaveLength(6)
+    expect(getNeighbours(topology, { row: 1, col: 2 })).toHaveLength(6)
+    expect(getNeighbours(topology, { row: 0, col: 0 })).toHaveLength(2)
+  })
+
+  it('picks the neighbour lying in a cursor direction', () => {
+    const hex = createTopology(5, 5, 'hex')
+    const from = { row: 2, col: 2 }
+    const hexNeighbours = getNeighbours(hex, from)
+    expect(getCellInDirection(hex, from, hexNeighbours, { x: 1, y: -1 })).toEqual({ row: 1, col: 2 })
+    expect(getCellInDirection(hex, from, hexNeighbours, { x: -1, y: 1 })).toEqual({ row: 3, col: 1 })
+    expect(getCellInDirection(hex, from, hexNeighbours, { x: 1, y: 0 })).toEqual({ row: 2, col: 3 })
+
+    const square = createTopology(5, 5, 'square')
+    const squareNeighbours = getNeighbours(square, from)
+    expect(getCellInDirection(square, from, squareNeighbours, { x: 1, y: -1 })).toEqual({ row: 1, col: 3 })
+    expect(getCellInDirection(square, from, squareNeighbours, { x: 0, y: -1 })).toEqual({ row: 1, col: 2 })
+
+    // Options more than 45° off are never picked
+    expect(getCellInDirection(square, from, [{ row: 2, col: 3 }], { x: 0, y: -1 })).toBeUndefined()
+  })
+
+  it('rejects blocked START cells and cut-off areas', () => {
+    expect(validateTopology(createTopology(4, 5, 'square', [{ row: 0, col: 0 }]))).toHaveLength(1)
+
+    // A wall of blocked cells across the middle of a square grid
+    const wall = [0, 1, 2, 3, 4].map(col => ({ row: 2, col }))
+    expect(validateTopology(createTopology(4, 5, 'square', wall)).length).toBeGreaterThan(0)
+    expect(validateTopology(createTopology(4, 5, 'square', getHolePattern(4, 5)))).toEqual([])
+  })
+
+  it('generates valid hex puzzles', () => {
+    const difficulty = createCustomDifficulty({ gridRows: 5, gridCols: 5, gridTopology: 'hex' })
+    const result = generatePuzzle(difficulty, { seed: 3 })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.puzzle.topology?.kind).toBe('hex')
+      expect(validatePuzzle(result.puzzle).valid).toBe(true)
+    }
+  })
+
+  it('generates valid puzzles around holes', () => {
+    const blockedCells = getHolePattern(5, 6)
+    const difficulty = createCustomDifficulty({ gridRows: 5, gridCols: 6, blockedCells })
+    expect(validateDifficultySettings(difficulty).valid).toBe(true)
+
+    const result = generatePuzzle(difficulty, { seed: 8 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const topology = result.puzzle.topology!
+      expect(validatePuzzle(result.puzzle).valid).toBe(true)
+      expect(result.puzzle.solution.path.some(c => isBlockedCell(topology, c))).toBe(false)
+      expect(result.puzzle.connectors.some(
+        c => isBlockedCell(topology, c.cellA) || isBlockedCell(topology, c.cellB)
+      )).toBe(false)
+    }
+  })
+
+  it('generates puzzles with holes on every grid the setup screens offer', () => {
+    for (const gridTopology of ['square', 'hex'] as const) {
+      for (let gridRows = 3; gridRows <= 8; gridRows++) {
+        for (let gridCols = 4; gridCols <= 10; gridCols++) {
+          const blockedCells = getHolePattern(gridRows, gridCols)
+          const difficulty = createCustomDifficulty({ gridRows, gridCols, gridTopology, blockedCells })
+
+          const result = generatePuzzle(difficulty, { seed: 1 })
+          expect(result.success, `${gridTopology} ${gridRows}×${gridCols}`).toBe(true)
+        }
+      }
+    }
+  }, 60000)
+
+  it('keeps the topology in puzzle codes', () => {
+    for (const overrides of [
+      { gridTopology: 'hex' as const },
+      { blockedCells: getHolePattern(5, 6) },
+    ]) {
+      const result = generatePuzzle(createCustomDifficulty({ gridRows: 5, gridCols: 6, ...overrides }), { seed: 12 })
+      expect(result.success).toBe(true)
+      if (!result.success) continue
+
+      const decoded = decodePuzzleCode(encodePuzzleCode(result.puzzle))
+      expect(decoded.success).toBe(true)
+      if (decoded.success) {
+        expect(decoded.puzzle.topology).toEqual(result.puzzle.topology)
+        expect(decoded.puzzle.grid).toEqual(result.puzzle.grid)
+        expect(decoded.puzzle.connectors).toEqual(result.puzzle.connectors)
+      }
+    }
+  })
+})
+
+describe('Start and Finish Positions', () => {
+  it('starts center-out puzzles in the middle of the grid', () => {
+    const difficulty = createCustomDifficulty({ gridRows: 5, gridCols: 5, endpointLayout: 'center-out' })
+    const result = generatePuzzle(difficulty, { seed: 4 })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const { path } = result.puzzle.solution
+      expect(path[0]).toEqual({ row: 2, col: 2 })
+      expect(result.puzzle.grid[2][2].isStart).toBe(true)
+      expect(result.puzzle.grid[0][0].isStart).toBe(false)
+      expect(validatePuzzle(result.puzzle).valid).toBe(true)
+    }
+  })
+
+  it('uses fixed START and FINISH cells from the settings', () => {
+    const difficulty = createCustomDifficulty({
+      gridRows: 4,
+      gridCols: 5,
+      startCell: { row: 3, col: 0 },
+      finishCell: { row: 0, col: 4 },
+    })
+    const result = generatePuzzle(difficulty, { seed: 9 })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const { path } = result.puzzle.solution
+      expect(path[0]).toEqual({ row: 3, col: 0 })
+      expect(path[path.length - 1]).toEqual({ row: 0, col: 4 })
+      expect(validatePuzzle(result.puzzle).valid).toBe(true)
+
+      // Codes keep the endpoints
+      const decoded = decodePuzzleCode(encodePuzzleCode(result.puzzle))
+      expect(decoded.success).toBe(true)
+      if (decoded.success) {
+        expect(decoded.puzzle.topology).toEqual(result.puzzle.topology)
+      }
+    }
+  })
+
+  it('generates valid puzzles with random endpoints', () => {
+    const difficulty = createCustomDifficulty({ gridRows: 5, gridCols: 6, endpointLayout: 'random' })
+    for (const seed of [1, 2, 3]) {
+      const result = generatePuzzle(difficulty, { seed })
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(validatePuzzle(result.puzzle).valid).toBe(true)
+      }
+    }
+  })
+
+  it('checks paths against the topology endpoints', () => {
+    const topology = createTopology(3, 4, 'square', [], { row: 1, col: 1 }, { row: 0, col: 3 })
+    const path = [{ row: 1, col: 1 }, { row: 1, col: 2 }, { row: 0, col: 3 }]
+    expect(validatePath(path, 3, 4, topology).valid).toBe(true)
+    expect(validatePath(path, 3, 4).valid).toBe(false)
+  })
+
+  it('rejects blocked or matching START and FINISH cells', () => {
+    const blocked = createCustomDifficulty({ blockedCells: [{ row: 1, col: 1 }], startCell: { row: 1, col: 1 } })
+    expect(validateDifficultySettings(blocked).valid).toBe(false)
+
+    const same = createCustomDifficulty({ startCell: { row: 1, col: 1 }, finishCell: { row: 1, col: 1 } })
+    expect(validateDifficultySettings(same).valid).toBe(false)
+
+    // The center cell steps around a hole in the middle
+    const holed = createTopology(3, 5, 'square', [{ row: 1, col: 2 }])
+    expect(getCenterCell(holed)).not.toEqual({ row: 1, col: 2 })
+  })
+})
+
+describe('Checkpoints', () => {
+  it('routes paths through every waypoint before FINISH', () => {
+    const waypoints = [{ row: 0, col: 4 }, { row: 2, col: 1 }]
+    const result = generateTopologyPath(createTopology(5, 5), 12, 21, waypoints, 200, createSeededRandom(5))
+
+    expect(result.success).toBe(true)
+    const keys = result.path.map(coordToKey)
+    for (const waypoint of waypoints) {
+      expect(keys).toContain(coordToKey(waypoint))
+    }
+  })
+
+  it('generates valid puzzles with checkpoints on the solution path', () => {
+    const difficulty = createCustomDifficulty({ gridRows: 5, gridCols: 6, checkpointCount: 2 })
+    const result = generatePuzzle(difficulty, { seed: 10 })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const { puzzle } = result
+      const checkpoints = puzzle.grid.flat().filter(c => c.isCheckpoint)
+      expect(checkpoints).toHaveLength(2)
+      expect(validatePuzzle(puzzle).valid).toBe(true)
+
+      const path = puzzle.solution.path
+      expect(allCheckpointsVisited(puzzle, path)).toBe(true)
+      expect(allCheckpointsVisited(puzzle, path.slice(0, 1))).toBe(false)
+
+      // Codes keep the checkpoints
+      const decoded = decodePuzzleCode(encodePuzzleCode(puzzle))
+      expect(decoded.success).toBe(true)
+      if (decoded.success) {
+        expect(decoded.puzzle.grid.flat().filter(c => c.isCheckpoint)).toEqual(checkpoints)
+      }
+    }
+  })
+
+  it('rejects checkpoints off the solution path', () => {
+    const result = generatePuzzle(createCustomDifficulty({ gridRows: 4, gridCols: 5 }), { seed: 2 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      const { grid, solution } = result.puzzle
+      const pathKeys = new Set(solution.path.map(coordToKey))
+      const offPath = grid.flat().find(c => !pathKeys.has(coordToKey(c)))!
+      const marked = grid.map(row => row.map(cell => (cell === offPath ? { ...cell, isCheckpoint: true } : cell)))
+      expect(validateCheckpoints(marked, solution.path).valid).toBe(false)
+    }
+  })
+})
+
 describe('Edge Cases', () => {
   it('handles minimum grid size (3x4)', () => {
     const difficulty = createCustomDifficulty({
@@ -0,0 +1,171 @@
+import type { Coordinate, MeasuredDifficulty, Puzzle } from '../types'
+import { coordToKey } from './pathfinder'
+import { getCellConnectors, getConnectorBetween, getOtherCell } from './connectors'
+
+/**
+ * How much each operation contributes to the operation mix factor
+ */
+const OPERATION_WEIGHTS: Record<string, number> = {
+  '+': 0.25,
+  '−': 0.5,
+  '×': 0.75,
+  '÷': 1,
+  of: 1,
+}
+
+/**
+ * Added to the operation mix for each operation beyond the first in an expression
+ */
+const EXTRA_OPERATION_WEIGHT = 0.25
+
+/**
+ * Contribution of each factor to the overall score (sums to 1)
+ */
+const FACTOR_WEIGHTS = {
+  pathLength: 0.25,
+  operationMix: 0.25,
+  operandSize: 0.2,
+  nearMissDistractors: 0.15,
+  branching: 0.15,
+}
+
+/**
+ * Path lengths (in steps) mapped to the bottom and top of the path length factor
+ */
+const SHORTEST_PATH_STEPS = 4
+const LONGEST_PATH_STEPS = 40
+
+/**
+ * Operand size at which the operand factor reaches 1
+ */
+const LARGEST_OPERAND = 100
+
+/**
+ * A wrong connector within this distance of the answer counts as a near miss
+ */
+const NEAR_MISS_DISTANCE = 2
+
+/**
+ * Most connectors a cell can have (4 orthogonal + up to 4 diagonal)
+ */
+const MAX_CELL_CONNECTORS = 8
+
+/**
+ * Clamp a value into the 0-1 range
+ */
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+/**
+ * Find the operations and operands in an expression like "12 × 3" or "½ of 18"
+ */
+function parseExpression(expression: string): { operations: string[]; operands: number[] } {
+  const operations = expression.match(/[+−×÷]|of/g) ?? []
+  const operands = (expression.match(/\d+(\.\d+)?/g) ?? []).map(Number)
+  return { operations, operands }
+}
+
+/**
+ * Average of a list, or 0 when empty
+ */
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+/**
+ * Measure how hard a puzzle is to solve
+ * Each factor is normalized to 0-1, then combined into a 1-10 score
+ */
+export function analyzePuzzle(puzzle: Puzzle): MeasuredDifficulty {
+  const { path, steps } = puzzle.solution
+  const stepCells = path.slice(0, -1).map(coord => puzzle.grid[coord.row][coord.col])
+
+  // Path length
+  const pathLength = clamp01(
+    (steps - SHORTEST_PATH_STEPS) / (LONGEST_PATH_STEPS - SHORTEST_PATH_STEPS)
+  )
+
+  // Operation mix: hardest operation in each expression on the path, plus extra steps
+  const parsed = stepCells.map(cell => parseExpression(cell.expression))
+  const operationMix = average(
+    parsed.map(p => clamp01(
+      Math.max(0, ...p.operations.map(op => OPERATION_WEIGHTS[op] ?? 0)) +
+      EXTRA_OPERATION_WEIGHT * Math.max(0, p.operations.length - 1)
+    ))
+  )
+
+  // Operand size: largest operand in each expression, on a log scale
+  const largestOperands = parsed.map(p => Math.max(0, ...p.operands))
+  const operandSize = clamp01(Math.log10(average(largestOperands) + 1) / Math.log10(LARGEST_OPERAND + 1))
+
+  // Near-miss distractors and branching, looking at each step's choices
+  let distractorCount = 0
+  let nearMissCount = 0
+  const choiceCounts: number[] = []
+  const visited = new Set<string>()
+
+  path.slice(0, -1).forEach((coord: Coordinate, i) => {
+    visited.add(coordToKey(coord))
+    const answer = puzzle.grid[coord.row][coord.col].answer
+    const correct = getConnectorBetween(coord, path[i + 1], puzzle.connectors)
+
+    // Only connectors leading to cells not yet visited are real choices
+    const choices = getCellConnectors(coord, puzzle.connectors).filter(
+      c => !visited.has(coordToKey(getOtherCell(c, coord)))
+    )
+    choiceCounts.push(choices.length)
+
+    for (const connector of choices) {
+      if (connector === correct || answer === null) continue
+      distractorCount++
+      if (Math.abs(connector.value - answer) <= NEAR_MISS_DISTANCE) {
+        nearMissCount++
+      }
+    }
+  })
+
+  const nearMissDistractors = distractorCount > 0 ? nearMissCount / distractorCount : 0
+  const branching = clamp01((average(choiceCounts) - 1) / (MAX_CELL_CONNECTORS - 1))
+
+  const factors = { pathLength, operationMix, operandSize, nearMissDistractors, branching }
+  const weighted =
+    factors.pathLength * FACTOR_WEIGHTS.pathLength +
+    factors.operationMix * FACTOR_WEIGHTS.operationMix +
+    factors.operandSize * FACTOR_WEIGHTS.operandSize +
+    factors.nearMissDistractors * FACTOR_WEIGHTS.nearMissDistractors +
+    factors.branching * FACTOR_WEIGHTS.branching
+
+  return {
+    score: Math.round((1 + weighted * 9) * 10) / 10,
+    factors,
+  }
+}
+
+/**
+ * Measured difficulty score of a puzzle, analyzing it if it hasn't been already
+ */
+export function getMeasuredScore(puzzle: Puzzle): number {
+  return (puzzle.measuredDifficulty ?? analyzePuzzle(puzzle)).score
+}
+
+/**
+ * Sort puzzles by measured difficulty, easiest first
+ */
+export function sortPuzzlesByDifficulty(puzzles: Puzzle[]): Puzzle[] {
+  return [...puzzles].sort((a, b) => getMeasuredScore(a) - getMeasuredScore(b))
+}
+
+/**
+ * Keep only puzzles whose measured difficulty falls within the given range (inclusive)
+ */
+export function filterPuzzlesByDifficulty(
+  puzzles: Puzzle[],
+  minScore: number,
+  maxScore: number
+): Puzzle[] {
+  return puzzles.filter(puzzle => {
+    const score = getMeasuredScore(puzzle)
+    return score >= minScore && score <= maxScore
+  })
+}
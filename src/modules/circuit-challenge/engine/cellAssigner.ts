@@ -1,7 +1,9 @@
-import type { Cell, Coordinate, Connector } from '../types'
+import type { Cell, Coordinate, Connector, GridTopology } from '../types'
 import { coordToKey } from './pathfinder'
+import { isBlockedCell, isFinishCell, isStartCell } from './topology'
 import { getCellConnectors } from './connectors'
 import { randomChoice } from './valueAssigner'
+import type { RandomSource } from './random'
 
 /**
  * Grid of cells with dimensions
@@ -18,17 +20,18 @@ export interface CellGrid {
  * Assign answers to all cells based on the solution path
  * - Path cells: answer = value of connector to next cell in path
  * - Other cells: answer = random connector value (creates wrong paths)
- * - FINISH cell: answer = null
+ * - FINISH cell and blocked cells: answer = null
  *
  * @param divisionConnectorIndices - Indices of connectors reserved for division
  */
 export function assignCellAnswers(
-  rows: number,
-  cols: number,
+  topology: GridTopology,
   solutionPath: Coordinate[],
   connectors: Connector[],
-  divisionConnectorIndices: number[] = []
+  divisionConnectorIndices: number[] = [],
+  random: RandomSource = Math.random
 ): CellGrid {
+  const { rows, cols } = topology
   // Create set of division connector indices for quick lookup
   const divisionConnectorSet = new Set(divisionConnectorIndices)
   // Track cells that get their answer from a division connector
@@ -43,8 +46,8 @@ export function assignCellAnswers(
         col,
         expression: '', // To be filled by expression generator
         answer: null,
-        isStart: row === 0 && col === 0,
-        isFinish: row === rows - 1 && col === cols - 1,
+        isStart: isStartCell(topology, { row, col }),
+        isFinish: isFinishCell(topology, { row, col }),
       })
     }
     cells.push(rowCells)
@@ -89,8 +92,8 @@ export function assignCellAnswers(
     for (let col = 0; col < cols; col++) {
       const cell = cells[row][col]
 
-      // Skip FINISH cell
-      if (cell.isFinish) {
+      // Skip FINISH cell and cells that aren't part of the grid
+      if (cell.isFinish || isBlockedCell(topology, cell)) {
         continue
       }
 
@@ -108,7 +111,7 @@ export function assignCellAnswers(
       }
 
       // Pick a random connector's value as this cell's answer
-      const randomConnector = randomChoice(cellConnectors)
+      const randomConnector = randomChoice(cellConnectors, random)
       cell.answer = randomConnector.value
     }
   }
@@ -0,0 +1,213 @@
+import type { DifficultySettings } from './types'
+import type { Expression } from './expressions'
+import { randomInt, randomChoice } from './valueAssigner'
+import type { RandomSource } from './random'
+
+/**
+ * Produces and reads back one kind of number-property clue
+ * New clue kinds are added by registering another generator
+ */
+export interface ClueGenerator {
+  /** Identifies the kind of clue, e.g. 'square' */
+  type: string
+  /** Make a clue whose answer is the target, or null if this kind can't */
+  generate: (target: number, difficulty: DifficultySettings, random: RandomSource) => Expression | null
+  /** Work out the answer to a clue of this kind, or null if the text isn't one */
+  evaluate: (text: string) => number | null
+}
+
+/**
+ * Largest number a factor clue is taken of
+ */
+const MAX_FACTOR_NUMBER = 100
+
+/**
+ * Longest line of clue text that fits in a cell
+ */
+export const CLUE_LINE_LENGTH = 13
+
+/**
+ * Smallest factor of n above the given value (n itself if there is none smaller)
+ */
+function nextFactorAbove(n: number, value: number): number {
+  for (let f = value + 1; f < n; f++) {
+    if (n % f === 0) return f
+  }
+  return n
+}
+
+/**
+ * "next multiple of 7 after 40" = 42
+ */
+const multipleClue: ClueGenerator = {
+  type: 'multiple',
+  generate: (target, difficulty, random) => {
+    const maxBase = Math.max(difficulty.multDivRange, 2)
+    const bases: number[] = []
+    for (let n = 2; n <= Math.min(maxBase, target); n++) {
+      if (target % n === 0) bases.push(n)
+    }
+    if (bases.length === 0) return null
+
+    const base = randomChoice(bases, random)
+    // Any start from the previous multiple up to one below the target works
+    const after = randomInt(Math.max(1, target - base), target - 1, random)
+
+    return {
+      text: `next multiple of ${base} after ${after}`,
+      operation: '×',
+      operandA: base,
+      operandB: after,
+      result: target,
+    }
+  },
+  evaluate: (text) => {
+    const match = text.match(/^next multiple of (\d+) after (\d+)$/)
+    if (!match) return null
+    const base = parseInt(match[1], 10)
+    const after = parseInt(match[2], 10)
+    if (base < 1) return null
+    return (Math.floor(after / base) + 1) * base
+  },
+}
+
+/**
+ * "square of 6" = 36
+ */
+const squareClue: ClueGenerator = {
+  type: 'square',
+  generate: (target) => {
+    const root = Math.round(Math.sqrt(target))
+    if (root < 2 || root * root !== target) return null
+
+    return {
+      text: `square of ${root}`,
+      operation: '×',
+      operandA: root,
+      operandB: root,
+      result: target,
+    }
+  },
+  evaluate: (text) => {
+    const match = text.match(/^square of (\d+)$/)
+    if (!match) return null
+    const root = parseInt(match[1], 10)
+    return root * root
+  },
+}
+
+/**
+ * "largest factor of 18 below 9" = 6
+ */
+const factorClue: ClueGenerator = {
+  type: 'factor',
+  generate: (target, difficulty, random) => {
+    if (target < 2) return null
+
+    const maxMultiplier = Math.floor(MAX_FACTOR_NUMBER / target)
+    if (maxMultiplier < 2) return null
+
+    const n = target * randomInt(2, Math.min(maxMultiplier, Math.max(difficulty.multDivRange, 2)), random)
+    // The next factor up is the limit, so the target is the largest factor below it
+    const below = nextFactorAbove(n, target)
+
+    return {
+      text: `largest factor of ${n} below ${below}`,
+      operation: '÷',
+      operandA: n,
+      operandB: below,
+      result: target,
+    }
+  },
+  evaluate: (text) => {
+    const match = text.match(/^largest factor of (\d+) below (\d+)$/)
+    if (!match) return null
+    const n = parseInt(match[1], 10)
+    const below = parseInt(match[2], 10)
+    for (let f = Math.min(below - 1, n); f >= 1; f--) {
+      if (n % f === 0) return f
+    }
+    return null
+  },
+}
+
+/**
+ * Registered clue generators, tried in random order
+ */
+const clueGenerators: ClueGenerator[] = [multipleClue, squareClue, factorClue]
+
+/**
+ * Add a clue generator (replacing any already registered for the same type)
+ */
+export function registerClueGenerator(generator: ClueGenerator): void {
+  const index = clueGenerators.findIndex(g => g.type === generator.type)
+  if (index >= 0) {
+    clueGenerators[index] = generator
+  } else {
+    clueGenerators.push(generator)
+  }
+}
+
+/**
+ * Types of all registered clue generators
+ */
+export function getClueTypes(): string[] {
+  return clueGenerators.map(g => g.type)
+}
+
+/**
+ * Generate a number-property clue whose answer is the target
+ * Returns null if no registered generator can make one
+ */
+export function generateClue(
+  target: number,
+  difficulty: DifficultySettings,
+  random: RandomSource = Math.random
+): Expression | null {
+  const remaining = [...clueGenerators]
+  while (remaining.length > 0) {
+    const generator = randomChoice(remaining, random)
+    const clue = generator.generate(target, difficulty, random)
+    if (clue) return clue
+    remaining.splice(remaining.indexOf(generator), 1)
+  }
+  return null
+}
+
+/**
+ * Work out the answer to a number-property clue, or null if it isn't one
+ */
+export function evaluateClue(text: string): number | null {
+  for (const generator of clueGenerators) {
+    const value = generator.evaluate(text)
+    if (value !== null) return value
+  }
+  return null
+}
+
+/**
+ * Whether cell text is a number-property clue rather than arithmetic
+ */
+export function isClueText(text: string): boolean {
+  return evaluateClue(text) !== null
+}
+
+/**
+ * Split cell text into lines short enough to fit in a cell, breaking at spaces
+ */
+export function splitCellText(text: string, maxLineLength: number = CLUE_LINE_LENGTH): string[] {
+  if (text.length <= maxLineLength) return [text]
+
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(' ')) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
@@ -1,5 +1,7 @@
-import type { Coordinate, DiagonalDirection, Connector } from '../types'
+import type { Coordinate, DiagonalDirection, Connector, GridTopology } from '../types'
 import type { DiagonalCommitments } from './pathfinder'
+import type { RandomSource } from './random'
+import { getCellLayoutPosition, getNeighbours, getOpenCells, isOpenCell } from './topology'
 
 /**
  * Connector before value assignment
@@ -24,7 +26,8 @@ export type DiagonalGrid = DiagonalDirection[][]
 export function buildDiagonalGrid(
   rows: number,
   cols: number,
-  commitments: DiagonalCommitments
+  commitments: DiagonalCommitments,
+  random: RandomSource = Math.random
 ): DiagonalGrid {
   const grid: DiagonalGrid = []
 
@@ -38,7 +41,7 @@ export function buildDiagonalGrid(
         rowArray.push(committed)
       } else {
         // Randomly choose direction
-        rowArray.push(Math.random() < 0.5 ? 'DR' : 'DL')
+        rowArray.push(random() < 0.5 ? 'DR' : 'DL')
       }
     }
     grid.push(rowArray)
@@ -107,6 +110,38 @@ export function buildConnectorGraph(
   return connectors
 }
 
+/**
+ * Build the connector graph for any grid topology
+ * Square grids use the diagonal grid and drop connectors touching blocked cells;
+ * hex grids connect every pair of neighbours
+ */
+export function buildTopologyConnectorGraph(
+  topology: GridTopology,
+  diagonalGrid: DiagonalGrid
+): UnvaluedConnector[] {
+  if (topology.kind === 'square') {
+    return buildConnectorGraph(topology.rows, topology.cols, diagonalGrid).filter(c =>
+      isOpenCell(topology, c.cellA) && isOpenCell(topology, c.cellB)
+    )
+  }
+
+  const connectors: UnvaluedConnector[] = []
+  for (const cell of getOpenCells(topology)) {
+    // Only link forwards (right or down) so each pair gets one connector
+    for (const next of getNeighbours(topology, cell)) {
+      if (next.row < cell.row || (next.row === cell.row && next.col < cell.col)) continue
+
+      if (next.row === cell.row) {
+        connectors.push({ type: 'horizontal', cellA: cell, cellB: next })
+      } else {
+        const goesRight = getCellLayoutPosition(topology, next).x > getCellLayoutPosition(topology, cell).x
+        connectors.push({ type: 'diagonal', cellA: cell, cellB: next, direction: goesRight ? 'DR' : 'DL' })
+      }
+    }
+  }
+  return connectors
+}
+
 /**
  * Get all connectors that touch a specific cell
  */
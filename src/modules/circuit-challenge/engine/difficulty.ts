@@ -1,4 +1,15 @@
 import type { DifficultySettings } from './types'
+import {
+  generateAddition,
+  generateSubtraction,
+  generateMultiplication,
+  generateDivision,
+  generateSignedAddition,
+  generateSignedSubtraction,
+} from './expressions'
+import { getDifficultyTopology, getOpenCells, getReachableCells, validateTopology } from './topology'
+import { searchTopologyPath } from './pathfinder'
+import { createSeededRandom } from './random'
 
 /**
  * Level 1: Tiny Tot - Addition only, small numbers
@@ -18,6 +29,14 @@ export const LEVEL_1_TINY_TOT: DifficultySettings = {
   minPathLength: 0, // Will be calculated
   maxPathLength: 0, // Will be calculated
   weights: { addition: 100, subtraction: 0, multiplication: 0, division: 0 },
+  maxOperations: 1,
+  mistakeDistractors: false,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 10,
 }
@@ -40,6 +59,14 @@ export const LEVEL_2_BEGINNER: DifficultySettings = {
   minPathLength: 0,
   maxPathLength: 0,
   weights: { addition: 100, subtraction: 0, multiplication: 0, division: 0 },
+  maxOperations: 1,
+  mistakeDistractors: false,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 9,
 }
@@ -62,6 +89,14 @@ export const LEVEL_3_EASY: DifficultySettings = {
   minPathLength: 0,
   maxPathLength: 0,
   weights: { addition: 60, subtraction: 40, multiplication: 0, division: 0 },
+  maxOperations: 1,
+  mistakeDistractors: false,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 8,
 }
@@ -84,6 +119,14 @@ export const LEVEL_4_GETTING_THERE: DifficultySettings = {
   minPathLength: 0,
   maxPathLength: 0,
   weights: { addition: 55, subtraction: 45, multiplication: 0, division: 0 },
+  maxOperations: 1,
+  mistakeDistractors: false,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 7,
 }
@@ -106,6 +149,14 @@ export const LEVEL_5_TIMES_TABLES: DifficultySettings = {
   minPathLength: 0,
   maxPathLength: 0,
   weights: { addition: 40, subtraction: 35, multiplication: 25, division: 0 },
+  maxOperations: 1,
+  mistakeDistractors: false,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 7,
 }
@@ -128,6 +179,14 @@ export const LEVEL_6_CONFIDENT: DifficultySettings = {
   minPathLength: 0,
   maxPathLength: 0,
   weights: { addition: 35, subtraction: 30, multiplication: 35, division: 0 },
+  maxOperations: 1,
+  mistakeDistractors: true,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 6,
 }
@@ -150,6 +209,14 @@ export const LEVEL_7_ADVENTUROUS: DifficultySettings = {
   minPathLength: 0,
   maxPathLength: 0,
   weights: { addition: 30, subtraction: 30, multiplication: 40, division: 0 },
+  maxOperations: 1,
+  mistakeDistractors: true,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 6,
 }
@@ -172,6 +239,14 @@ export const LEVEL_8_DIVISION_INTRO: DifficultySettings = {
   minPathLength: 0,
   maxPathLength: 0,
   weights: { addition: 30, subtraction: 25, multiplication: 30, division: 15 },
+  maxOperations: 1,
+  mistakeDistractors: true,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 6,
 }
@@ -194,6 +269,14 @@ export const LEVEL_9_CHALLENGE: DifficultySettings = {
   minPathLength: 0,
   maxPathLength: 0,
   weights: { addition: 25, subtraction: 25, multiplication: 30, division: 20 },
+  maxOperations: 1,
+  mistakeDistractors: true,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 5,
 }
@@ -216,6 +299,14 @@ export const LEVEL_10_EXPERT: DifficultySettings = {
   minPathLength: 0,
   maxPathLength: 0,
   weights: { addition: 25, subtraction: 25, multiplication: 30, division: 20 },
+  maxOperations: 1,
+  mistakeDistractors: true,
+  fractionsEnabled: false,
+  decimalsEnabled: false,
+  percentagesEnabled: false,
+  missingNumberEnabled: false,
+  numberClues: false,
+  negativeNumbers: false,
   hiddenMode: false,
   secondsPerStep: 5,
 }
@@ -237,18 +328,18 @@ export const DIFFICULTY_PRESETS: DifficultySettings[] = [
 ]
 
 /**
- * Calculate minimum path length for a grid (roughly 60% of cells)
+ * Calculate minimum path length for a grid (roughly 60% of open cells)
  */
-export function calculateMinPathLength(rows: number, cols: number): number {
-  const totalCells = rows * cols
+export function calculateMinPathLength(rows: number, cols: number, blockedCount: number = 0): number {
+  const totalCells = rows * cols - blockedCount
   return Math.max(4, Math.floor(totalCells * 0.6))
 }
 
 /**
- * Calculate maximum path length for a grid (roughly 85% of cells)
+ * Calculate maximum path length for a grid (roughly 85% of open cells)
  */
-export function calculateMaxPathLength(rows: number, cols: number): number {
-  const totalCells = rows * cols
+export function calculateMaxPathLength(rows: number, cols: number, blockedCount: number = 0): number {
+  const totalCells = rows * cols - blockedCount
   return Math.floor(totalCells * 0.85)
 }
 
@@ -314,10 +405,16 @@ export function createCustomDifficulty(overrides: Partial<DifficultySettings>):
     }
   }
 
-  // Recalculate path lengths if grid size changed
-  if (overrides.gridRows || overrides.gridCols) {
-    settings.minPathLength = calculateMinPathLength(settings.gridRows, settings.gridCols)
-    settings.maxPathLength = calculateMaxPathLength(settings.gridRows, settings.gridCols)
+  // Negative numbers mode mirrors the connector range below zero
+  if (settings.negativeNumbers && overrides.connectorMin === undefined) {
+    settings.connectorMin = -settings.connectorMax
+  }
+
+  // Recalculate path lengths if grid size or blocked cells changed
+  if (overrides.gridRows || overrides.gridCols || overrides.blockedCells) {
+    const blockedCount = settings.blockedCells?.length ?? 0
+    settings.minPathLength = calculateMinPathLength(settings.gridRows, settings.gridCols, blockedCount)
+    settings.maxPathLength = calculateMaxPathLength(settings.gridRows, settings.gridCols, blockedCount)
   }
 
   return settings
@@ -329,6 +426,131 @@ export function createCustomDifficulty(overrides: Partial<DifficultySettings>):
 export interface DifficultyValidationResult {
   valid: boolean
   errors: string[]
+  /** Settings that are allowed but likely to fail or produce off-setting puzzles */
+  warnings: string[]
+}
+
+/**
+ * Fewest distinct connector values any grid can be built with
+ */
+const MIN_CONNECTOR_VALUES = 6
+
+/**
+ * Distinct connector values needed for a grid to generate reliably
+ * Bigger grids are more likely to contain a cell touching 7 or 8 connectors
+ */
+function getRecommendedConnectorValues(rows: number, cols: number): number {
+  const cells = rows * cols
+  if (cells <= 12) return 6
+  if (cells < 30) return 7
+  return 8
+}
+
+/**
+ * Check whether any enabled operation can produce a value within the operand ranges
+ */
+function canMakeValue(value: number, settings: DifficultySettings): boolean {
+  // Operand choice is random but whether one exists isn't, so a fixed source is enough
+  const fixed = () => 0
+  const negativeNumbers = settings.negativeNumbers ?? false
+  return (
+    (settings.additionEnabled && generateAddition(value, settings.addSubRange, fixed) !== null) ||
+    (settings.subtractionEnabled && generateSubtraction(value, settings.addSubRange, fixed) !== null) ||
+    (settings.multiplicationEnabled && generateMultiplication(value, settings.multDivRange, fixed) !== null) ||
+    (settings.divisionEnabled &&
+      value <= settings.multDivRange &&
+      generateDivision(value, settings.multDivRange, undefined, fixed) !== null) ||
+    (negativeNumbers && settings.additionEnabled &&
+      generateSignedAddition(value, settings.addSubRange, fixed) !== null) ||
+    (negativeNumbers && settings.subtractionEnabled &&
+      generateSignedSubtraction(value, settings.addSubRange, fixed) !== null)
+  )
+}
+
+/**
+ * Format a list of numbers as "a, b, c and N more"
+ */
+function formatExamples(values: number[], limit: number = 5): string {
+  const shown = values.slice(0, limit).join(', ')
+  return values.length > limit ? `${shown} and ${values.length - limit} more` : shown
+}
+
+/**
+ * Predict whether settings can actually produce puzzles
+ * Returns errors for impossible combinations and warnings for risky ones
+ */
+function checkFeasibility(settings: DifficultySettings): { errors: string[]; warnings: string[] } {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const { connectorMin, connectorMax, gridRows, gridCols } = settings
+
+  if (connectorMax < connectorMin) {
+    return { errors, warnings }
+  }
+
+  // Every connector around a cell needs a different value
+  const valueCount = connectorMax - connectorMin + 1
+  const recommended = getRecommendedConnectorValues(gridRows, gridCols)
+  if (valueCount < MIN_CONNECTOR_VALUES) {
+    errors.push(
+      `Only ${valueCount} connector values (${connectorMin}–${connectorMax}); at least ${MIN_CONNECTOR_VALUES} are needed so every connector around a cell can be different`
+    )
+  } else if (valueCount < recommended) {
+    warnings.push(
+      `Only ${valueCount} connector values (${connectorMin}–${connectorMax}) for a ${gridRows}×${gridCols} grid; at least ${recommended} are needed or most puzzles will fail to generate`
+    )
+  }
+
+  // Every answer must be reachable with the enabled operations
+  const values = Array.from({ length: valueCount }, (_, i) => connectorMin + i)
+  const unreachable = values.filter(value => !canMakeValue(value, settings))
+  if (unreachable.length > 0) {
+    warnings.push(
+      `${unreachable.length} of ${valueCount} answers can't be made with the chosen operations and ranges (${formatExamples(unreachable)}); those cells will fall back to simple addition`
+    )
+  }
+
+  // Multiplication only shows up for answers in the times tables
+  if (settings.multiplicationEnabled) {
+    const products = values.filter(
+      value => generateMultiplication(value, settings.multDivRange, () => 0) !== null
+    )
+    if (products.length === 0) {
+      warnings.push(
+        `No answers between ${connectorMin} and ${connectorMax} are in the times tables up to ${settings.multDivRange}, so multiplication will never appear`
+      )
+    } else if (products.length < valueCount / 4) {
+      warnings.push(
+        `Only ${products.length} of ${valueCount} answers are in the times tables up to ${settings.multDivRange}, so multiplication will be rare`
+      )
+    }
+  }
+
+  // Path lengths must fit the open cells START can reach
+  const topology = getDifficultyTopology(settings)
+  const openCells = getOpenCells(topology).length
+  const reachableCells = getReachableCells(topology).length
+  if (settings.minPathLength > openCells) {
+    errors.push(
+      openCells < gridRows * gridCols
+        ? `Minimum path length ${settings.minPathLength} is longer than the ${openCells} open cells of the ${gridRows}×${gridCols} grid`
+        : `Minimum path length ${settings.minPathLength} is longer than the ${gridRows}×${gridCols} grid has cells`
+    )
+  } else if (settings.minPathLength > reachableCells) {
+    errors.push(
+      `Minimum path length ${settings.minPathLength} is longer than the ${reachableCells} cells START can reach around the blocked cells`
+    )
+  } else if (
+    settings.maxPathLength >= settings.minPathLength &&
+    validateTopology(topology).length === 0 &&
+    !searchTopologyPath(topology, settings.minPathLength, settings.maxPathLength, [], createSeededRandom(1)).success
+  ) {
+    warnings.push(
+      `No path of ${settings.minPathLength} to ${settings.maxPathLength} cells from START to FINISH could be found around the blocked cells, so most puzzles will fail to generate`
+    )
+  }
+
+  return { errors, warnings }
 }
 
 /**
@@ -352,11 +574,15 @@ export function validateDifficultySettings(settings: DifficultySettings): Diffic
     errors.push('Multiplication/division range must be at least 2')
   }
 
-  // Check connector range
-  if (settings.connectorMin < 1) {
+  // Check connector range (negative numbers mode allows values below 1)
+  if (settings.connectorMin < 1 && !settings.negativeNumbers) {
     errors.push('Minimum connector value must be at least 1')
   }
 
+  if (settings.negativeNumbers && !settings.additionEnabled && !settings.subtractionEnabled) {
+    errors.push('Negative numbers need addition or subtraction enabled')
+  }
+
   if (settings.connectorMax <= settings.connectorMin) {
     errors.push('Maximum connector value must be greater than minimum')
   }
@@ -370,6 +596,9 @@ export function validateDifficultySettings(settings: DifficultySettings): Diffic
     errors.push('Grid must have at least 4 columns')
   }
 
+  // Check blocked cells leave START and FINISH connected
+  errors.push(...validateTopology(getDifficultyTopology(settings)))
+
   // Check path lengths
   if (settings.minPathLength < 4) {
     errors.push('Minimum path length must be at least 4')
@@ -379,6 +608,14 @@ export function validateDifficultySettings(settings: DifficultySettings): Diffic
     errors.push('Maximum path length must be at least equal to minimum')
   }
 
+  // Check checkpoints fit between START and FINISH
+  const checkpointCount = settings.checkpointCount ?? 0
+  if (checkpointCount < 0) {
+    errors.push('Number of checkpoints cannot be negative')
+  } else if (checkpointCount > settings.minPathLength - 2) {
+    errors.push(`${checkpointCount} checkpoints won't fit on a path of ${settings.minPathLength} cells`)
+  }
+
   // Check weights make sense if operations are enabled
   const { weights } = settings
   if (settings.additionEnabled && weights.addition <= 0) {
@@ -399,8 +636,13 @@ export function validateDifficultySettings(settings: DifficultySettings): Diffic
     errors.push('Seconds per step must be at least 1')
   }
 
+  // Check the combination can actually produce puzzles
+  const feasibility = checkFeasibility(settings)
+  errors.push(...feasibility.errors)
+
   return {
     valid: errors.length === 0,
     errors,
+    warnings: feasibility.warnings,
   }
 }
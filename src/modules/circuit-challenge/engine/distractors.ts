@@ -0,0 +1,127 @@
+import type { Cell, Connector, Coordinate } from '../types'
+import { getCellConnectors, getOtherCell } from './connectors'
+import type { RandomSource } from './random'
+import { evaluateExpression, isMissingNumberExpression, MISSING_NUMBER_SYMBOL } from './expressions'
+
+/**
+ * Split a simple "a op b" expression into its parts
+ */
+function parseBinaryExpression(
+  expression: string
+): { a: number; operation: string; b: number } | null {
+  const match = expression.match(/^\s*(\d+)\s*([+−×÷])\s*(\d+)\s*$/)
+  if (!match) return null
+  return { a: parseInt(match[1], 10), operation: match[2], b: parseInt(match[3], 10) }
+}
+
+/**
+ * Answers a child might get by making a common mistake with an expression
+ * Covers off-by-one, swapped operands, using the wrong operation, ignoring brackets
+ * and, for missing-number equations, not using the inverse operation
+ * Negative mistakes (including getting the sign wrong) are only kept when allowNegative is set
+ */
+export function getMistakeValues(
+  expression: string,
+  answer: number,
+  allowNegative: boolean = false
+): number[] {
+  const mistakes = [answer - 1, answer + 1]
+
+  // Getting the sign wrong with directed numbers
+  if (allowNegative) mistakes.push(-answer)
+
+  // Ignoring the brackets in a multi-step expression
+  if (expression.includes('(')) {
+    const withoutBrackets = evaluateExpression(expression.replace(/[()]/g, ''))
+    if (withoutBrackets !== null) mistakes.push(withoutBrackets)
+  }
+
+  // "? + 7 = 15" answered as 15 + 7
+  if (isMissingNumberExpression(expression)) {
+    const [left, result] = expression.split('=')
+    const forward = evaluateExpression(left.replace(MISSING_NUMBER_SYMBOL, result.trim()))
+    if (forward !== null) mistakes.push(forward)
+  }
+
+  const parsed = parseBinaryExpression(expression)
+  if (parsed) {
+    const { a, operation, b } = parsed
+    switch (operation) {
+      case '+':
+        mistakes.push(Math.abs(a - b)) // Subtracted instead of added
+        break
+      case '−':
+        mistakes.push(b - a) // Operands swapped
+        mistakes.push(a + b) // Added instead of subtracted
+        break
+      case '×':
+        mistakes.push(a + b) // Added instead of multiplied
+        mistakes.push(answer - a, answer + a) // One row out in the times table
+        break
+      case '÷':
+        mistakes.push(b / a) // Operands swapped
+        mistakes.push(a - b) // Subtracted instead of divided
+        break
+    }
+  }
+
+  // Keep whole numbers (positive unless negatives are allowed) that really are wrong
+  return [...new Set(mistakes)].filter(
+    value => Number.isInteger(value) && (allowNegative || value > 0) && value !== answer
+  )
+}
+
+/**
+ * Replace off-path connector values around the solution with common-mistake answers
+ * Only connectors that aren't any cell's exit are changed, and values stay unique per cell
+ * Mutates the connectors in place and returns how many were changed
+ */
+export function applyMistakeDistractors(
+  cells: Cell[][],
+  connectors: Connector[],
+  path: Coordinate[],
+  minValue: number,
+  maxValue: number,
+  random: RandomSource = Math.random
+): number {
+  const changed = new Set<Connector>()
+
+  for (const coord of path) {
+    const cell = cells[coord.row][coord.col]
+    if (cell.answer === null) continue
+
+    const candidates = getMistakeValues(cell.expression, cell.answer, minValue < 1).filter(
+      value => value >= minValue && value <= maxValue
+    )
+    if (candidates.length === 0) continue
+
+    for (const connector of getCellConnectors(coord, connectors)) {
+      if (changed.has(connector)) continue
+      const other = getOtherCell(connector, coord)
+      const otherCell = cells[other.row][other.col]
+
+      // Never touch a connector that is the exit for either of its cells
+      if (connector.value === cell.answer || connector.value === otherCell.answer) continue
+
+      // Value must stay unique at both ends and must not create a second exit
+      const taken = new Set<number>()
+      for (const end of [coord, other]) {
+        for (const c of getCellConnectors(end, connectors)) {
+          if (c !== connector) taken.add(c.value)
+        }
+      }
+      const options = candidates.filter(
+        value => !taken.has(value) && value !== otherCell.answer
+      )
+      if (options.length === 0) continue
+
+      connector.value = options[Math.floor(random() * options.length)]
+      candidates.splice(candidates.indexOf(connector.value), 1)
+      changed.add(connector)
+
+      if (candidates.length === 0) break
+    }
+  }
+
+  return changed.size
+}
@@ -1,6 +1,13 @@
 import type { Operation, DifficultySettings, OperationWeights } from './types'
 import type { Cell } from '../types'
-import { randomInt } from './valueAssigner'
+import { randomInt, randomChoice } from './valueAssigner'
+import type { RandomSource } from './random'
+import { evaluateClue, generateClue } from './clues'
+
+/**
+ * Kind of number work an expression practises
+ */
+export type ExpressionKind = 'whole' | 'fraction' | 'decimal' | 'percentage' | 'missing-number'
 
 /**
  * A generated arithmetic expression
@@ -11,12 +18,48 @@ export interface Expression {
   operandA: number
   operandB: number
   result: number
+  /** Kind of expression (defaults to whole-number arithmetic) */
+  kind?: ExpressionKind
 }
 
+/**
+ * Simple fractions used in "½ of 18" expressions
+ */
+const FRACTIONS: { symbol: string; numerator: number; denominator: number }[] = [
+  { symbol: '½', numerator: 1, denominator: 2 },
+  { symbol: '⅓', numerator: 1, denominator: 3 },
+  { symbol: '¼', numerator: 1, denominator: 4 },
+  { symbol: '⅕', numerator: 1, denominator: 5 },
+  { symbol: '⅙', numerator: 1, denominator: 6 },
+  { symbol: '⅛', numerator: 1, denominator: 8 },
+  { symbol: '⅒', numerator: 1, denominator: 10 },
+  { symbol: '⅔', numerator: 2, denominator: 3 },
+  { symbol: '¾', numerator: 3, denominator: 4 },
+]
+
+/**
+ * Percentages used in "10% of 60" expressions
+ */
+const PERCENTAGES = [10, 20, 25, 50, 75]
+
+/**
+ * Largest amount a fraction or percentage is taken of
+ */
+const MAX_AMOUNT = 200
+
+/**
+ * Chance that a cell uses a fraction, decimal or percentage expression when enabled
+ */
+const TOPIC_CHANCE = 0.4
+
 /**
  * Select a random operation based on weights
  */
-export function selectOperation(weights: OperationWeights, settings: DifficultySettings): Operation {
+export function selectOperation(
+  weights: OperationWeights,
+  settings: DifficultySettings,
+  random: RandomSource = Math.random
+): Operation {
   const enabledWeights: { op: Operation; weight: number }[] = []
 
   if (settings.additionEnabled && weights.addition > 0) {
@@ -37,11 +80,11 @@ export function selectOperation(weights: OperationWeights, settings: DifficultyS
   }
 
   const total = enabledWeights.reduce((sum, w) => sum + w.weight, 0)
-  let random = Math.random() * total
+  let roll = random() * total
 
   for (const { op, weight } of enabledWeights) {
-    random -= weight
-    if (random <= 0) {
+    roll -= weight
+    if (roll <= 0) {
       return op
     }
   }
@@ -49,11 +92,29 @@ export function selectOperation(weights: OperationWeights, settings: DifficultyS
   return enabledWeights[0].op
 }
 
+/**
+ * Write a number with a proper minus sign ("−3")
+ */
+export function formatNumber(value: number): string {
+  return value < 0 ? `−${Math.abs(value)}` : `${value}`
+}
+
+/**
+ * Write a number as the second operand, bracketing negatives: "5 − (−3)"
+ */
+function formatOperand(value: number): string {
+  return value < 0 ? `(${formatNumber(value)})` : formatNumber(value)
+}
+
 /**
  * Generate an addition expression: a + b = target
  * Both a and b must be in range [1, maxOperand]
  */
-export function generateAddition(target: number, maxOperand: number): Expression | null {
+export function generateAddition(
+  target: number,
+  maxOperand: number,
+  random: RandomSource = Math.random
+): Expression | null {
   if (target < 2) return null
 
   // For a + b = target where both a, b in [1, maxOperand]:
@@ -63,7 +124,7 @@ export function generateAddition(target: number, maxOperand: number): Expression
 
   if (minA > maxA) return null // No valid range
 
-  const a = randomInt(minA, maxA)
+  const a = randomInt(minA, maxA, random)
   const b = target - a
 
   return {
@@ -78,7 +139,11 @@ export function generateAddition(target: number, maxOperand: number): Expression
 /**
  * Generate a subtraction expression: a - b = target (where a > b, no negatives)
  */
-export function generateSubtraction(target: number, maxOperand: number): Expression | null {
+export function generateSubtraction(
+  target: number,
+  maxOperand: number,
+  random: RandomSource = Math.random
+): Expression | null {
   if (target < 1) return null
 
   // a - b = target, so a = target + b
@@ -86,7 +151,7 @@ export function generateSubtraction(target: number, maxOperand: number): Express
   const maxB = maxOperand - target
   if (maxB < 1) return null
 
-  const b = randomInt(1, maxB)
+  const b = randomInt(1, maxB, random)
   const a = target + b
 
   // Ensure a is within range
@@ -104,7 +169,11 @@ export function generateSubtraction(target: number, maxOperand: number): Express
 /**
  * Generate a multiplication expression: a × b = target
  */
-export function generateMultiplication(target: number, maxFactor: number): Expression | null {
+export function generateMultiplication(
+  target: number,
+  maxFactor: number,
+  random: RandomSource = Math.random
+): Expression | null {
   if (target < 4) return null // Need at least 2 × 2
 
   // Find all valid factor pairs
@@ -121,10 +190,10 @@ export function generateMultiplication(target: number, maxFactor: number): Expre
   if (pairs.length === 0) return null
 
   // Pick random pair
-  const [a, b] = pairs[Math.floor(Math.random() * pairs.length)]
+  const [a, b] = pairs[Math.floor(random() * pairs.length)]
 
   // Randomly swap order
-  if (Math.random() < 0.5) {
+  if (random() < 0.5) {
     return {
       text: `${a} × ${b}`,
       operation: '×',
@@ -149,7 +218,8 @@ export function generateMultiplication(target: number, maxFactor: number): Expre
 export function generateDivision(
   target: number,
   maxDivisor: number,
-  maxDividend: number = 1000
+  maxDividend: number = 1000,
+  random: RandomSource = Math.random
 ): Expression | null {
   if (target < 1) return null
 
@@ -167,7 +237,7 @@ export function generateDivision(
 
   if (validDivisors.length === 0) return null
 
-  const b = validDivisors[Math.floor(Math.random() * validDivisors.length)]
+  const b = validDivisors[Math.floor(random() * validDivisors.length)]
   const a = target * b
 
   return {
@@ -212,6 +282,413 @@ function getMultiplicationBoost(target: number, maxFactor: number): number {
   }
 }
 
+/**
+ * Generate a fraction of an amount: "½ of 18" = 9
+ */
+export function generateFractionOf(
+  target: number,
+  maxAmount: number = MAX_AMOUNT,
+  random: RandomSource = Math.random
+): Expression | null {
+  if (target < 1) return null
+
+  const options = FRACTIONS.filter(f =>
+    target % f.numerator === 0 && (target / f.numerator) * f.denominator <= maxAmount
+  )
+  if (options.length === 0) return null
+
+  const fraction = randomChoice(options, random)
+  const amount = (target / fraction.numerator) * fraction.denominator
+
+  return {
+    text: `${fraction.symbol} of ${amount}`,
+    operation: '×',
+    operandA: fraction.numerator / fraction.denominator,
+    operandB: amount,
+    result: target,
+    kind: 'fraction',
+  }
+}
+
+/**
+ * Generate a percentage of an amount: "10% of 60" = 6
+ */
+export function generatePercentageOf(
+  target: number,
+  maxAmount: number = MAX_AMOUNT,
+  random: RandomSource = Math.random
+): Expression | null {
+  if (target < 1) return null
+
+  const options = PERCENTAGES.filter(p => (target * 100) % p === 0 && (target * 100) / p <= maxAmount)
+  if (options.length === 0) return null
+
+  const percentage = randomChoice(options, random)
+  const amount = (target * 100) / percentage
+
+  return {
+    text: `${percentage}% of ${amount}`,
+    operation: '×',
+    operandA: percentage / 100,
+    operandB: amount,
+    result: target,
+    kind: 'percentage',
+  }
+}
+
+/**
+ * Generate a decimal addition with a whole-number answer: "2.5 + 1.5" = 4
+ * Both operands have one decimal place and are at most maxOperand
+ */
+export function generateDecimalAddition(
+  target: number,
+  maxOperand: number,
+  random: RandomSource = Math.random
+): Expression | null {
+  if (target < 1) return null
+
+  // Work in tenths so the arithmetic stays exact
+  const totalTenths = target * 10
+  const minA = Math.max(1, totalTenths - maxOperand * 10)
+  const maxA = Math.min(maxOperand * 10, totalTenths - 1)
+  if (minA > maxA) return null
+
+  // The first operand must not be whole, or this is just ordinary addition
+  let a = randomInt(minA, maxA, random)
+  if (a % 10 === 0) {
+    if (a + 1 <= maxA) a += 1
+    else if (a - 1 >= minA) a -= 1
+    else return null
+  }
+  const b = totalTenths - a
+
+  return {
+    text: `${(a / 10).toFixed(1)} + ${(b / 10).toFixed(1)}`,
+    operation: '+',
+    operandA: a / 10,
+    operandB: b / 10,
+    result: target,
+    kind: 'decimal',
+  }
+}
+
+/**
+ * Try one of the enabled fraction, decimal or percentage expression types
+ */
+function generateTopicExpression(
+  target: number,
+  difficulty: DifficultySettings,
+  random: RandomSource
+): Expression | null {
+  const topics: ExpressionKind[] = []
+  if (difficulty.fractionsEnabled) topics.push('fraction')
+  if (difficulty.decimalsEnabled) topics.push('decimal')
+  if (difficulty.percentagesEnabled) topics.push('percentage')
+
+  switch (randomChoice(topics, random)) {
+    case 'fraction':
+      return generateFractionOf(target, MAX_AMOUNT, random)
+    case 'decimal':
+      return generateDecimalAddition(target, difficulty.addSubRange, random)
+    case 'percentage':
+      return generatePercentageOf(target, MAX_AMOUNT, random)
+    default:
+      return null
+  }
+}
+
+/**
+ * Chance that a positive answer uses directed numbers in negative numbers mode
+ * (negative answers always do)
+ */
+const NEGATIVE_CHANCE = 0.5
+
+/**
+ * Generate an addition with directed numbers: "−3 + 8" = 5, "4 + (−9)" = −5
+ * Operands are non-zero, within maxOperand either side of zero, and at least one is negative
+ */
+export function generateSignedAddition(
+  target: number,
+  maxOperand: number,
+  random: RandomSource = Math.random
+): Expression | null {
+  // a + b = target with both operands in [-maxOperand, maxOperand]
+  const options: number[] = []
+  for (let a = Math.max(-maxOperand, target - maxOperand); a <= Math.min(maxOperand, target + maxOperand); a++) {
+    const b = target - a
+    if (a !== 0 && b !== 0 && (a < 0 || b < 0)) options.push(a)
+  }
+  if (options.length === 0) return null
+
+  const a = randomChoice(options, random)
+  const b = target - a
+
+  return {
+    text: `${formatNumber(a)} + ${formatOperand(b)}`,
+    operation: '+',
+    operandA: a,
+    operandB: b,
+    result: target,
+  }
+}
+
+/**
+ * Generate a subtraction with directed numbers: "3 − 8" = −5, "2 − (−4)" = 6
+ * Operands are non-zero, within maxOperand either side of zero, and the sum crosses zero
+ * or takes away a negative
+ */
+export function generateSignedSubtraction(
+  target: number,
+  maxOperand: number,
+  random: RandomSource = Math.random
+): Expression | null {
+  // a − b = target, so a = target + b
+  const options: number[] = []
+  for (let b = Math.max(-maxOperand, -maxOperand - target); b <= Math.min(maxOperand, maxOperand - target); b++) {
+    const a = target + b
+    if (a !== 0 && b !== 0 && (a < 0 || b < 0 || target < 0)) options.push(b)
+  }
+  if (options.length === 0) return null
+
+  const b = randomChoice(options, random)
+  const a = target + b
+
+  return {
+    text: `${formatNumber(a)} − ${formatOperand(b)}`,
+    operation: '−',
+    operandA: a,
+    operandB: b,
+    result: target,
+  }
+}
+
+/**
+ * Generate an addition or subtraction (whichever are enabled) that uses directed numbers
+ */
+function generateSignedExpression(
+  target: number,
+  difficulty: DifficultySettings,
+  random: RandomSource
+): Expression | null {
+  const operations: Operation[] = []
+  if (difficulty.additionEnabled) operations.push('+')
+  if (difficulty.subtractionEnabled) operations.push('−')
+  if (operations.length === 0) return null
+
+  return randomChoice(operations, random) === '+'
+    ? generateSignedAddition(target, difficulty.addSubRange, random)
+    : generateSignedSubtraction(target, difficulty.addSubRange, random)
+}
+
+/**
+ * Stands in for the answer in a missing-number expression
+ */
+export const MISSING_NUMBER_SYMBOL = '?'
+
+/**
+ * Chance that a cell uses a missing-number expression when enabled
+ */
+const MISSING_NUMBER_CHANCE = 0.3
+
+/**
+ * Whether an expression is a missing-number equation like "? + 7 = 15"
+ */
+export function isMissingNumberExpression(text: string): boolean {
+  return text.includes(MISSING_NUMBER_SYMBOL)
+}
+
+/**
+ * Generate a missing-number equation whose blank is the target: "? + 7 = 15" = 8
+ * The blank goes on either side of the operation, so both inverse operations get practised
+ */
+export function generateMissingNumber(
+  target: number,
+  difficulty: DifficultySettings,
+  random: RandomSource = Math.random
+): Expression | null {
+  if (target < 1) return null
+
+  const operation = selectOperation(difficulty.weights, difficulty, random)
+  const blankFirst = random() < 0.5
+  let a: number
+  let b: number
+  let result: number
+
+  switch (operation) {
+    case '+': {
+      // ? + b = result
+      const other = randomInt(1, difficulty.addSubRange, random)
+      a = blankFirst ? target : other
+      b = blankFirst ? other : target
+      result = target + other
+      break
+    }
+    case '−': {
+      if (blankFirst) {
+        // ? − b = result
+        if (target < 2) return null
+        b = randomInt(1, Math.min(difficulty.addSubRange, target - 1), random)
+        a = target
+        result = target - b
+      } else {
+        // a − ? = result
+        result = randomInt(1, difficulty.addSubRange, random)
+        a = target + result
+        b = target
+      }
+      break
+    }
+    case '×': {
+      // ? × b = result
+      if (difficulty.multDivRange < 2) return null
+      const other = randomInt(2, difficulty.multDivRange, random)
+      a = blankFirst ? target : other
+      b = blankFirst ? other : target
+      result = target * other
+      break
+    }
+    case '÷': {
+      if (difficulty.multDivRange < 2) return null
+      if (blankFirst) {
+        // ? ÷ b = result
+        const divisors = []
+        for (let d = 2; d <= difficulty.multDivRange; d++) {
+          if (target % d === 0 && target > d) divisors.push(d)
+        }
+        if (divisors.length === 0) return null
+        b = randomChoice(divisors, random)
+        a = target
+        result = target / b
+      } else {
+        // a ÷ ? = result
+        if (target < 2) return null
+        result = randomInt(2, difficulty.multDivRange, random)
+        a = target * result
+        b = target
+      }
+      break
+    }
+  }
+
+  const left = blankFirst
+    ? `${MISSING_NUMBER_SYMBOL} ${operation} ${b}`
+    : `${a} ${operation} ${MISSING_NUMBER_SYMBOL}`
+
+  return {
+    text: `${left} = ${result}`,
+    operation,
+    operandA: a,
+    operandB: b,
+    result: target,
+    kind: 'missing-number',
+  }
+}
+
+/**
+ * Chance that a cell uses a multi-step expression when maxOperations allows it
+ */
+const MULTI_STEP_CHANCE = 0.5
+
+/**
+ * Largest divisor in a multi-step expression, so the number being divided stays
+ * a times-table multiple of the answer however wide multDivRange is
+ */
+const MAX_MULTI_STEP_DIVISOR = 12
+
+/**
+ * Generate a single-operation expression, or null if the operation can't make the target
+ */
+function generateSingleOperation(
+  operation: Operation,
+  target: number,
+  difficulty: DifficultySettings,
+  random: RandomSource
+): Expression | null {
+  switch (operation) {
+    case '+':
+      return generateAddition(target, difficulty.addSubRange, random)
+    case '−':
+      return generateSubtraction(target, difficulty.addSubRange, random)
+    case '×':
+      return generateMultiplication(target, difficulty.multDivRange, random)
+    case '÷':
+      // Only use division for answers within the multDivRange
+      if (target <= difficulty.multDivRange) {
+        return generateDivision(target, difficulty.multDivRange, undefined, random)
+      }
+      return null
+  }
+}
+
+/**
+ * Whether an inner operation binds less tightly than the outer one, so needs brackets
+ */
+function needsBrackets(inner: Operation, outer: Operation): boolean {
+  return (inner === '+' || inner === '−') && (outer === '×' || outer === '÷')
+}
+
+/**
+ * Generate an expression with the given number of operations, e.g. "3 × 4 + 2" or "(20 − 5) ÷ 3"
+ * The left-hand side is itself an expression with one fewer operation
+ * Returns null if this attempt couldn't reach the target
+ */
+export function generateMultiStepExpression(
+  target: number,
+  difficulty: DifficultySettings,
+  operationCount: number,
+  random: RandomSource = Math.random
+): Expression | null {
+  const operation = selectOperation(difficulty.weights, difficulty, random)
+  if (operationCount <= 1) {
+    return generateSingleOperation(operation, target, difficulty, random)
+  }
+
+  // Pick the right-hand operand, which fixes what the left-hand side must equal
+  let operand: number
+  let innerTarget: number
+  switch (operation) {
+    case '+': {
+      const maxOperand = Math.min(difficulty.addSubRange, target - 1)
+      if (maxOperand < 1) return null
+      operand = randomInt(1, maxOperand, random)
+      innerTarget = target - operand
+      break
+    }
+    case '−':
+      if (difficulty.addSubRange < 1) return null
+      operand = randomInt(1, difficulty.addSubRange, random)
+      innerTarget = target + operand
+      break
+    case '×': {
+      const factors: number[] = []
+      for (let f = 2; f <= difficulty.multDivRange; f++) {
+        if (target % f === 0) factors.push(f)
+      }
+      if (factors.length === 0) return null
+      operand = randomChoice(factors, random)
+      innerTarget = target / operand
+      break
+    }
+    case '÷':
+      if (difficulty.multDivRange < 2) return null
+      operand = randomInt(2, Math.min(difficulty.multDivRange, MAX_MULTI_STEP_DIVISOR), random)
+      innerTarget = target * operand
+      break
+  }
+
+  const inner = generateMultiStepExpression(innerTarget, difficulty, operationCount - 1, random)
+  if (!inner) return null
+
+  const left = needsBrackets(inner.operation, operation) ? `(${inner.text})` : inner.text
+  return {
+    text: `${left} ${operation} ${operand}`,
+    operation,
+    operandA: inner.result,
+    operandB: operand,
+    result: target,
+  }
+}
+
 /**
  * Generate an arithmetic expression that evaluates to the target value
  * @param prioritizeDivision - If true, give 80% chance to use division (for division-seeded cells)
@@ -219,11 +696,49 @@ function getMultiplicationBoost(target: number, maxFactor: number): number {
 export function generateExpression(
   target: number,
   difficulty: DifficultySettings,
-  prioritizeDivision: boolean = false
+  prioritizeDivision: boolean = false,
+  random: RandomSource = Math.random
 ): Expression {
   // Maximum answer for division is based on the multDivRange setting
   const maxDivisionAnswer = difficulty.multDivRange
 
+  // Negative numbers mode: negative answers always, and some others, use directed numbers
+  if (difficulty.negativeNumbers && (target < 1 || (!prioritizeDivision && random() < NEGATIVE_CHANCE))) {
+    const expression = generateSignedExpression(target, difficulty, random)
+    if (expression) {
+      return expression
+    }
+  }
+
+  // Fractions, decimals and percentages take some cells when enabled
+  const hasTopics = difficulty.fractionsEnabled || difficulty.decimalsEnabled || difficulty.percentagesEnabled
+  if (hasTopics && !prioritizeDivision && random() < TOPIC_CHANCE) {
+    const expression = generateTopicExpression(target, difficulty, random)
+    if (expression) {
+      return expression
+    }
+  }
+
+  // Missing-number equations practise the inverse operations
+  if (difficulty.missingNumberEnabled && !prioritizeDivision && random() < MISSING_NUMBER_CHANCE) {
+    const expression = generateMissingNumber(target, difficulty, random)
+    if (expression) {
+      return expression
+    }
+  }
+
+  // Older players can get multi-step expressions (division-seeded cells stay single-step)
+  const maxOperations = difficulty.maxOperations ?? 1
+  if (maxOperations > 1 && !prioritizeDivision && random() < MULTI_STEP_CHANCE) {
+    const operationCount = randomInt(2, maxOperations, random)
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const expression = generateMultiStepExpression(target, difficulty, operationCount, random)
+      if (expression) {
+        return expression
+      }
+    }
+  }
+
   // Try up to 10 times to generate a valid expression
   for (let attempt = 0; attempt < 10; attempt++) {
     let operation: Operation
@@ -231,44 +746,26 @@ export function generateExpression(
     // If this cell is marked for division priority and division is enabled
     if (prioritizeDivision && difficulty.divisionEnabled && target <= maxDivisionAnswer) {
       // 80% chance to use division for division-seeded cells
-      if (Math.random() < 0.8) {
+      if (random() < 0.8) {
         operation = '÷'
       } else {
-        operation = selectOperation(difficulty.weights, difficulty)
+        operation = selectOperation(difficulty.weights, difficulty, random)
       }
     } else if (difficulty.multiplicationEnabled && !prioritizeDivision) {
       // Check if this number is a good multiplication candidate
       const multBoost = getMultiplicationBoost(target, difficulty.multDivRange)
 
-      if (multBoost > 0 && Math.random() < multBoost) {
+      if (multBoost > 0 && random() < multBoost) {
         // Use multiplication for this times-table-friendly number
         operation = '×'
       } else {
-        operation = selectOperation(difficulty.weights, difficulty)
+        operation = selectOperation(difficulty.weights, difficulty, random)
       }
     } else {
-      operation = selectOperation(difficulty.weights, difficulty)
+      operation = selectOperation(difficulty.weights, difficulty, random)
     }
 
-    let expression: Expression | null = null
-
-    switch (operation) {
-      case '+':
-        expression = generateAddition(target, difficulty.addSubRange)
-        break
-      case '−':
-        expression = generateSubtraction(target, difficulty.addSubRange)
-        break
-      case '×':
-        expression = generateMultiplication(target, difficulty.multDivRange)
-        break
-      case '÷':
-        // Only use division for answers within the multDivRange
-        if (target <= maxDivisionAnswer) {
-          expression = generateDivision(target, difficulty.multDivRange)
-        }
-        break
-    }
+    const expression = generateSingleOperation(operation, target, difficulty, random)
 
     if (expression) {
       return expression
@@ -286,6 +783,14 @@ export function generateExpression(
     }
   }
 
+  // Zero and negative answers need a directed-number sum
+  if (target < 1) {
+    const signed = generateSignedAddition(target, Math.abs(target) + Math.max(1, difficulty.addSubRange), random)
+    if (signed) {
+      return signed
+    }
+  }
+
   // Force addition with relaxed constraints
   const a = Math.floor(target / 2)
   const b = target - a
@@ -306,7 +811,8 @@ export function generateExpression(
 export function applyExpressions(
   cells: Cell[][],
   difficulty: DifficultySettings,
-  divisionCells: Set<string> = new Set()
+  divisionCells: Set<string> = new Set(),
+  random: RandomSource = Math.random
 ): void {
   for (const row of cells) {
     for (const cell of row) {
@@ -317,8 +823,9 @@ export function applyExpressions(
         // Check if this cell should prioritize division
         const cellKey = `${cell.row},${cell.col}`
         const prioritizeDivision = divisionCells.has(cellKey)
-        // Generate math expression for all cells including START
-        const expression = generateExpression(cell.answer, difficulty, prioritizeDivision)
+        // Generate a clue or math expression for all cells including START
+        const clue = difficulty.numberClues ? generateClue(cell.answer, difficulty, random) : null
+        const expression = clue ?? generateExpression(cell.answer, difficulty, prioritizeDivision, random)
         cell.expression = expression.text
       } else {
         cell.expression = ''
@@ -328,8 +835,112 @@ export function applyExpressions(
 }
 
 /**
- * Evaluate a simple arithmetic expression
- * Handles unicode operators: +, −, ×, ÷
+ * Read position within a tokenized expression
+ */
+interface TokenCursor {
+  tokens: string[]
+  index: number
+}
+
+/**
+ * Parse a number, fraction, percentage, negative number or bracketed sub-expression
+ */
+function parseFactor(cursor: TokenCursor): number | null {
+  const token = cursor.tokens[cursor.index++]
+
+  // A leading minus sign makes a negative number: "−3", "5 − (−3)"
+  if (token === '−') {
+    const value = parseFactor(cursor)
+    return value === null ? null : -value
+  }
+
+  if (token === '(') {
+    const value = parseSum(cursor)
+    if (cursor.tokens[cursor.index++] !== ')') return null
+    return value
+  }
+
+  const fraction = FRACTIONS.find(f => f.symbol === token)
+  if (fraction) return fraction.numerator / fraction.denominator
+
+  if (token === undefined || !/^\d+(\.\d+)?$/.test(token)) return null
+  const value = parseFloat(token)
+
+  // "10%" is a hundredth of 10
+  if (cursor.tokens[cursor.index] === '%') {
+    cursor.index++
+    return value / 100
+  }
+  return value
+}
+
+/**
+ * Parse ×, ÷ and "of", which bind tighter than + and −
+ */
+function parseProduct(cursor: TokenCursor): number | null {
+  let value = parseFactor(cursor)
+  while (value !== null && ['×', '÷', 'of'].includes(cursor.tokens[cursor.index])) {
+    const op = cursor.tokens[cursor.index++]
+    const right = parseFactor(cursor)
+    if (right === null) return null
+    if (op === '÷' && right === 0) return null
+    value = op === '÷' ? value / right : value * right
+  }
+  return value
+}
+
+/**
+ * Parse + and −, left to right
+ */
+function parseSum(cursor: TokenCursor): number | null {
+  let value = parseProduct(cursor)
+  while (value !== null && (cursor.tokens[cursor.index] === '+' || cursor.tokens[cursor.index] === '−')) {
+    const op = cursor.tokens[cursor.index++]
+    const right = parseProduct(cursor)
+    if (right === null) return null
+    value = op === '+' ? value + right : value - right
+  }
+  return value
+}
+
+/**
+ * Solve a missing-number equation like "? + 7 = 15" or "24 ÷ ? = 6" using the inverse operation
+ */
+function solveMissingNumber(equation: string): number | null {
+  const match = equation.match(/^\s*(\?|\d+)\s*([+−×÷])\s*(\?|\d+)\s*=\s*(\d+)\s*$/)
+  if (!match) return null
+
+  const [, left, operation, right, resultText] = match
+  const result = parseInt(resultText, 10)
+
+  if (left === MISSING_NUMBER_SYMBOL && right !== MISSING_NUMBER_SYMBOL) {
+    const b = parseInt(right, 10)
+    switch (operation) {
+      case '+': return result - b
+      case '−': return result + b
+      case '×': return b === 0 ? null : result / b
+      case '÷': return result * b
+    }
+  }
+
+  if (right === MISSING_NUMBER_SYMBOL && left !== MISSING_NUMBER_SYMBOL) {
+    const a = parseInt(left, 10)
+    switch (operation) {
+      case '+': return result - a
+      case '−': return a - result
+      case '×': return a === 0 ? null : result / a
+      case '÷': return result === 0 ? null : a / result
+    }
+  }
+
+  return null
+}
+
+/**
+ * Evaluate an arithmetic expression with correct order of operations
+ * Handles unicode operators (+, −, ×, ÷), ASCII equivalents and brackets,
+ * plus decimals, fractions of amounts ("½ of 18") and percentages ("10% of 60")
+ * Missing-number equations evaluate to the missing number
  */
 export function evaluateExpression(expression: string): number | null {
   // Handle special cases
@@ -337,27 +948,33 @@ export function evaluateExpression(expression: string): number | null {
     return null
   }
 
-  // Replace unicode operators with JS operators
-  const jsExpression = expression
-    .replace(/−/g, '-')
-    .replace(/×/g, '*')
-    .replace(/÷/g, '/')
+  // Normalize ASCII operators to the unicode ones used in puzzles
+  const normalized = expression
+    .replace(/-/g, '−')
+    .replace(/\*/g, '×')
+    .replace(/\//g, '÷')
 
-  // Parse simple binary expression: "number operator number"
-  const match = jsExpression.match(/^\s*(\d+)\s*([+\-*/])\s*(\d+)\s*$/)
-  if (!match) {
-    return null
+  if (isMissingNumberExpression(normalized)) {
+    return solveMissingNumber(normalized)
   }
 
-  const a = parseInt(match[1], 10)
-  const op = match[2]
-  const b = parseInt(match[3], 10)
+  // Number-property clues ("square of 6") are read by their own generators
+  const clue = evaluateClue(expression)
+  if (clue !== null) {
+    return clue
+  }
 
-  switch (op) {
-    case '+': return a + b
-    case '-': return a - b
-    case '*': return a * b
-    case '/': return b !== 0 ? a / b : null
-    default: return null
+  if (!/^(?:[\d\s.%+−×÷()½⅓¼⅕⅙⅛⅒⅔¾]|of)+$/.test(normalized)) {
+    return null
   }
+
+  const tokens = normalized.match(/\d+(?:\.\d+)?|of|[%+−×÷()½⅓¼⅕⅙⅛⅒⅔¾]/g) ?? []
+  const cursor: TokenCursor = { tokens, index: 0 }
+  const value = parseSum(cursor)
+
+  // Everything must be consumed, otherwise the expression was malformed
+  if (value === null || cursor.index !== tokens.length) return null
+
+  // Tidy floating point error from decimals and fractions (0.1 + 0.2)
+  return Math.round(value * 1e9) / 1e9
 }
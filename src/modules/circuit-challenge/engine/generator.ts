@@ -1,13 +1,24 @@
 import { v4 as uuidv4 } from 'uuid'
 import type { Puzzle } from '../types'
-import type { DifficultySettings, GenerationResult } from './types'
-import { generatePath } from './pathfinder'
-import { buildDiagonalGrid, buildConnectorGraph } from './connectors'
+import type {
+  DifficultySettings,
+  GenerationAttemptFailure,
+  GenerationDiagnostics,
+  GenerationResult,
+  GenerationStep,
+} from './types'
+import { chooseWaypoints, generateTopologyPath } from './pathfinder'
+import { buildDiagonalGrid, buildTopologyConnectorGraph } from './connectors'
+import { getDifficultyTopology, usesDiagonalBlocks, validateTopology } from './topology'
 import { assignConnectorValues } from './valueAssigner'
 import { assignCellAnswers } from './cellAssigner'
 import { applyExpressions } from './expressions'
+import { applyMistakeDistractors } from './distractors'
 import { validatePuzzle } from './validator'
+import { analyzePuzzle } from './analyzer'
 import { calculateMinPathLength, calculateMaxPathLength } from './difficulty'
+import { createSeededRandom, createRandomSeed, normalizeSeed } from './random'
+import type { RandomSource } from './random'
 
 /**
  * Options for puzzle generation
@@ -17,17 +28,24 @@ export interface GenerationOptions {
   maxAttempts?: number
   /** Whether to validate the result (default: true) */
   validateResult?: boolean
+  /** Seed for reproducible generation (default: a fresh random seed) */
+  seed?: number
 }
 
 /**
- * Generate a unique puzzle ID
+ * Generate a puzzle ID from the random source so seeded puzzles get stable IDs
  */
-function generatePuzzleId(): string {
-  return uuidv4()
+function generatePuzzleId(random: RandomSource): string {
+  const bytes = new Uint8Array(16)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Math.floor(random() * 256)
+  }
+  return uuidv4({ random: bytes })
 }
 
 /**
  * Generate a complete puzzle for the given difficulty settings
+ * The same seed and settings always produce an identical puzzle
  */
 export function generatePuzzle(
   difficulty: DifficultySettings,
@@ -35,26 +53,43 @@ export function generatePuzzle(
 ): GenerationResult {
   const maxAttempts = options.maxAttempts ?? 30 // Increased from 20 for better success on complex grids
   const shouldValidate = options.validateResult ?? true
+  const seed = options.seed !== undefined ? normalizeSeed(options.seed) : createRandomSeed()
+  const random = createSeededRandom(seed)
 
   const { gridRows, gridCols, connectorMin, connectorMax } = difficulty
 
   // Calculate path lengths if not set
-  const minPath = difficulty.minPathLength || calculateMinPathLength(gridRows, gridCols)
-  const maxPath = difficulty.maxPathLength || calculateMaxPathLength(gridRows, gridCols)
+  const blockedCount = difficulty.blockedCells?.length ?? 0
+  const minPath = difficulty.minPathLength || calculateMinPathLength(gridRows, gridCols, blockedCount)
+  const maxPath = difficulty.maxPathLength || calculateMaxPathLength(gridRows, gridCols, blockedCount)
+
+  const failures: GenerationAttemptFailure[] = []
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
-      // Step 1: Generate solution path
-      const pathResult = generatePath(gridRows, gridCols, minPath, maxPath)
+      // Step 1: Place START, FINISH and checkpoints (random placements change each attempt), then find a path
+      const topology = getDifficultyTopology(difficulty, random)
+      const topologyErrors = validateTopology(topology)
+      if (topologyErrors.length > 0) {
+        failures.push({ attempt, step: 'topology', errors: topologyErrors })
+        continue
+      }
+      const checkpoints = difficulty.checkpointCount
+        ? chooseWaypoints(topology, difficulty.checkpointCount, random)
+        : []
+      const pathResult = generateTopologyPath(topology, minPath, maxPath, checkpoints, undefined, random)
       if (!pathResult.success) {
+        failures.push({ attempt, step: 'path', errors: [pathResult.error ?? 'No path found'] })
         continue
       }
 
-      // Step 2: Build diagonal grid from path commitments
-      const diagonalGrid = buildDiagonalGrid(gridRows, gridCols, pathResult.diagonalCommitments)
+      // Step 2: Build diagonal grid from path commitments (square grids only)
+      const diagonalGrid = usesDiagonalBlocks(topology)
+        ? buildDiagonalGrid(gridRows, gridCols, pathResult.diagonalCommitments, random)
+        : []
 
       // Step 3: Build connector graph
-      const unvaluedConnectors = buildConnectorGraph(gridRows, gridCols, diagonalGrid)
+      const unvaluedConnectors = buildTopologyConnectorGraph(topology, diagonalGrid)
 
       // Step 4: Assign connector values
       // When division is enabled, reserve ~25% of path connectors for division-friendly values (1 to multDivRange)
@@ -64,29 +99,48 @@ export function generatePuzzle(
         connectorMax,
         difficulty.divisionEnabled,
         pathResult.path,
-        difficulty.multDivRange
+        difficulty.multDivRange,
+        random
       )
       if (!valueResult.success) {
+        failures.push({ attempt, step: 'values', errors: [valueResult.error ?? 'No connector values found'] })
         continue
       }
 
       // Step 5: Assign cell answers based on solution path
       const cellGrid = assignCellAnswers(
-        gridRows,
-        gridCols,
+        topology,
         pathResult.path,
         valueResult.connectors,
-        valueResult.divisionConnectorIndices
+        valueResult.divisionConnectorIndices,
+        random
       )
+      for (const checkpoint of checkpoints) {
+        cellGrid.cells[checkpoint.row][checkpoint.col].isCheckpoint = true
+      }
 
       // Step 6: Generate arithmetic expressions for each cell
-      applyExpressions(cellGrid.cells, difficulty, cellGrid.divisionCells)
+      applyExpressions(cellGrid.cells, difficulty, cellGrid.divisionCells, random)
+
+      // Step 6b: Turn wrong connectors next to the path into common-mistake answers
+      if (difficulty.mistakeDistractors) {
+        applyMistakeDistractors(
+          cellGrid.cells,
+          valueResult.connectors,
+          pathResult.path,
+          connectorMin,
+          connectorMax,
+          random
+        )
+      }
 
       // Step 7: Construct puzzle object
       const puzzle: Puzzle = {
-        id: generatePuzzleId(),
+        id: generatePuzzleId(random),
         difficulty: getDifficultyLevel(difficulty),
+        seed,
         grid: cellGrid.cells,
+        topology,
         connectors: valueResult.connectors,
         solution: {
           path: pathResult.path,
@@ -94,19 +148,26 @@ export function generatePuzzle(
         },
       }
 
-      // Step 8: Validate if requested
+      // Step 8: Validate if requested (includes proving the solution is unique)
       if (shouldValidate) {
         const validation = validatePuzzle(puzzle)
         if (!validation.valid) {
-          console.warn(`Attempt ${attempt} failed validation:`, validation.errors)
+          failures.push({ attempt, step: 'validation', errors: validation.errors })
           continue
         }
       }
 
+      // Step 9: Measure how hard the finished puzzle actually is
+      puzzle.measuredDifficulty = analyzePuzzle(puzzle)
+
       // Success!
       return { success: true, puzzle }
     } catch (error) {
-      console.warn(`Attempt ${attempt} threw error:`, error)
+      failures.push({
+        attempt,
+        step: 'error',
+        errors: [error instanceof Error ? error.message : String(error)],
+      })
       continue
     }
   }
@@ -115,7 +176,45 @@ export function generatePuzzle(
   return {
     success: false,
     error: `Failed to generate puzzle after ${maxAttempts} attempts. Try adjusting difficulty settings.`,
+    diagnostics: buildDiagnostics(maxAttempts, failures, difficulty),
+  }
+}
+
+/**
+ * What to suggest when most attempts fail at a given step
+ */
+const STEP_SUGGESTIONS: Record<GenerationStep, (settings: DifficultySettings) => string> = {
+  topology: () =>
+    'START and FINISH need to be different open cells that every other cell can be reached from. Try fewer holes in the grid or moving START and FINISH.',
+  path: settings =>
+    `A long enough path couldn't be found on a ${settings.gridRows}×${settings.gridCols} grid. Try a different grid size.`,
+  values: () =>
+    'There weren\'t enough different numbers for the connectors. Try a smaller grid or a bigger number range.',
+  validation: () =>
+    'Some answers couldn\'t be made with the chosen operations. Try turning on more operations or using bigger number ranges.',
+  error: () =>
+    'Something went wrong while building the puzzle. Try slightly different settings.',
+}
+
+/**
+ * Summarize failed attempts into diagnostics with suggestions, most common failure first
+ */
+function buildDiagnostics(
+  attempts: number,
+  failures: GenerationAttemptFailure[],
+  settings: DifficultySettings
+): GenerationDiagnostics {
+  const failuresByStep: Record<GenerationStep, number> = { topology: 0, path: 0, values: 0, validation: 0, error: 0 }
+  for (const failure of failures) {
+    failuresByStep[failure.step]++
   }
+
+  const suggestions = (Object.keys(failuresByStep) as GenerationStep[])
+    .filter(step => failuresByStep[step] > 0)
+    .sort((a, b) => failuresByStep[b] - failuresByStep[a])
+    .map(step => STEP_SUGGESTIONS[step](settings))
+
+  return { attempts, failures, failuresByStep, suggestions }
 }
 
 /**
@@ -2,8 +2,12 @@
 export type {
   DifficultySettings,
   GenerationResult,
+  GenerationStep,
+  GenerationAttemptFailure,
+  GenerationDiagnostics,
   Operation,
   OperationWeights,
+  UndoRule,
   ValidationResult,
 } from './types'
 
@@ -31,6 +35,8 @@ export {
 // Path generation
 export {
   generatePath,
+  generateTopologyPath,
+  chooseWaypoints,
   coordToKey,
   isInterestingPath,
   manhattanDistance,
@@ -41,6 +47,7 @@ export type { PathResult, DiagonalCommitments, DiagonalKey } from './pathfinder'
 export {
   buildDiagonalGrid,
   buildConnectorGraph,
+  buildTopologyConnectorGraph,
   getCellConnectors,
   getConnectorBetween,
   areAdjacent,
@@ -48,6 +55,34 @@ export {
 } from './connectors'
 export type { UnvaluedConnector, DiagonalGrid } from './connectors'
 
+// Grid topologies
+export {
+  createTopology,
+  getDifficultyTopology,
+  getPuzzleTopology,
+  isStartCell,
+  isFinishCell,
+  isBlockedCell,
+  isOpenCell,
+  getOpenCells,
+  getNeighbours,
+  areNeighbours,
+  usesDiagonalBlocks,
+  getCellLayoutPosition,
+  getCellInDirection,
+  getDirectionName,
+  getLayoutSize,
+  getCenterCell,
+  chooseEndpoints,
+  validateTopology,
+  getHolePattern,
+} from './topology'
+export type { DirectionName } from './topology'
+
+// Seeded randomness
+export { createSeededRandom, createRandomSeed, normalizeSeed } from './random'
+export type { RandomSource } from './random'
+
 // Value assignment
 export {
   assignConnectorValues,
@@ -71,8 +106,30 @@ export {
   generateSubtraction,
   generateMultiplication,
   generateDivision,
+  generateMultiStepExpression,
+  generateFractionOf,
+  generatePercentageOf,
+  generateDecimalAddition,
+  generateMissingNumber,
+  generateSignedAddition,
+  generateSignedSubtraction,
+  formatNumber,
+  isMissingNumberExpression,
+  MISSING_NUMBER_SYMBOL,
 } from './expressions'
-export type { Expression } from './expressions'
+
+// Number-property clues
+export {
+  generateClue,
+  evaluateClue,
+  registerClueGenerator,
+  getClueTypes,
+  isClueText,
+  splitCellText,
+  CLUE_LINE_LENGTH,
+} from './clues'
+export type { ClueGenerator } from './clues'
+export type { Expression, ExpressionKind } from './expressions'
 
 // Validation
 export {
@@ -82,7 +139,31 @@ export {
   validateCellAnswers,
   validateSolutionPath,
   validateExpressions,
+  validateUniqueSolution,
+  validateConnectorTopology,
+  validateCheckpoints,
+  findSolutionPaths,
 } from './validator'
+export type { SolutionSearchOptions, SolutionSearchResult } from './validator'
+
+// Shareable puzzle codes
+export { encodePuzzleCode, decodePuzzleCode } from './puzzleCode'
+export type { PuzzleCodeResult } from './puzzleCode'
+
+// Distractors
+export { getMistakeValues, applyMistakeDistractors } from './distractors'
+
+// Difficulty analysis
+export {
+  analyzePuzzle,
+  getMeasuredScore,
+  sortPuzzlesByDifficulty,
+  filterPuzzlesByDifficulty,
+} from './analyzer'
+
+// Solver
+export { solvePuzzle, getNextMove, allCheckpointsVisited, getAvailableMoves, getWorkedAnswer } from './solver'
+export type { SolverHint } from './solver'
 
 // Main generator
 export { generatePuzzle } from './generator'
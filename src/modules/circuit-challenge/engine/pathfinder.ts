@@ -1,4 +1,6 @@
-import type { Coordinate, DiagonalDirection } from '../types'
+import type { Coordinate, DiagonalDirection, GridTopology } from '../types'
+import type { RandomSource } from './random'
+import { createTopology, getNeighbours, getOpenCells, usesDiagonalBlocks } from './topology'
 
 /**
  * Key format for 2x2 block diagonal tracking: "row,col" of top-left corner
@@ -20,6 +22,19 @@ export interface PathResult {
   error?: string
 }
 
+/**
+ * How strongly path moves are drawn toward the next waypoint
+ */
+const WAYPOINT_PULL = 0.3
+const WAYPOINT_BONUS = 3
+
+/**
+ * Most steps the backtracking path search takes before giving up, and how many
+ * it spends on each fresh start
+ */
+const MAX_PATH_SEARCH_STEPS = 10000
+const PATH_SEARCH_STEPS_PER_START = 200
+
 /**
  * Convert coordinate to string key for use in Sets/Maps
  */
@@ -161,17 +176,56 @@ export function isInterestingPath(path: Coordinate[]): boolean {
 }
 
 /**
- * Generate a solution path from START (0,0) to FINISH (rows-1, cols-1)
+ * Generate a solution path from START (0,0) to FINISH (rows-1, cols-1) on a rectangular grid
  */
 export function generatePath(
   rows: number,
   cols: number,
   minLength: number,
   maxLength: number,
-  maxAttempts: number = 200 // Increased from 100 for better success on larger grids
+  maxAttempts: number = 200, // Increased from 100 for better success on larger grids
+  random: RandomSource = Math.random
+): PathResult {
+  return generateTopologyPath(createTopology(rows, cols), minLength, maxLength, [], maxAttempts, random)
+}
+
+/**
+ * Pick cells a path must pass through, avoiding START, FINISH and their neighbours
+ */
+export function chooseWaypoints(
+  topology: GridTopology,
+  count: number,
+  random: RandomSource = Math.random
+): Coordinate[] {
+  const { start, finish } = topology
+  const nearEnds = new Set([start, finish, ...getNeighbours(topology, start), ...getNeighbours(topology, finish)].map(coordToKey))
+  const candidates = getOpenCells(topology).filter(c => !nearEnds.has(coordToKey(c)))
+
+  const waypoints: Coordinate[] = []
+  while (waypoints.length < count && candidates.length > 0) {
+    const index = Math.floor(random() * candidates.length)
+    waypoints.push(candidates[index])
+    candidates.splice(index, 1)
+  }
+  return waypoints
+}
+
+/**
+ * Generate a solution path from the topology's START to its FINISH
+ * The path must pass through every waypoint (in any order) before reaching FINISH
+ */
+export function generateTopologyPath(
+  topology: GridTopology,
+  minLength: number,
+  maxLength: number,
+  waypoints: Coordinate[] = [],
+  maxAttempts: number = 200,
+  random: RandomSource = Math.random
 ): PathResult {
-  const start: Coordinate = { row: 0, col: 0 }
-  const finish: Coordinate = { row: rows - 1, col: cols - 1 }
+  const { start, finish } = topology
+  const diagonalBlocks = usesDiagonalBlocks(topology)
+  const totalCells = getOpenCells(topology).length
+  const waypointKeys = new Set(waypoints.map(coordToKey))
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     const path: Coordinate[] = [start]
@@ -179,6 +233,7 @@ export function generatePath(
     const diagonalCommitments: DiagonalCommitments = new Map()
 
     let current = start
+    let waypointsLeft = waypoints.length
 
     while (!(current.row === finish.row && current.col === finish.col)) {
       // Check if path is too long
@@ -186,8 +241,15 @@ export function generatePath(
         break
       }
 
-      // Get all adjacent cells
-      const adjacent = getAdjacent(current, rows, cols)
+      // Get all neighbouring cells
+      const adjacent = getNeighbours(topology, current)
+
+      // Head for the nearest waypoint still to visit, then FINISH
+      const target = waypointsLeft > 0
+        ? waypoints
+            .filter(w => !visited.has(coordToKey(w)))
+            .sort((a, b) => manhattanDistance(a, current) - manhattanDistance(b, current))[0]
+        : finish
 
       // Filter to valid moves
       const validMoves = adjacent.filter(next => {
@@ -195,8 +257,12 @@ export function generatePath(
         if (visited.has(coordToKey(next))) {
           return false
         }
+        // FINISH stays closed until every waypoint is visited
+        if (waypointsLeft > 0 && next.row === finish.row && next.col === finish.col) {
+          return false
+        }
         // Diagonal moves must not conflict with commitments
-        if (!isDiagonalMoveValid(current, next, diagonalCommitments)) {
+        if (diagonalBlocks && !isDiagonalMoveValid(current, next, diagonalCommitments)) {
           return false
         }
         return true
@@ -210,41 +276,47 @@ export function generatePath(
       // Select next cell
       let next: Coordinate
       const progressRatio = path.length / maxLength
-      const totalCells = rows * cols
       const isSmallGrid = totalCells <= 20
 
       // For small grids, use mostly random moves with occasional bias toward finish
       // For large grids, use smarter scoring with dead-end avoidance
       if (isSmallGrid) {
         // Small grid: mostly random with light progress bias
-        if (progressRatio > 0.6 && Math.random() < 0.4) {
-          // Pick closest to finish
+        if (progressRatio > 0.6 && random() < 0.4) {
+          // Pick closest to the target
           validMoves.sort((a, b) =>
-            manhattanDistance(a, finish) - manhattanDistance(b, finish)
+            manhattanDistance(a, target) - manhattanDistance(b, target)
           )
           next = validMoves[0]
         } else {
-          next = validMoves[Math.floor(Math.random() * validMoves.length)]
+          next = validMoves[Math.floor(random() * validMoves.length)]
         }
       } else {
         // Large grid: smart scoring with dead-end avoidance
         const scoredMoves = validMoves.map(move => {
           let score = 0
-          const distToFinish = manhattanDistance(move, finish)
+          const distToTarget = manhattanDistance(move, target)
 
-          // Stronger finish bias as we approach max length
+          // Stronger target bias as we approach max length
           if (progressRatio > 0.7) {
-            score -= distToFinish * (progressRatio - 0.5) * 2
+            score -= distToTarget * (progressRatio - 0.5) * 2
+          }
+
+          // Steady pull toward a waypoint still to visit, and a bonus for stepping onto one
+          // (waypoints in corners would otherwise lose out to dead-end avoidance)
+          if (waypointsLeft > 0) {
+            score -= distToTarget * WAYPOINT_PULL
+            if (waypointKeys.has(coordToKey(move))) score += WAYPOINT_BONUS
           }
 
           // Dead-end avoidance: prefer moves with more future options
-          const futureOptions = getAdjacent(move, rows, cols)
+          const futureOptions = getNeighbours(topology, move)
             .filter(opt => !visited.has(coordToKey(opt)) && !(opt.row === current.row && opt.col === current.col))
             .length
           score += futureOptions * 0.5
 
           // Random factor for variety
-          score += Math.random() * 0.5
+          score += random() * 0.5
 
           return { move, score }
         })
@@ -255,7 +327,7 @@ export function generatePath(
       }
 
       // Record diagonal commitment if applicable
-      if (isDiagonalMove(current, next)) {
+      if (diagonalBlocks && isDiagonalMove(current, next)) {
         const key = getDiagonalKey(current, next)
         const direction = getDiagonalDirection(current, next)
         diagonalCommitments.set(key, direction)
@@ -264,6 +336,7 @@ export function generatePath(
       // Add to path
       path.push(next)
       visited.add(coordToKey(next))
+      if (waypointKeys.has(coordToKey(next))) waypointsLeft--
       current = next
     }
 
@@ -282,6 +355,12 @@ export function generatePath(
     }
   }
 
+  // The walk keeps getting stuck on some grids (holes, narrow grids), so search properly
+  const searched = searchTopologyPath(topology, minLength, maxLength, waypoints, random)
+  if (searched.success) {
+    return searched
+  }
+
   return {
     success: false,
     path: [],
@@ -289,3 +368,110 @@ export function generatePath(
     error: `Failed to generate valid path after ${maxAttempts} attempts`,
   }
 }
+
+/**
+ * Search for a path from START to FINISH by backtracking, giving up after a step budget
+ * A bad early choice can take the whole budget to undo, so the search starts over a few times
+ * Until the path is long enough, cells with the fewest onward moves are tried first so
+ * the path sweeps the grid instead of cutting parts of it off; after that it heads for FINISH
+ */
+export function searchTopologyPath(
+  topology: GridTopology,
+  minLength: number,
+  maxLength: number,
+  waypoints: Coordinate[] = [],
+  random: RandomSource = Math.random,
+  maxSteps: number = MAX_PATH_SEARCH_STEPS
+): PathResult {
+  const { start, finish } = topology
+  const diagonalBlocks = usesDiagonalBlocks(topology)
+  const finishKey = coordToKey(finish)
+  const waypointKeys = new Set(waypoints.map(coordToKey))
+
+  let path: Coordinate[] = []
+  let visited = new Set<string>()
+  let diagonalCommitments: DiagonalCommitments = new Map()
+  let waypointsLeft = 0
+  let steps = 0
+
+  const canEnter = (from: Coordinate, next: Coordinate) =>
+    !visited.has(coordToKey(next)) &&
+    (!diagonalBlocks || isDiagonalMoveValid(from, next, diagonalCommitments))
+
+  // Whether FINISH, the waypoints left and enough cells are still reachable from a cell
+  const canStillFinish = (from: Coordinate): boolean => {
+    const reached = new Set<string>()
+    const queue = [from]
+    let waypointsReached = 0
+    for (let i = 0; i < queue.length; i++) {
+      for (const next of getNeighbours(topology, queue[i])) {
+        const key = coordToKey(next)
+        if (visited.has(key) || reached.has(key)) continue
+        reached.add(key)
+        if (waypointKeys.has(key)) waypointsReached++
+        // FINISH ends the path, so nothing can be reached through it
+        if (key !== finishKey) queue.push(next)
+      }
+    }
+    return reached.has(finishKey) && waypointsReached === waypointsLeft && path.length + reached.size >= minLength
+  }
+
+  const extend = (): boolean => {
+    steps++
+    const current = path[path.length - 1]
+    if (coordToKey(current) === finishKey) {
+      return isInterestingPath(path)
+    }
+    if (path.length >= maxLength || !canStillFinish(current)) return false
+
+    // FINISH only opens once the path is long enough and every waypoint is visited
+    const longEnough = waypointsLeft === 0 && path.length + 1 >= minLength
+    const moves = getNeighbours(topology, current)
+      .filter(next => canEnter(current, next))
+      .filter(next => coordToKey(next) !== finishKey || longEnough)
+      .map(next => ({
+        next,
+        score: random() + (longEnough
+          ? manhattanDistance(next, finish)
+          : getNeighbours(topology, next).filter(n => !visited.has(coordToKey(n))).length),
+      }))
+      .sort((a, b) => a.score - b.score)
+
+    for (const { next } of moves) {
+      if (steps > PATH_SEARCH_STEPS_PER_START) return false
+
+      const key = coordToKey(next)
+      const blockKey = diagonalBlocks && isDiagonalMove(current, next) ? getDiagonalKey(current, next) : null
+      const isNewCommitment = blockKey !== null && !diagonalCommitments.has(blockKey)
+      if (isNewCommitment) diagonalCommitments.set(blockKey, getDiagonalDirection(current, next))
+      path.push(next)
+      visited.add(key)
+      if (waypointKeys.has(key)) waypointsLeft--
+
+      if (extend()) return true
+
+      path.pop()
+      visited.delete(key)
+      if (waypointKeys.has(key)) waypointsLeft++
+      if (isNewCommitment) diagonalCommitments.delete(blockKey)
+    }
+    return false
+  }
+
+  for (let restart = 0; restart * PATH_SEARCH_STEPS_PER_START < maxSteps; restart++) {
+    path = [start]
+    visited = new Set([coordToKey(start)])
+    diagonalCommitments = new Map()
+    waypointsLeft = waypoints.length
+    steps = 0
+    if (extend()) {
+      return { success: true, path, diagonalCommitments }
+    }
+  }
+  return {
+    success: false,
+    path: [],
+    diagonalCommitments: new Map(),
+    error: `No path of ${minLength} to ${maxLength} cells found`,
+  }
+}
@@ -0,0 +1,435 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { Cell, Connector, Coordinate, DiagonalDirection, GridTopology, Puzzle, TopologyKind } from '../types'
+import { buildTopologyConnectorGraph, getCellConnectors, getConnectorBetween } from './connectors'
+import type { DiagonalGrid } from './connectors'
+import { getExitCell } from './cellAssigner'
+import { evaluateExpression } from './expressions'
+import { coordToKey } from './pathfinder'
+import { validateCellAnswers, validatePuzzle } from './validator'
+import { analyzePuzzle } from './analyzer'
+import { createTopology, getPuzzleTopology, isBlockedCell, isOpenCell, usesDiagonalBlocks } from './topology'
+
+/**
+ * Result of decoding a puzzle code
+ */
+export type PuzzleCodeResult =
+  | { success: true; puzzle: Puzzle }
+  | { success: false; error: string }
+
+/**
+ * Current version of the code format (first byte of every code)
+ * Version 2 stores connector values as signed (zigzag) varints for negative numbers mode
+ * Version 3 adds the grid topology (layout and blocked cells)
+ * Version 4 adds checkpoint cells
+ */
+const PUZZLE_CODE_VERSION = 4
+
+/**
+ * Oldest version that can still be decoded (version 1 stored unsigned connector values)
+ */
+const MIN_PUZZLE_CODE_VERSION = 1
+
+/**
+ * Largest grid dimension a code may describe
+ */
+const MAX_GRID_SIZE = 20
+
+/**
+ * Largest connector value (either sign) a code may hold, far beyond any difficulty setting
+ */
+const MAX_CONNECTOR_VALUE = 10000
+
+/**
+ * Unicode operators are stored as single ASCII bytes to keep codes short
+ */
+const OPERATOR_TO_ASCII: Record<string, string> = { '−': '-', '×': '*', '÷': '/' }
+const ASCII_TO_OPERATOR: Record<string, string> = { '-': '−', '*': '×', '/': '÷' }
+
+/**
+ * Topology layouts are stored as a single number
+ */
+const TOPOLOGY_KINDS: TopologyKind[] = ['square', 'hex']
+
+/**
+ * Append an unsigned integer as a little-endian base-128 varint
+ */
+function writeVarint(bytes: number[], value: number): void {
+  let remaining = value
+  while (remaining >= 0x80) {
+    bytes.push((remaining & 0x7f) | 0x80)
+    remaining = Math.floor(remaining / 0x80)
+  }
+  bytes.push(remaining)
+}
+
+/**
+ * Append a signed integer as a zigzag varint (0, −1, 1, −2, 2 … → 0, 1, 2, 3, 4 …)
+ */
+function writeSignedVarint(bytes: number[], value: number): void {
+  writeVarint(bytes, value < 0 ? -value * 2 - 1 : value * 2)
+}
+
+/**
+ * Read position within a decoded code
+ */
+interface ByteCursor {
+  bytes: Uint8Array
+  offset: number
+}
+
+/**
+ * Read a varint written by writeVarint, throwing when the code is truncated
+ */
+function readVarint(cursor: ByteCursor): number {
+  let value = 0
+  let multiplier = 1
+  for (;;) {
+    if (cursor.offset >= cursor.bytes.length) {
+      throw new Error('Puzzle code is incomplete')
+    }
+    const byte = cursor.bytes[cursor.offset++]
+    value += (byte & 0x7f) * multiplier
+    if ((byte & 0x80) === 0) return value
+    multiplier *= 0x80
+    if (multiplier > 2 ** 35) {
+      throw new Error('Puzzle code contains an invalid number')
+    }
+  }
+}
+
+/**
+ * Read a signed integer written by writeSignedVarint
+ */
+function readSignedVarint(cursor: ByteCursor): number {
+  const zigzag = readVarint(cursor)
+  return zigzag % 2 === 1 ? -(zigzag + 1) / 2 : zigzag / 2
+}
+
+/**
+ * Read a fixed number of raw bytes
+ */
+function readBytes(cursor: ByteCursor, length: number): Uint8Array {
+  if (cursor.offset + length > cursor.bytes.length) {
+    throw new Error('Puzzle code is incomplete')
+  }
+  const slice = cursor.bytes.slice(cursor.offset, cursor.offset + length)
+  cursor.offset += length
+  return slice
+}
+
+/**
+ * Encode bytes as URL-safe base64 without padding
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decode URL-safe base64 (with or without padding) into bytes
+ */
+function fromBase64Url(code: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]+={0,2}$/.test(code)) {
+    throw new Error('Puzzle code contains invalid characters')
+  }
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Read the diagonal direction of every 2x2 block from a puzzle's connectors
+ * A block whose diagonal was dropped for touching a blocked cell gets the direction
+ * that rebuilds it as dropped
+ */
+function getDiagonalGrid(topology: GridTopology, connectors: Connector[]): DiagonalGrid {
+  const grid: DiagonalGrid = []
+  for (let row = 0; row < topology.rows - 1; row++) {
+    const rowArray: DiagonalDirection[] = []
+    for (let col = 0; col < topology.cols - 1; col++) {
+      const downRight = getConnectorBetween({ row, col }, { row: row + 1, col: col + 1 }, connectors)
+      const downLeftStart = { row, col: col + 1 }
+      const downLeftEnd = { row: row + 1, col }
+      const downLeft = getConnectorBetween(downLeftStart, downLeftEnd, connectors)
+      const downLeftOpen = isOpenCell(topology, downLeftStart) && isOpenCell(topology, downLeftEnd)
+      rowArray.push(downRight || (!downLeft && downLeftOpen) ? 'DR' : 'DL')
+    }
+    grid.push(rowArray)
+  }
+  return grid
+}
+
+/**
+ * Encode a puzzle as a compact, URL-safe code
+ * Stores grid size, START/FINISH, diagonal layout, connector values and cell expressions
+ */
+export function encodePuzzleCode(puzzle: Puzzle): string {
+  const rows = puzzle.grid.length
+  const cols = puzzle.grid[0]?.length ?? 0
+  const topology = getPuzzleTopology(puzzle)
+  const { start, finish } = topology
+
+  const bytes: number[] = []
+  writeVarint(bytes, PUZZLE_CODE_VERSION)
+  writeVarint(bytes, rows)
+  writeVarint(bytes, cols)
+  writeVarint(bytes, start.row)
+  writeVarint(bytes, start.col)
+  writeVarint(bytes, finish.row)
+  writeVarint(bytes, finish.col)
+  writeVarint(bytes, puzzle.difficulty)
+
+  // Topology: layout, then blocked cells
+  writeVarint(bytes, TOPOLOGY_KINDS.indexOf(topology.kind))
+  writeVarint(bytes, topology.blockedCells.length)
+  for (const cell of topology.blockedCells) {
+    writeVarint(bytes, cell.row)
+    writeVarint(bytes, cell.col)
+  }
+
+  // Checkpoints the path must pass through
+  const checkpoints = puzzle.grid.flat().filter(cell => cell.isCheckpoint)
+  writeVarint(bytes, checkpoints.length)
+  for (const cell of checkpoints) {
+    writeVarint(bytes, cell.row)
+    writeVarint(bytes, cell.col)
+  }
+
+  // Diagonal layout for square grids, one bit per 2x2 block (1 = DR)
+  const diagonalGrid = usesDiagonalBlocks(topology) ? getDiagonalGrid(topology, puzzle.connectors) : []
+  const diagonals = diagonalGrid.flat()
+  const diagonalBytes = new Uint8Array(Math.ceil(diagonals.length / 8))
+  diagonals.forEach((direction, i) => {
+    if (direction === 'DR') {
+      diagonalBytes[i >> 3] |= 1 << (i & 7)
+    }
+  })
+  bytes.push(...diagonalBytes)
+
+  // Connector values in canonical graph order
+  for (const connector of buildTopologyConnectorGraph(topology, diagonalGrid)) {
+    const valued = getConnectorBetween(connector.cellA, connector.cellB, puzzle.connectors)
+    if (!valued) {
+      throw new Error(`Puzzle has no connector between ${coordToKey(connector.cellA)} and ${coordToKey(connector.cellB)}`)
+    }
+    writeSignedVarint(bytes, valued.value)
+  }
+
+  // Cell expressions (FINISH and blocked cells have none)
+  const encoder = new TextEncoder()
+  for (const row of puzzle.grid) {
+    for (const cell of row) {
+      if (cell.isFinish || isBlockedCell(topology, cell)) continue
+      const ascii = cell.expression.replace(/[−×÷]/g, op => OPERATOR_TO_ASCII[op])
+      const expressionBytes = encoder.encode(ascii)
+      writeVarint(bytes, expressionBytes.length)
+      bytes.push(...expressionBytes)
+    }
+  }
+
+  return toBase64Url(new Uint8Array(bytes))
+}
+
+/**
+ * Follow each cell's answer from START until FINISH to recover the solution path
+ */
+function traceSolutionPath(
+  grid: Cell[][],
+  connectors: Connector[],
+  start: Coordinate,
+  finish: Coordinate
+): Coordinate[] | null {
+  const path: Coordinate[] = [start]
+  const visited = new Set<string>([coordToKey(start)])
+  let current = start
+
+  while (current.row !== finish.row || current.col !== finish.col) {
+    const answer = grid[current.row][current.col].answer
+    if (answer === null) return null
+
+    const next = getExitCell(current, answer, connectors)
+    if (!next || visited.has(coordToKey(next))) return null
+
+    path.push(next)
+    visited.add(coordToKey(next))
+    current = next
+  }
+
+  return path
+}
+
+/**
+ * Cheap checks on a decoded grid, run before any path search
+ * Codes come from links anyone can write, so anything a generated puzzle can't contain is
+ * rejected here: out-of-range values, cells with no connectors, and cells whose answer
+ * matches no connector or several (which would make the uniqueness search branch)
+ */
+function checkDecodedStructure(grid: Cell[][], connectors: Connector[], topology: GridTopology): string | null {
+  const outOfRange = connectors.find(c => Math.abs(c.value) > MAX_CONNECTOR_VALUE)
+  if (outOfRange) {
+    return `Connector value ${outOfRange.value} is out of range`
+  }
+
+  for (const cell of grid.flat()) {
+    if (isOpenCell(topology, cell) && getCellConnectors(cell, connectors).length === 0) {
+      return `Cell (${cell.row},${cell.col}) has no connectors`
+    }
+  }
+
+  const answers = validateCellAnswers(grid, connectors, topology)
+  return answers.valid ? null : answers.errors[0]
+}
+
+/**
+ * Decode a puzzle code back into a validated puzzle
+ * Structural checks run first, so a hostile code is rejected before any search
+ */
+export function decodePuzzleCode(code: string): PuzzleCodeResult {
+  try {
+    const cursor: ByteCursor = { bytes: fromBase64Url(code.trim()), offset: 0 }
+
+    const version = readVarint(cursor)
+    if (version < MIN_PUZZLE_CODE_VERSION || version > PUZZLE_CODE_VERSION) {
+      return { success: false, error: `Unsupported puzzle code version ${version}` }
+    }
+
+    const rows = readVarint(cursor)
+    const cols = readVarint(cursor)
+    if (rows < 2 || cols < 2 || rows > MAX_GRID_SIZE || cols > MAX_GRID_SIZE) {
+      return { success: false, error: `Invalid grid size ${rows}×${cols}` }
+    }
+
+    const start: Coordinate = { row: readVarint(cursor), col: readVarint(cursor) }
+    const finish: Coordinate = { row: readVarint(cursor), col: readVarint(cursor) }
+    for (const coord of [start, finish]) {
+      if (coord.row >= rows || coord.col >= cols) {
+        return { success: false, error: `Cell (${coord.row},${coord.col}) is outside the grid` }
+      }
+    }
+    const difficulty = readVarint(cursor)
+
+    // Topology (older codes are always plain rectangles)
+    const topology = createTopology(rows, cols, 'square', [], start, finish)
+    if (version >= 3) {
+      const kind = TOPOLOGY_KINDS[readVarint(cursor)]
+      if (!kind) {
+        return { success: false, error: 'Puzzle code has an unknown grid layout' }
+      }
+      topology.kind = kind
+      const blockedCount = readVarint(cursor)
+      if (blockedCount > rows * cols) {
+        return { success: false, error: 'Puzzle code has too many blocked cells' }
+      }
+      for (let i = 0; i < blockedCount; i++) {
+        topology.blockedCells.push({ row: readVarint(cursor), col: readVarint(cursor) })
+      }
+    }
+
+    // Checkpoints
+    const checkpointKeys = new Set<string>()
+    if (version >= 4) {
+      const checkpointCount = readVarint(cursor)
+      if (checkpointCount > rows * cols) {
+        return { success: false, error: 'Puzzle code has too many checkpoints' }
+      }
+      for (let i = 0; i < checkpointCount; i++) {
+        checkpointKeys.add(coordToKey({ row: readVarint(cursor), col: readVarint(cursor) }))
+      }
+    }
+
+    // Diagonal layout (square grids only)
+    const diagonalGrid: DiagonalGrid = []
+    if (usesDiagonalBlocks(topology)) {
+      const blockCount = (rows - 1) * (cols - 1)
+      const diagonalBytes = readBytes(cursor, Math.ceil(blockCount / 8))
+      for (let row = 0; row < rows - 1; row++) {
+        const rowArray: DiagonalDirection[] = []
+        for (let col = 0; col < cols - 1; col++) {
+          const i = row * (cols - 1) + col
+          rowArray.push(diagonalBytes[i >> 3] & (1 << (i & 7)) ? 'DR' : 'DL')
+        }
+        diagonalGrid.push(rowArray)
+      }
+    }
+
+    // Connector values
+    const connectors: Connector[] = buildTopologyConnectorGraph(topology, diagonalGrid).map(c => ({
+      ...c,
+      value: version === 1 ? readVarint(cursor) : readSignedVarint(cursor),
+    }))
+
+    // Cells
+    const decoder = new TextDecoder('utf-8', { fatal: true })
+    const grid: Cell[][] = []
+    for (let row = 0; row < rows; row++) {
+      const rowCells: Cell[] = []
+      for (let col = 0; col < cols; col++) {
+        const isStart = row === start.row && col === start.col
+        const isFinish = row === finish.row && col === finish.col
+
+        let expression = ''
+        let answer: number | null = null
+        if (!isFinish && !isBlockedCell(topology, { row, col })) {
+          const ascii = decoder.decode(readBytes(cursor, readVarint(cursor)))
+          expression = ascii.replace(/[-*/]/g, op => ASCII_TO_OPERATOR[op])
+          answer = evaluateExpression(expression)
+          if (answer === null) {
+            return { success: false, error: `Cannot read expression "${expression}" at (${row},${col})` }
+          }
+        }
+
+        const cell: Cell = { row, col, expression, answer, isStart, isFinish }
+        if (checkpointKeys.has(coordToKey(cell))) cell.isCheckpoint = true
+        rowCells.push(cell)
+      }
+      grid.push(rowCells)
+    }
+
+    if (cursor.offset < cursor.bytes.length) {
+      return { success: false, error: 'Puzzle code has unexpected extra data' }
+    }
+
+    const structureError = checkDecodedStructure(grid, connectors, topology)
+    if (structureError) {
+      return { success: false, error: `Invalid puzzle: ${structureError}` }
+    }
+
+    const path = traceSolutionPath(grid, connectors, start, finish)
+    if (!path) {
+      return { success: false, error: 'Puzzle code has no path from START to FINISH' }
+    }
+
+    const puzzle: Puzzle = {
+      id: uuidv4(),
+      difficulty,
+      grid,
+      topology,
+      connectors,
+      solution: {
+        path,
+        steps: path.length - 1,
+      },
+    }
+
+    const validation = validatePuzzle(puzzle)
+    if (!validation.valid) {
+      return { success: false, error: `Invalid puzzle: ${validation.errors[0]}` }
+    }
+    puzzle.measuredDifficulty = analyzePuzzle(puzzle)
+
+    return { success: true, puzzle }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid puzzle code',
+    }
+  }
+}
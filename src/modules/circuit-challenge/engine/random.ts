@@ -0,0 +1,40 @@
+/**
+ * Source of uniformly distributed numbers in [0, 1), same contract as Math.random
+ */
+export type RandomSource = () => number
+
+/**
+ * Largest seed value (seeds are unsigned 32-bit integers)
+ */
+const MAX_SEED = 0xffffffff
+
+/**
+ * Create a deterministic random source from a seed (mulberry32)
+ * The same seed always produces the same sequence of numbers
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = normalizeSeed(seed)
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pick a fresh random seed for a puzzle that wasn't given one
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED)
+}
+
+/**
+ * Coerce any number into a valid unsigned 32-bit seed
+ */
+export function normalizeSeed(seed: number): number {
+  if (!Number.isFinite(seed)) return 0
+  return Math.floor(Math.abs(seed)) >>> 0
+}
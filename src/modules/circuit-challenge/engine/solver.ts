@@ -0,0 +1,105 @@
+import type { Cell, Coordinate, Puzzle } from '../types'
+import { findSolutionPaths } from './validator'
+import { formatNumber, isMissingNumberExpression, MISSING_NUMBER_SYMBOL } from './expressions'
+import { getNeighbours, getPuzzleTopology, isFinishCell } from './topology'
+
+/**
+ * A single solver step with a child-friendly explanation
+ */
+export interface SolverHint {
+  /** Cell the move starts from */
+  from: Coordinate
+  /** Cell the move goes to */
+  to: Coordinate
+  /** Expression shown in the starting cell */
+  expression: string
+  /** Answer to the expression */
+  answer: number
+  /** Value on the connector to take (always equal to the answer) */
+  connectorValue: number
+  /** Explanation, e.g. "3 × 4 = 12, take the 12 connector" */
+  explanation: string
+}
+
+/**
+ * Check if every checkpoint in a puzzle has been visited
+ */
+export function allCheckpointsVisited(puzzle: Puzzle, visitedCells: Coordinate[]): boolean {
+  return puzzle.grid.flat().every(
+    cell => !cell.isCheckpoint || visitedCells.some(c => c.row === cell.row && c.col === cell.col)
+  )
+}
+
+/**
+ * Cells the player can move to next: unvisited neighbours, with FINISH closed until every checkpoint is visited
+ */
+export function getAvailableMoves(puzzle: Puzzle, currentPosition: Coordinate, visitedCells: Coordinate[]): Coordinate[] {
+  const topology = getPuzzleTopology(puzzle)
+  const checkpointsDone = allCheckpointsVisited(puzzle, visitedCells)
+
+  return getNeighbours(topology, currentPosition).filter(coord =>
+    !visitedCells.some(c => c.row === coord.row && c.col === coord.col) &&
+    (checkpointsDone || !isFinishCell(topology, coord))
+  )
+}
+
+/**
+ * A cell's expression worked through to its answer, e.g. "3 × 4 = 12"
+ * Missing-number equations have the answer filled in ("? + 7 = 15" becomes "8 + 7 = 15")
+ */
+export function getWorkedAnswer(cell: Cell): string | null {
+  if (cell.answer === null) return null
+
+  const answer = formatNumber(cell.answer)
+  if (isMissingNumberExpression(cell.expression)) {
+    return cell.expression.replace(MISSING_NUMBER_SYMBOL, answer)
+  }
+  return `${cell.expression} = ${answer}`
+}
+
+/**
+ * Solve the rest of a puzzle from the given position
+ * Returns the route to FINISH (starting with the current cell), or null if none exists
+ */
+export function solvePuzzle(
+  puzzle: Puzzle,
+  currentPosition?: Coordinate,
+  visitedCells: Coordinate[] = []
+): Coordinate[] | null {
+  const search = findSolutionPaths(puzzle, {
+    from: currentPosition,
+    visited: visitedCells,
+    limit: 1,
+  })
+  return search.paths[0] ?? null
+}
+
+/**
+ * Get the next correct move from the current position, with an explanation
+ * Returns null at FINISH or when no route to FINISH remains
+ */
+export function getNextMove(
+  puzzle: Puzzle,
+  currentPosition: Coordinate,
+  visitedCells: Coordinate[] = []
+): SolverHint | null {
+  const route = solvePuzzle(puzzle, currentPosition, visitedCells)
+  if (!route || route.length < 2) {
+    return null
+  }
+
+  const cell = puzzle.grid[currentPosition.row][currentPosition.col]
+  const workedAnswer = getWorkedAnswer(cell)
+  if (cell.answer === null || workedAnswer === null) {
+    return null
+  }
+
+  return {
+    from: currentPosition,
+    to: route[1],
+    expression: cell.expression,
+    answer: cell.answer,
+    connectorValue: cell.answer,
+    explanation: `${workedAnswer}, take the ${formatNumber(cell.answer)} connector`,
+  }
+}
@@ -229,7 +229,16 @@ export function getStoryDifficulty(storyLevel: StoryLevel): DifficultySettings {
     minPathLength: calculateMinPathLength(grid.rows, grid.cols),
     maxPathLength: calculateMaxPathLength(grid.rows, grid.cols),
     weights,
+    maxOperations: 1,
+    mistakeDistractors: false,
+    fractionsEnabled: false,
+    decimalsEnabled: false,
+    percentagesEnabled: false,
+    missingNumberEnabled: false,
+    numberClues: false,
+    negativeNumbers: false,
     hiddenMode: isHidden,
+    undoRule: "off", // Every story run is scored for stars
     secondsPerStep: 5, // Used for 3-star calculation
   };
 
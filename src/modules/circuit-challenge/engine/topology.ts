@@ -0,0 +1,350 @@
+import type { Coordinate, EndpointLayout, GridTopology, Puzzle, TopologyKind } from '../types'
+import type { DifficultySettings } from './types'
+import { coordToKey, getAdjacent, manhattanDistance } from './pathfinder'
+import type { RandomSource } from './random'
+
+/**
+ * Neighbour offsets for hex rows (odd rows are shifted right by half a cell)
+ */
+const HEX_EVEN_ROW_OFFSETS = [
+  { row: 0, col: -1 },
+  { row: 0, col: 1 },
+  { row: -1, col: -1 },
+  { row: -1, col: 0 },
+  { row: 1, col: -1 },
+  { row: 1, col: 0 },
+]
+const HEX_ODD_ROW_OFFSETS = [
+  { row: 0, col: -1 },
+  { row: 0, col: 1 },
+  { row: -1, col: 0 },
+  { row: -1, col: 1 },
+  { row: 1, col: 0 },
+  { row: 1, col: 1 },
+]
+
+/**
+ * Create a grid topology (START and FINISH default to the top-left and bottom-right corners)
+ */
+export function createTopology(
+  rows: number,
+  cols: number,
+  kind: TopologyKind = 'square',
+  blockedCells: Coordinate[] = [],
+  start: Coordinate = { row: 0, col: 0 },
+  finish: Coordinate = { row: rows - 1, col: cols - 1 }
+): GridTopology {
+  return { kind, rows, cols, blockedCells, start, finish }
+}
+
+/**
+ * Topology described by difficulty settings
+ * Random endpoint layouts need a random source; without one they use the first and last open cells
+ */
+export function getDifficultyTopology(
+  difficulty: DifficultySettings,
+  random?: RandomSource
+): GridTopology {
+  const topology = createTopology(
+    difficulty.gridRows,
+    difficulty.gridCols,
+    difficulty.gridTopology ?? 'square',
+    difficulty.blockedCells ?? []
+  )
+  const endpoints = chooseEndpoints(topology, difficulty.endpointLayout ?? 'corners', random)
+  topology.start = difficulty.startCell ?? endpoints.start
+  topology.finish = difficulty.finishCell ?? endpoints.finish
+  return topology
+}
+
+/**
+ * Topology of a puzzle
+ * Puzzles made before topologies are plain rectangles, with START and FINISH read from the cells
+ */
+export function getPuzzleTopology(puzzle: Puzzle): GridTopology {
+  if (puzzle.topology) return puzzle.topology
+
+  const topology = createTopology(puzzle.grid.length, puzzle.grid[0]?.length ?? 0)
+  const cells = puzzle.grid.flat()
+  const start = cells.find(c => c.isStart)
+  const finish = cells.find(c => c.isFinish)
+  if (start) topology.start = { row: start.row, col: start.col }
+  if (finish) topology.finish = { row: finish.row, col: finish.col }
+  return topology
+}
+
+/**
+ * Check if a cell is the topology's START
+ */
+export function isStartCell(topology: GridTopology, coord: Coordinate): boolean {
+  return coord.row === topology.start.row && coord.col === topology.start.col
+}
+
+/**
+ * Check if a cell is the topology's FINISH
+ */
+export function isFinishCell(topology: GridTopology, coord: Coordinate): boolean {
+  return coord.row === topology.finish.row && coord.col === topology.finish.col
+}
+
+/**
+ * Check if a cell is one of the topology's blocked cells
+ */
+export function isBlockedCell(topology: GridTopology, coord: Coordinate): boolean {
+  return topology.blockedCells.some(c => c.row === coord.row && c.col === coord.col)
+}
+
+/**
+ * Check if a cell is part of the grid (within bounds and not blocked)
+ */
+export function isOpenCell(topology: GridTopology, coord: Coordinate): boolean {
+  return (
+    coord.row >= 0 && coord.row < topology.rows &&
+    coord.col >= 0 && coord.col < topology.cols &&
+    !isBlockedCell(topology, coord)
+  )
+}
+
+/**
+ * All cells that are part of the grid, in row order
+ */
+export function getOpenCells(topology: GridTopology): Coordinate[] {
+  const cells: Coordinate[] = []
+  for (let row = 0; row < topology.rows; row++) {
+    for (let col = 0; col < topology.cols; col++) {
+      if (!isBlockedCell(topology, { row, col })) {
+        cells.push({ row, col })
+      }
+    }
+  }
+  return cells
+}
+
+/**
+ * Cells a path can move to from the given cell
+ */
+export function getNeighbours(topology: GridTopology, coord: Coordinate): Coordinate[] {
+  if (topology.kind === 'square') {
+    return getAdjacent(coord, topology.rows, topology.cols).filter(c => !isBlockedCell(topology, c))
+  }
+
+  const offsets = coord.row % 2 === 0 ? HEX_EVEN_ROW_OFFSETS : HEX_ODD_ROW_OFFSETS
+  return offsets
+    .map(offset => ({ row: coord.row + offset.row, col: coord.col + offset.col }))
+    .filter(c => isOpenCell(topology, c))
+}
+
+/**
+ * Check if two cells neighbour each other
+ */
+export function areNeighbours(topology: GridTopology, a: Coordinate, b: Coordinate): boolean {
+  return isOpenCell(topology, a) && getNeighbours(topology, a).some(c => c.row === b.row && c.col === b.col)
+}
+
+/**
+ * Whether diagonal moves are limited to one diagonal per 2x2 block (so connectors never cross)
+ */
+export function usesDiagonalBlocks(topology: GridTopology): boolean {
+  return topology.kind === 'square'
+}
+
+/**
+ * Position of a cell's center in cell units (multiply by the renderer's spacing)
+ */
+export function getCellLayoutPosition(topology: GridTopology, coord: Coordinate): { x: number; y: number } {
+  const shift = topology.kind === 'hex' && coord.row % 2 === 1 ? 0.5 : 0
+  return { x: coord.col + shift, y: coord.row }
+}
+
+/**
+ * Smallest cosine between a direction and a cell for the cell to count as lying that way (just under 45°)
+ */
+const MIN_DIRECTION_COSINE = 0.75
+
+/**
+ * Option lying most nearly in a direction from a cell, for moving a cursor with the arrow keys
+ * Directions are in layout units with y pointing down, e.g. { x: 1, y: -1 } is up and to the right
+ * Options more than 45° off the direction are never picked
+ */
+export function getCellInDirection(
+  topology: GridTopology,
+  from: Coordinate,
+  options: Coordinate[],
+  direction: { x: number; y: number }
+): Coordinate | undefined {
+  const origin = getCellLayoutPosition(topology, from)
+  const directionLength = Math.hypot(direction.x, direction.y)
+  let best: Coordinate | undefined
+  let bestCosine = MIN_DIRECTION_COSINE
+
+  for (const option of options) {
+    const position = getCellLayoutPosition(topology, option)
+    const dx = position.x - origin.x
+    const dy = position.y - origin.y
+    const length = Math.hypot(dx, dy)
+    if (length === 0) continue
+
+    const cosine = (dx * direction.x + dy * direction.y) / (length * directionLength)
+    if (cosine > bestCosine) {
+      best = option
+      bestCosine = cosine
+    }
+  }
+
+  return best
+}
+
+/**
+ * Compass-style names for the eight directions a move can take, clockwise from up
+ */
+const DIRECTION_NAMES = ['up', 'up-right', 'right', 'down-right', 'down', 'down-left', 'left', 'up-left'] as const
+
+export type DirectionName = typeof DIRECTION_NAMES[number]
+
+/**
+ * Direction from one cell to another as it appears on screen, for reading moves out
+ */
+export function getDirectionName(topology: GridTopology, from: Coordinate, to: Coordinate): DirectionName {
+  const a = getCellLayoutPosition(topology, from)
+  const b = getCellLayoutPosition(topology, to)
+  // Angle clockwise from straight up (y points down)
+  const angle = Math.atan2(b.x - a.x, a.y - b.y)
+  const sector = Math.round(angle / (Math.PI / 4))
+  return DIRECTION_NAMES[(sector + 8) % 8]
+}
+
+/**
+ * Width and height of the grid from first to last cell center, in cell units
+ */
+export function getLayoutSize(topology: GridTopology): { width: number; height: number } {
+  const shift = topology.kind === 'hex' && topology.rows > 1 ? 0.5 : 0
+  return { width: topology.cols - 1 + shift, height: topology.rows - 1 }
+}
+
+/**
+ * Open cell nearest the middle of the grid (the first in row order on a tie)
+ */
+export function getCenterCell(topology: GridTopology): Coordinate | undefined {
+  const middle = { row: (topology.rows - 1) / 2, col: (topology.cols - 1) / 2 }
+  let best: Coordinate | undefined
+  let bestDistance = Infinity
+  for (const cell of getOpenCells(topology)) {
+    const distance = manhattanDistance(cell, middle)
+    if (distance < bestDistance) {
+      best = cell
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+/**
+ * Pick START and FINISH for a layout
+ * Only random-based layouts use the random source, so corner layouts never change the sequence
+ */
+export function chooseEndpoints(
+  topology: GridTopology,
+  layout: EndpointLayout,
+  random?: RandomSource
+): { start: Coordinate; finish: Coordinate } {
+  const corners = { start: { row: 0, col: 0 }, finish: { row: topology.rows - 1, col: topology.cols - 1 } }
+  const openCells = getOpenCells(topology)
+  if (openCells.length < 2) return corners
+
+  switch (layout) {
+    case 'corners':
+      return corners
+
+    case 'center-out': {
+      const start = getCenterCell(topology)!
+      const openCorners = [
+        { row: 0, col: 0 },
+        { row: 0, col: topology.cols - 1 },
+        { row: topology.rows - 1, col: 0 },
+        { row: topology.rows - 1, col: topology.cols - 1 },
+      ].filter(c => isOpenCell(topology, c) && !(c.row === start.row && c.col === start.col))
+      if (openCorners.length === 0) return corners
+      const finish = random
+        ? openCorners[Math.floor(random() * openCorners.length)]
+        : openCorners[openCorners.length - 1]
+      return { start, finish }
+    }
+
+    case 'random': {
+      if (!random) {
+        return { start: openCells[0], finish: openCells[openCells.length - 1] }
+      }
+      const start = openCells[Math.floor(random() * openCells.length)]
+      // FINISH must be at least half the grid away, so the path has room to wander
+      const minDistance = Math.floor((topology.rows + topology.cols) / 2)
+      const others = openCells.filter(c => !(c.row === start.row && c.col === start.col))
+      const farEnough = others.filter(c => manhattanDistance(c, start) >= minDistance)
+      const options = farEnough.length > 0 ? farEnough : others
+      return { start, finish: options[Math.floor(random() * options.length)] }
+    }
+  }
+}
+
+/**
+ * Check that a topology can hold a puzzle
+ * START and FINISH must be different open cells and every open cell reachable
+ */
+export function validateTopology(topology: GridTopology): string[] {
+  const errors: string[] = []
+  const { start, finish } = topology
+
+  if (!isOpenCell(topology, start)) {
+    errors.push(`The START cell (${start.row},${start.col}) must be an open cell in the grid`)
+  }
+  if (!isOpenCell(topology, finish)) {
+    errors.push(`The FINISH cell (${finish.row},${finish.col}) must be an open cell in the grid`)
+  }
+  if (start.row === finish.row && start.col === finish.col) {
+    errors.push('START and FINISH must be different cells')
+  }
+  if (errors.length > 0) return errors
+
+  const reached = new Set(getReachableCells(topology).map(coordToKey))
+  const unreachable = getOpenCells(topology).filter(c => !reached.has(coordToKey(c)))
+  if (unreachable.length > 0) {
+    errors.push(
+      `${unreachable.length} cell${unreachable.length === 1 ? ' is' : 's are'} cut off from START by blocked cells`
+    )
+  }
+
+  return errors
+}
+
+/**
+ * Flood fill from START, returning every open cell a path could reach
+ */
+export function getReachableCells(topology: GridTopology): Coordinate[] {
+  const { start } = topology
+  if (!isOpenCell(topology, start)) return []
+
+  const reached = new Set<string>([coordToKey(start)])
+  const cells = [start]
+  for (let i = 0; i < cells.length; i++) {
+    for (const next of getNeighbours(topology, cells[i])) {
+      const key = coordToKey(next)
+      if (!reached.has(key)) {
+        reached.add(key)
+        cells.push(next)
+      }
+    }
+  }
+  return cells
+}
+
+/**
+ * A regular pattern of holes for a grid, keeping away from the edges, START and FINISH
+ */
+export function getHolePattern(rows: number, cols: number): Coordinate[] {
+  const holes: Coordinate[] = []
+  for (let row = 1; row < rows - 1; row += 2) {
+    for (let col = 1 + (row % 4 === 3 ? 1 : 0); col < cols - 1; col += 3) {
+      holes.push({ row, col })
+    }
+  }
+  return holes
+}
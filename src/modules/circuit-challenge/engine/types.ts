@@ -1,4 +1,4 @@
-import type { Puzzle } from '../types'
+import type { Coordinate, EndpointLayout, Puzzle, TopologyKind } from '../types'
 
 /**
  * Arithmetic operations used in expressions
@@ -15,6 +15,14 @@ export interface OperationWeights {
   division: number
 }
 
+/**
+ * When a player may step back a move
+ * - free: any time, at no cost
+ * - paid: any time, for a few coins
+ * - off: never
+ */
+export type UndoRule = 'free' | 'paid' | 'off'
+
 /**
  * Difficulty settings for puzzle generation
  */
@@ -45,6 +53,18 @@ export interface DifficultySettings {
   gridRows: number
   /** Number of columns in the grid */
   gridCols: number
+  /** Cell layout (default: square) */
+  gridTopology?: TopologyKind
+  /** Cells left out of the grid for holes and irregular shapes (default: none) */
+  blockedCells?: Coordinate[]
+  /** Where START and FINISH go (default: corners) */
+  endpointLayout?: EndpointLayout
+  /** Fixed START cell, overriding the layout */
+  startCell?: Coordinate
+  /** Fixed FINISH cell, overriding the layout */
+  finishCell?: Coordinate
+  /** Cells the path must pass through before FINISH (default: 0) */
+  checkpointCount?: number
 
   /** Minimum path length */
   minPathLength: number
@@ -54,19 +74,81 @@ export interface DifficultySettings {
   /** Weights for operation selection */
   weights: OperationWeights
 
+  /** Most operations in one cell's expression (1 = simple "a + b" sums, default: 1) */
+  maxOperations?: number
+
+  /** Whether off-path connectors near the solution use common-mistake values (default: false) */
+  mistakeDistractors?: boolean
+
+  /** Whether some cells use fractions of amounts ("½ of 18", default: false) */
+  fractionsEnabled?: boolean
+  /** Whether some cells use decimal addition ("2.5 + 1.5", default: false) */
+  decimalsEnabled?: boolean
+  /** Whether some cells use percentages of amounts ("10% of 60", default: false) */
+  percentagesEnabled?: boolean
+
+  /** Whether some cells show a missing-number equation ("? + 7 = 15") instead of a sum (default: false) */
+  missingNumberEnabled?: boolean
+
+  /** Whether cells show number-property clues ("square of 6") instead of arithmetic (default: false) */
+  numberClues?: boolean
+
+  /** Whether connector values and sums may be negative (connectorMin can then be below 1, default: false) */
+  negativeNumbers?: boolean
+
   /** Whether to use hidden mode (no lives, reveal at end) */
   hiddenMode: boolean
 
+  /** Whether to play in reverse: the path is shown and each cell's answer is typed in (default: false) */
+  reverseMode?: boolean
+
+  /** Whether to play without a timer or lives, showing the worked answer after mistakes (default: false) */
+  practiceMode?: boolean
+
+  /** When moves can be undone (default: 'paid'; always off in hidden mode) */
+  undoRule?: UndoRule
+
   /** Seconds allowed per step for timer calculation */
   secondsPerStep: number
 }
 
+/**
+ * Pipeline step where a generation attempt gave up
+ */
+export type GenerationStep = 'topology' | 'path' | 'values' | 'validation' | 'error'
+
+/**
+ * Why a single generation attempt failed
+ */
+export interface GenerationAttemptFailure {
+  /** Attempt number (1-based) */
+  attempt: number
+  /** Step that failed */
+  step: GenerationStep
+  /** Error messages from that step (validation errors, path or value errors) */
+  errors: string[]
+}
+
+/**
+ * Structured explanation of a failed generation run
+ */
+export interface GenerationDiagnostics {
+  /** Number of attempts made */
+  attempts: number
+  /** Failure details for every attempt */
+  failures: GenerationAttemptFailure[]
+  /** Number of failed attempts per step */
+  failuresByStep: Record<GenerationStep, number>
+  /** Plain-language suggestions for settings to change */
+  suggestions: string[]
+}
+
 /**
  * Result of puzzle generation
  */
 export type GenerationResult =
   | { success: true; puzzle: Puzzle }
-  | { success: false; error: string }
+  | { success: false; error: string; diagnostics: GenerationDiagnostics }
 
 /**
  * Expression component for building arithmetic expressions
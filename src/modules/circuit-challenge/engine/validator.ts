@@ -1,7 +1,17 @@
-import type { Coordinate, Cell, Connector, Puzzle } from '../types'
+import type { Coordinate, Cell, Connector, GridTopology, Puzzle } from '../types'
 import { coordToKey } from './pathfinder'
-import { getCellConnectors, getConnectorBetween, areAdjacent } from './connectors'
+import { getCellConnectors, getConnectorBetween, getOtherCell } from './connectors'
 import { evaluateExpression } from './expressions'
+import {
+  areNeighbours,
+  createTopology,
+  getPuzzleTopology,
+  isBlockedCell,
+  isFinishCell,
+  isOpenCell,
+  isStartCell,
+  validateTopology,
+} from './topology'
 
 /**
  * Result of validation
@@ -14,11 +24,13 @@ export interface ValidationResult {
 
 /**
  * Validate that a path is correctly formed
+ * Cells must be open and neighbours in the topology (default: a plain rectangle)
  */
 export function validatePath(
   path: Coordinate[],
   rows: number,
-  cols: number
+  cols: number,
+  topology: GridTopology = createTopology(rows, cols)
 ): ValidationResult {
   const errors: string[] = []
   const warnings: string[] = []
@@ -29,15 +41,16 @@ export function validatePath(
     return { valid: false, errors, warnings }
   }
 
-  // First element must be START (0, 0)
-  if (path[0].row !== 0 || path[0].col !== 0) {
-    errors.push(`Path must start at (0,0), but starts at (${path[0].row},${path[0].col})`)
+  // First element must be START
+  const { start, finish } = topology
+  if (path[0].row !== start.row || path[0].col !== start.col) {
+    errors.push(`Path must start at (${start.row},${start.col}), but starts at (${path[0].row},${path[0].col})`)
   }
 
-  // Last element must be FINISH (rows-1, cols-1)
+  // Last element must be FINISH
   const last = path[path.length - 1]
-  if (last.row !== rows - 1 || last.col !== cols - 1) {
-    errors.push(`Path must end at (${rows - 1},${cols - 1}), but ends at (${last.row},${last.col})`)
+  if (last.row !== finish.row || last.col !== finish.col) {
+    errors.push(`Path must end at (${finish.row},${finish.col}), but ends at (${last.row},${last.col})`)
   }
 
   // Check for valid adjacency and no duplicates
@@ -50,6 +63,8 @@ export function validatePath(
     // Check bounds
     if (coord.row < 0 || coord.row >= rows || coord.col < 0 || coord.col >= cols) {
       errors.push(`Path coordinate (${coord.row},${coord.col}) is out of bounds`)
+    } else if (!isOpenCell(topology, coord)) {
+      errors.push(`Path goes through blocked cell (${coord.row},${coord.col})`)
     }
 
     // Check for duplicates
@@ -61,7 +76,7 @@ export function validatePath(
     // Check adjacency with previous cell
     if (i > 0) {
       const prev = path[i - 1]
-      if (!areAdjacent(prev, coord)) {
+      if (!areNeighbours(topology, prev, coord)) {
         errors.push(`Non-adjacent cells in path: (${prev.row},${prev.col}) to (${coord.row},${coord.col})`)
       }
     }
@@ -101,18 +116,45 @@ export function validateConnectorUniqueness(
   return { valid: errors.length === 0, errors, warnings }
 }
 
+/**
+ * Validate that every connector joins two neighbouring open cells of the topology
+ */
+export function validateConnectorTopology(
+  connectors: Connector[],
+  topology: GridTopology
+): ValidationResult {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  for (const c of connectors) {
+    if (!areNeighbours(topology, c.cellA, c.cellB)) {
+      errors.push(
+        `Connector between (${c.cellA.row},${c.cellA.col}) and (${c.cellB.row},${c.cellB.col}) doesn't join neighbouring cells`
+      )
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings }
+}
+
 /**
  * Validate that cell answers match exactly one connector
+ * Blocked cells in the topology are skipped
  */
 export function validateCellAnswers(
   cells: Cell[][],
-  connectors: Connector[]
+  connectors: Connector[],
+  topology?: GridTopology
 ): ValidationResult {
   const errors: string[] = []
   const warnings: string[] = []
 
   for (const row of cells) {
     for (const cell of row) {
+      if (topology && isBlockedCell(topology, cell)) {
+        continue
+      }
+
       // FINISH cell should have null answer
       if (cell.isFinish) {
         if (cell.answer !== null) {
@@ -176,17 +218,38 @@ export function validateSolutionPath(
   return { valid: errors.length === 0, errors, warnings }
 }
 
+/**
+ * Validate that every checkpoint is an ordinary cell the solution passes through
+ */
+export function validateCheckpoints(cells: Cell[][], path: Coordinate[]): ValidationResult {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const pathKeys = new Set(path.map(coordToKey))
+
+  for (const cell of cells.flat()) {
+    if (!cell.isCheckpoint) continue
+    if (cell.isStart || cell.isFinish) {
+      errors.push(`Checkpoint (${cell.row},${cell.col}) can't be START or FINISH`)
+    } else if (!pathKeys.has(coordToKey(cell))) {
+      errors.push(`Checkpoint (${cell.row},${cell.col}) is not on the solution path`)
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings }
+}
+
 /**
  * Validate that all expressions evaluate correctly
+ * Blocked cells in the topology are skipped
  */
-export function validateExpressions(cells: Cell[][]): ValidationResult {
+export function validateExpressions(cells: Cell[][], topology?: GridTopology): ValidationResult {
   const errors: string[] = []
   const warnings: string[] = []
 
   for (const row of cells) {
     for (const cell of row) {
-      // Skip START and FINISH
-      if (cell.isStart || cell.isFinish) {
+      // Skip START, FINISH and blocked cells
+      if (cell.isStart || cell.isFinish || (topology && isBlockedCell(topology, cell))) {
         continue
       }
 
@@ -212,6 +275,151 @@ export function validateExpressions(cells: Cell[][]): ValidationResult {
   return { valid: errors.length === 0, errors, warnings }
 }
 
+/**
+ * Options for searching routes through a puzzle
+ */
+export interface SolutionSearchOptions {
+  /** Cell to search from (default: START) */
+  from?: Coordinate
+  /** Cells that may not be entered again (default: none besides the starting cell) */
+  visited?: Coordinate[]
+  /** Maximum number of routes to collect (default: 100) */
+  limit?: number
+  /** Maximum number of cells to step into before giving up (default: 100000) */
+  maxSteps?: number
+}
+
+/**
+ * Routes to FINISH that follow the cell answers
+ */
+export interface SolutionSearchResult {
+  /** Every complete route found (up to the limit) */
+  paths: Coordinate[][]
+  /** Cells where a route got stuck before reaching FINISH */
+  deadEnds: Coordinate[]
+  /** Whether the search stopped early because it hit the limit */
+  truncated: boolean
+  /** Whether the search gave up after maxSteps, so the routes found may not be all of them */
+  exhausted: boolean
+}
+
+/**
+ * Default step budget for route searches
+ * Puzzles whose cells each match one connector need only one step per cell;
+ * anything that branches this much can't be a fair puzzle
+ */
+const DEFAULT_MAX_SEARCH_STEPS = 100000
+
+/**
+ * Enumerate every route to FINISH consistent with the cell answers
+ * From each cell a route may only take a connector whose value equals the cell's answer,
+ * and may not revisit a cell
+ */
+export function findSolutionPaths(
+  puzzle: Puzzle,
+  options: SolutionSearchOptions = {}
+): SolutionSearchResult {
+  const limit = options.limit ?? 100
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_SEARCH_STEPS
+  const cells = puzzle.grid.flat()
+  const startCell = cells.find(c => c.isStart) ?? puzzle.grid[0]?.[0]
+  const finishCell = cells.find(c => c.isFinish)
+
+  const paths: Coordinate[][] = []
+  const deadEnds = new Map<string, Coordinate>()
+  let truncated = false
+  let exhausted = false
+  let steps = 0
+
+  if (!startCell || !finishCell) {
+    return { paths, deadEnds: [], truncated, exhausted }
+  }
+
+  const start = options.from ?? { row: startCell.row, col: startCell.col }
+  const path: Coordinate[] = [start]
+  const visited = new Set<string>([coordToKey(start), ...(options.visited ?? []).map(coordToKey)])
+
+  const search = (current: Coordinate) => {
+    if (paths.length >= limit) {
+      truncated = true
+      return
+    }
+    if (exhausted || ++steps > maxSteps) {
+      exhausted = true
+      return
+    }
+
+    if (current.row === finishCell.row && current.col === finishCell.col) {
+      paths.push([...path])
+      return
+    }
+
+    const answer = puzzle.grid[current.row][current.col].answer
+    const nextCells = answer === null
+      ? []
+      : getCellConnectors(current, puzzle.connectors)
+          .filter(c => c.value === answer)
+          .map(c => getOtherCell(c, current))
+          .filter(next => !visited.has(coordToKey(next)))
+
+    if (nextCells.length === 0) {
+      deadEnds.set(coordToKey(current), current)
+      return
+    }
+
+    for (const next of nextCells) {
+      const key = coordToKey(next)
+      visited.add(key)
+      path.push(next)
+      search(next)
+      path.pop()
+      visited.delete(key)
+    }
+  }
+
+  search(start)
+
+  return { paths, deadEnds: [...deadEnds.values()], truncated, exhausted }
+}
+
+/**
+ * Validate that the intended solution path is the only route from START to FINISH
+ */
+export function validateUniqueSolution(puzzle: Puzzle): ValidationResult {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  const { paths, deadEnds, truncated, exhausted } = findSolutionPaths(puzzle)
+
+  if (paths.length > 1) {
+    errors.push(
+      `Puzzle is ambiguous: ${truncated || exhausted ? 'at least ' : ''}${paths.length} routes from START reach FINISH`
+    )
+  } else if (exhausted) {
+    errors.push('Could not prove the solution is unique: the route search gave up')
+  } else if (paths.length === 0) {
+    const stuck = deadEnds[0]
+    errors.push(
+      stuck
+        ? `No route from START reaches FINISH (stuck at (${stuck.row},${stuck.col}))`
+        : 'No route from START reaches FINISH'
+    )
+  } else {
+    const intended = puzzle.solution.path
+    const found = paths[0]
+    const matches = found.length === intended.length &&
+      found.every((c, i) => c.row === intended[i].row && c.col === intended[i].col)
+    if (!matches) {
+      errors.push('The only route from START to FINISH differs from the intended solution path')
+    }
+    for (const cell of deadEnds) {
+      warnings.push(`Route following cell answers gets stuck at (${cell.row},${cell.col})`)
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings }
+}
+
 /**
  * Run all validations on a complete puzzle
  */
@@ -221,32 +429,67 @@ export function validatePuzzle(puzzle: Puzzle): ValidationResult {
 
   const rows = puzzle.grid.length
   const cols = puzzle.grid[0]?.length ?? 0
+  const topology = getPuzzleTopology(puzzle)
+
+  // Validate grid shape
+  if (topology.rows !== rows || topology.cols !== cols) {
+    allErrors.push(`Topology is ${topology.rows}×${topology.cols} but the grid is ${rows}×${cols}`)
+  }
+  allErrors.push(...validateTopology(topology))
+
+  // START and FINISH flags must match the topology's endpoints
+  for (const cell of puzzle.grid.flat()) {
+    if (cell.isStart !== isStartCell(topology, cell) || cell.isFinish !== isFinishCell(topology, cell)) {
+      allErrors.push(`Cell (${cell.row},${cell.col}) has START/FINISH flags that don't match the grid`)
+    }
+  }
 
   // Validate path
-  const pathResult = validatePath(puzzle.solution.path, rows, cols)
+  const pathResult = validatePath(puzzle.solution.path, rows, cols, topology)
   allErrors.push(...pathResult.errors)
   allWarnings.push(...pathResult.warnings)
 
+  // Validate connectors follow the grid shape
+  const connectorTopologyResult = validateConnectorTopology(puzzle.connectors, topology)
+  allErrors.push(...connectorTopologyResult.errors)
+  allWarnings.push(...connectorTopologyResult.warnings)
+
   // Validate connector uniqueness
   const connectorResult = validateConnectorUniqueness(puzzle.connectors, rows, cols)
   allErrors.push(...connectorResult.errors)
   allWarnings.push(...connectorResult.warnings)
 
   // Validate cell answers
-  const cellResult = validateCellAnswers(puzzle.grid, puzzle.connectors)
+  const cellResult = validateCellAnswers(puzzle.grid, puzzle.connectors, topology)
   allErrors.push(...cellResult.errors)
   allWarnings.push(...cellResult.warnings)
 
+  // A cell matching no connector or several already rules the puzzle out,
+  // and several matches would make the route searches below branch
+  if (!cellResult.valid) {
+    return { valid: false, errors: allErrors, warnings: allWarnings }
+  }
+
   // Validate solution path
   const solutionResult = validateSolutionPath(puzzle.solution.path, puzzle.grid, puzzle.connectors)
   allErrors.push(...solutionResult.errors)
   allWarnings.push(...solutionResult.warnings)
 
+  // Validate checkpoints
+  const checkpointResult = validateCheckpoints(puzzle.grid, puzzle.solution.path)
+  allErrors.push(...checkpointResult.errors)
+  allWarnings.push(...checkpointResult.warnings)
+
   // Validate expressions
-  const expressionResult = validateExpressions(puzzle.grid)
+  const expressionResult = validateExpressions(puzzle.grid, topology)
   allErrors.push(...expressionResult.errors)
   allWarnings.push(...expressionResult.warnings)
 
+  // Validate that the solution is the only one
+  const uniquenessResult = validateUniqueSolution(puzzle)
+  allErrors.push(...uniquenessResult.errors)
+  allWarnings.push(...uniquenessResult.warnings)
+
   return {
     valid: allErrors.length === 0,
     errors: allErrors,
@@ -1,6 +1,7 @@
 import type { Connector, Coordinate } from '../types'
 import type { UnvaluedConnector } from './connectors'
 import { coordToKey } from './pathfinder'
+import type { RandomSource } from './random'
 
 /**
  * Result of connector value assignment
@@ -16,10 +17,10 @@ export interface ValueAssignmentResult {
 /**
  * Fisher-Yates shuffle - returns a new shuffled array
  */
-export function shuffle<T>(array: T[]): T[] {
+export function shuffle<T>(array: T[], random: RandomSource = Math.random): T[] {
   const result = [...array]
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(random() * (i + 1))
     ;[result[i], result[j]] = [result[j], result[i]]
   }
   return result
@@ -28,15 +29,15 @@ export function shuffle<T>(array: T[]): T[] {
 /**
  * Pick a random element from an array
  */
-export function randomChoice<T>(array: T[]): T {
-  return array[Math.floor(Math.random() * array.length)]
+export function randomChoice<T>(array: T[], random: RandomSource = Math.random): T {
+  return array[Math.floor(random() * array.length)]
 }
 
 /**
  * Generate a random integer in range [min, max] inclusive
  */
-export function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min
+export function randomInt(min: number, max: number, random: RandomSource = Math.random): number {
+  return Math.floor(random() * (max - min + 1)) + min
 }
 
 /**
@@ -79,7 +80,8 @@ function assignValueToConnector(
   minValue: number,
   maxValue: number,
   preferSmall: boolean = false,
-  maxSmallValue: number = 12
+  maxSmallValue: number = 12,
+  random: RandomSource = Math.random
 ): number | null {
   const connector = unvaluedConnectors[index]
   const keyA = coordToKey(connector.cellA)
@@ -118,11 +120,11 @@ function assignValueToConnector(
   if (preferSmall) {
     const smallValues = available.filter(v => v <= maxSmallValue)
     if (smallValues.length > 0) {
-      return randomChoice(smallValues)
+      return randomChoice(smallValues, random)
     }
   }
 
-  return randomChoice(available)
+  return randomChoice(available, random)
 }
 
 /**
@@ -139,7 +141,8 @@ export function assignConnectorValues(
   maxValue: number,
   divisionEnabled: boolean = false,
   solutionPath: Coordinate[] = [],
-  multDivRange: number = 12
+  multDivRange: number = 12,
+  random: RandomSource = Math.random
 ): ValueAssignmentResult {
   // Build map: cellKey -> list of connector indices touching that cell
   const cellConnectorMap = new Map<string, number[]>()
@@ -176,7 +179,7 @@ export function assignConnectorValues(
 
     // Reserve ~25% of path connectors for division
     const numDivisionConnectors = Math.max(1, Math.floor(pathConnectorIndices.length * DIVISION_CONNECTOR_RATIO))
-    const shuffledPathIndices = shuffle(pathConnectorIndices)
+    const shuffledPathIndices = shuffle(pathConnectorIndices, random)
     divisionConnectorIndices = shuffledPathIndices.slice(0, numDivisionConnectors)
 
     // Assign division connectors FIRST with small values (1 to multDivRange)
@@ -189,7 +192,8 @@ export function assignConnectorValues(
         Math.max(1, minValue), // Ensure min is at least 1 for division
         Math.min(multDivRange, maxValue), // Cap at multDivRange for division
         true, // Prefer small values
-        multDivRange
+        multDivRange,
+        random
       )
 
       if (value === null) {
@@ -201,7 +205,9 @@ export function assignConnectorValues(
           cellConnectorMap,
           minValue,
           maxValue,
-          false
+          false,
+          undefined,
+          random
         )
         if (fallbackValue === null) {
           const connector = unvaluedConnectors[index]
@@ -224,7 +230,8 @@ export function assignConnectorValues(
 
   // Assign remaining connectors in shuffled order
   const remainingIndices = shuffle(
-    [...Array(unvaluedConnectors.length).keys()].filter(i => !assignedIndices.has(i))
+    [...Array(unvaluedConnectors.length).keys()].filter(i => !assignedIndices.has(i)),
+    random
   )
 
   for (const index of remainingIndices) {
@@ -235,7 +242,9 @@ export function assignConnectorValues(
       cellConnectorMap,
       minValue,
       maxValue,
-      false
+      false,
+      undefined,
+      random
     )
 
     if (value === null) {
@@ -0,0 +1,319 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  gameReducer,
+  createInitialGameState,
+  canPauseGame,
+  getUndoRule,
+  HINT_COIN_COST,
+  MAX_ANSWER_DIGITS,
+  UNDO_COIN_COST,
+} from '../gameReducer'
+import { getDifficultyByLevel } from '../../engine/difficulty'
+import { createSeededPuzzle } from '@/test/factories'
+import { getAvailableMoves, getWorkedAnswer } from '../../engine/solver'
+import type { DifficultySettings } from '../../engine/types'
+import type { Coordinate } from '../../types'
+import type { GameAction, GameState } from '../../types/gameState'
+
+/**
+ * A seeded puzzle with the clock started, ready for the first move
+ */
+function startGame(overrides: Partial<DifficultySettings> = {}): GameState {
+  const actions: GameAction[] = [
+    { type: 'PUZZLE_GENERATED', payload: createSeededPuzzle() },
+    { type: 'START_TIMER' },
+  ]
+  return actions.reduce(
+    gameReducer,
+    createInitialGameState({ ...getDifficultyByLevel(1), ...overrides })
+  )
+}
+
+/**
+ * Take the first step of the solution
+ */
+function moveCorrectly(state: GameState): GameState {
+  return gameReducer(state, { type: 'MAKE_MOVE', payload: state.puzzle!.solution.path[1] })
+}
+
+/**
+ * A neighbour of the current cell that isn't the next step of the solution
+ */
+function getWrongStep(state: GameState): Coordinate {
+  const path = state.puzzle!.solution.path
+  const next = path[path.findIndex(c => c.row === state.currentPosition.row && c.col === state.currentPosition.col) + 1]
+  const wrong = getAvailableMoves(state.puzzle!, state.currentPosition, state.visitedCells)
+    .find(c => c.row !== next.row || c.col !== next.col)
+  if (!wrong) throw new Error('No wrong move available')
+  return wrong
+}
+
+describe('Hints', () => {
+  it('shows the next step and deducts the hint cost', () => {
+    const state = gameReducer({ ...startGame(), puzzleCoins: 50 }, { type: 'REQUEST_HINT' })
+
+    expect(state.hint?.to).toEqual(state.puzzle!.solution.path[1])
+    expect(state.hintsUsed).toBe(1)
+    expect(state.puzzleCoins).toBe(50 - HINT_COIN_COST)
+  })
+
+  it('never takes the coin total below zero', () => {
+    const state = gameReducer({ ...startGame(), puzzleCoins: HINT_COIN_COST - 5 }, { type: 'REQUEST_HINT' })
+
+    expect(state.hint).not.toBeNull()
+    expect(state.puzzleCoins).toBe(0)
+  })
+
+  it('gives no hints in hidden mode', () => {
+    const game = { ...startGame({ hiddenMode: true }), puzzleCoins: 50 }
+
+    expect(game.isHiddenMode).toBe(true)
+    expect(gameReducer(game, { type: 'REQUEST_HINT' })).toBe(game)
+  })
+})
+
+describe('Reverse Mode', () => {
+  /**
+   * Type an answer on the keypad, one digit at a time
+   */
+  function typeAnswer(state: GameState, answer: number): GameState {
+    const actions: GameAction[] = String(answer).split('').map(digit =>
+      digit === '-' ? { type: 'TOGGLE_ANSWER_SIGN' } : { type: 'ENTER_DIGIT', payload: digit }
+    )
+    return actions.reduce(gameReducer, state)
+  }
+
+  it('starts in the answering state', () => {
+    expect(startGame({ reverseMode: true }).status).toBe('answering')
+  })
+
+  it(`stops taking digits after ${MAX_ANSWER_DIGITS}`, () => {
+    const state = typeAnswer(startGame({ reverseMode: true }), 123456)
+
+    expect(state.answerInput).toBe('123456'.slice(0, MAX_ANSWER_DIGITS))
+  })
+
+  it('only toggles the sign when negative numbers are on', () => {
+    const positive = typeAnswer(startGame({ reverseMode: true, negativeNumbers: false }), 7)
+    expect(gameReducer(positive, { type: 'TOGGLE_ANSWER_SIGN' }).answerInput).toBe('7')
+
+    const signed = typeAnswer(startGame({ reverseMode: true, negativeNumbers: true }), 7)
+    expect(gameReducer(signed, { type: 'TOGGLE_ANSWER_SIGN' }).answerInput).toBe('-7')
+  })
+
+  it('ignores the keypad once the game is over', () => {
+    const game = { ...startGame({ reverseMode: true, negativeNumbers: true }), answerInput: '12' }
+
+    for (const status of ['won', 'lost'] as const) {
+      const over = { ...game, status }
+      expect(gameReducer(over, { type: 'ENTER_DIGIT', payload: '3' })).toBe(over)
+      expect(gameReducer(over, { type: 'DELETE_DIGIT' })).toBe(over)
+      expect(gameReducer(over, { type: 'TOGGLE_ANSWER_SIGN' })).toBe(over)
+    }
+  })
+
+  it('ignores the keypad outside reverse mode', () => {
+    const game = { ...startGame(), answerInput: '12' }
+
+    expect(gameReducer(game, { type: 'ENTER_DIGIT', payload: '3' })).toBe(game)
+    expect(gameReducer(game, { type: 'DELETE_DIGIT' })).toBe(game)
+  })
+
+  it('moves along the path for a correct answer', () => {
+    const game = startGame({ reverseMode: true })
+    const [start, next] = game.puzzle!.solution.path
+    const answer = game.puzzle!.grid[start.row][start.col].answer!
+
+    const state = gameReducer(typeAnswer(game, answer), { type: 'SUBMIT_ANSWER' })
+
+    expect(state.currentPosition).toEqual(next)
+    expect(state.traversedConnectors).toEqual([{ cellA: start, cellB: next }])
+    expect(state.answerInput).toBe('')
+    expect(state.lives).toBe(game.lives)
+  })
+
+  it('costs a life for a wrong answer and stays on the cell', () => {
+    const game = startGame({ reverseMode: true })
+    const [start] = game.puzzle!.solution.path
+    const answer = game.puzzle!.grid[start.row][start.col].answer!
+
+    const state = gameReducer(typeAnswer(game, answer + 1), { type: 'SUBMIT_ANSWER' })
+
+    expect(state.currentPosition).toEqual(start)
+    expect(state.lives).toBe(game.lives - 1)
+    expect(state.moveHistory.map(m => m.correct)).toEqual([false])
+    expect(state.answerInput).toBe('')
+  })
+})
+
+describe('Undo', () => {
+  it('follows the difficulty rule, with paid undo by default', () => {
+    expect(getUndoRule(startGame({ undoRule: 'free' }))).toBe('free')
+    expect(getUndoRule(startGame({ undoRule: 'off' }))).toBe('off')
+    expect(getUndoRule(startGame({ undoRule: undefined }))).toBe('paid')
+  })
+
+  it('is always off in hidden mode', () => {
+    const game = moveCorrectly(startGame({ hiddenMode: true, undoRule: 'free' }))
+
+    expect(getUndoRule(game)).toBe('off')
+    expect(gameReducer(game, { type: 'UNDO_MOVE' })).toBe(game)
+  })
+
+  it('steps back for free under the free rule', () => {
+    const game = startGame({ undoRule: 'free' })
+    const moved = moveCorrectly(game)
+
+    const state = gameReducer(moved, { type: 'UNDO_MOVE' })
+
+    expect(state.currentPosition).toEqual(game.currentPosition)
+    expect(state.visitedCells).toEqual(game.visitedCells)
+    expect(state.puzzleCoins).toBe(game.puzzleCoins)
+  })
+
+  it('deducts the undo cost under the paid rule', () => {
+    const moved = moveCorrectly({ ...startGame({ undoRule: 'paid' }), puzzleCoins: 50 })
+
+    const state = gameReducer(moved, { type: 'UNDO_MOVE' })
+
+    expect(state.currentPosition).toEqual(moved.puzzle!.solution.path[0])
+    expect(state.puzzleCoins).toBe(50 - UNDO_COIN_COST)
+  })
+
+  it('takes back the coins a correct move earned', () => {
+    const game = { ...startGame({ undoRule: 'free' }), puzzleCoins: 50 }
+    const moved = moveCorrectly(game)
+    expect(moved.puzzleCoins).toBeGreaterThan(game.puzzleCoins)
+
+    // Moving and stepping back over and over can't add up coins
+    const again = moveCorrectly(gameReducer(moved, { type: 'UNDO_MOVE' }))
+    expect(gameReducer(again, { type: 'UNDO_MOVE' }).puzzleCoins).toBe(game.puzzleCoins)
+  })
+
+  it('keeps penalties paid since the step', () => {
+    const moved = moveCorrectly({ ...startGame({ undoRule: 'free' }), puzzleCoins: 50 })
+    const mistaken = gameReducer(moved, { type: 'MAKE_MOVE', payload: getWrongStep(moved) })
+    expect(mistaken.puzzleCoins).toBeLessThan(50)
+
+    expect(gameReducer(mistaken, { type: 'UNDO_MOVE' }).puzzleCoins).toBe(mistaken.puzzleCoins)
+  })
+
+  it('refuses a paid undo without the coins to pay for it', () => {
+    const moved = { ...moveCorrectly(startGame({ undoRule: 'paid' })), puzzleCoins: UNDO_COIN_COST - 1 }
+
+    expect(gameReducer(moved, { type: 'UNDO_MOVE' })).toBe(moved)
+  })
+
+  it('does nothing under the off rule', () => {
+    const moved = moveCorrectly(startGame({ undoRule: 'off' }))
+
+    expect(gameReducer(moved, { type: 'UNDO_MOVE' })).toBe(moved)
+  })
+
+  it('keeps mistakes counted after stepping back', () => {
+    const moved = moveCorrectly(startGame({ undoRule: 'free' }))
+    const mistaken = gameReducer(moved, { type: 'MAKE_MOVE', payload: getWrongStep(moved) })
+    expect(mistaken.lives).toBe(moved.lives - 1)
+
+    const state = gameReducer(mistaken, { type: 'UNDO_MOVE' })
+
+    expect(state.moveHistory.map(m => m.correct)).toEqual([false])
+    expect(state.lives).toBe(mistaken.lives)
+  })
+})
+
+describe('Practice Mode', () => {
+  it('keeps every life after a wrong move and shows the worked answer', () => {
+    const game = startGame({ practiceMode: true })
+    const [start] = game.puzzle!.solution.path
+
+    const state = gameReducer(game, { type: 'MAKE_MOVE', payload: getWrongStep(game) })
+
+    expect(state.lives).toBe(game.lives)
+    expect(state.currentPosition).toEqual(start)
+    expect(state.moveHistory.map(m => m.correct)).toEqual([false])
+    expect(state.workedAnswer).toBe(getWorkedAnswer(game.puzzle!.grid[start.row][start.col]))
+  })
+
+  it('clears the worked answer after the next correct move', () => {
+    const game = startGame({ practiceMode: true })
+    const mistaken = gameReducer(game, { type: 'MAKE_MOVE', payload: getWrongStep(game) })
+
+    expect(moveCorrectly(mistaken).workedAnswer).toBeNull()
+  })
+
+  it('runs without a clock', () => {
+    const game = startGame({ practiceMode: true })
+
+    expect(game.status).toBe('playing')
+    expect(game.isTimerRunning).toBe(false)
+  })
+})
+
+describe('Pause', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  /**
+   * Run an action with the clock at the given time
+   */
+  function at(now: number, state: GameState, action: GameAction): GameState {
+    vi.spyOn(Date, 'now').mockReturnValue(now)
+    return gameReducer(state, action)
+  }
+
+  it('only pauses once play has started', () => {
+    const game = startGame()
+
+    expect(canPauseGame(game)).toBe(true)
+    expect(canPauseGame({ ...game, status: 'ready' })).toBe(false)
+    expect(canPauseGame({ ...game, status: 'won' })).toBe(false)
+  })
+
+  it('leaves paused time out of the elapsed time', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(10000)
+    const game = startGame()
+
+    const paused = at(15000, game, { type: 'PAUSE_GAME' })
+    expect(paused.isPaused).toBe(true)
+    expect(paused.elapsedMs).toBe(5000)
+    expect(paused.isTimerRunning).toBe(false)
+
+    // A minute away, then two more seconds of play
+    const resumed = at(75000, paused, { type: 'RESUME_GAME' })
+    const moved = at(77000, resumed, { type: 'MAKE_MOVE', payload: game.puzzle!.solution.path[1] })
+
+    expect(resumed.isTimerRunning).toBe(true)
+    expect(moved.moveHistory[0].timeMs).toBe(7000)
+  })
+
+  it('ignores moves, undo and hints while paused', () => {
+    const moved = moveCorrectly(startGame({ undoRule: 'free' }))
+    const paused = gameReducer(moved, { type: 'PAUSE_GAME' })
+    const blocked: GameAction[] = [
+      { type: 'MAKE_MOVE', payload: moved.puzzle!.solution.path[2] },
+      { type: 'UNDO_MOVE' },
+      { type: 'REQUEST_HINT' },
+    ]
+
+    for (const action of blocked) {
+      expect(gameReducer(paused, action)).toBe(paused)
+    }
+  })
+
+  it('ignores the reverse mode keypad while paused', () => {
+    const game = startGame({ reverseMode: true, negativeNumbers: true })
+    const paused = gameReducer({ ...game, answerInput: '12' }, { type: 'PAUSE_GAME' })
+    const blocked: GameAction[] = [
+      { type: 'ENTER_DIGIT', payload: '3' },
+      { type: 'DELETE_DIGIT' },
+      { type: 'TOGGLE_ANSWER_SIGN' },
+      { type: 'SUBMIT_ANSWER' },
+    ]
+
+    for (const action of blocked) {
+      expect(gameReducer(paused, action)).toBe(paused)
+    }
+  })
+})
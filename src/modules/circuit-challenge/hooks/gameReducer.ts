@@ -1,7 +1,37 @@
 import type { Coordinate, Connector, Cell } from '../types'
-import type { DifficultySettings } from '../engine/types'
-import type { GameState, GameAction, GameMoveResult } from '../types/gameState'
+import type { DifficultySettings, UndoRule } from '../engine/types'
+import type { GameState, GameAction, GameMoveResult, MoveSnapshot } from '../types/gameState'
 import { DIFFICULTY_PRESETS } from '../engine/difficulty'
+import { allCheckpointsVisited, getNextMove, getWorkedAnswer } from '../engine/solver'
+import { areNeighbours, getPuzzleTopology, isFinishCell } from '../engine/topology'
+
+/**
+ * Coins deducted from the puzzle total for each hint
+ */
+export const HINT_COIN_COST = 20
+
+/**
+ * Coins deducted from the puzzle total for each paid undo
+ */
+export const UNDO_COIN_COST = 10
+
+/**
+ * Longest answer that can be typed on the reverse mode keypad (digits, not counting a minus sign)
+ */
+export const MAX_ANSWER_DIGITS = 4
+
+/**
+ * Actions that play the game, which are ignored while it's paused
+ */
+const ACTIONS_BLOCKED_WHILE_PAUSED: GameAction['type'][] = [
+  'MAKE_MOVE',
+  'UNDO_MOVE',
+  'REQUEST_HINT',
+  'ENTER_DIGIT',
+  'DELETE_DIGIT',
+  'TOGGLE_ANSWER_SIGN',
+  'SUBMIT_ANSWER',
+]
 
 /**
  * Check if two cells are adjacent (including diagonals)
@@ -60,6 +90,74 @@ export function checkMoveCorrectness(
   return { correct, connector }
 }
 
+/**
+ * How undo works for the game being played (hidden mode never allows it)
+ */
+export function getUndoRule(state: GameState): UndoRule {
+  if (state.isHiddenMode) return 'off'
+  return state.difficulty.undoRule ?? 'paid'
+}
+
+/**
+ * Coins left after stepping back, before any undo cost
+ * The coins the step earned are taken back, but penalties paid since it aren't refunded
+ */
+function getCoinsBeforeLastStep(state: GameState): number {
+  const snapshot = state.undoStack[state.undoStack.length - 1]
+  return snapshot ? Math.min(state.puzzleCoins, snapshot.puzzleCoins) : state.puzzleCoins
+}
+
+/**
+ * Check if the last step can be undone right now (a paid undo needs the coins to pay for it)
+ */
+export function canUndoMove(state: GameState): boolean {
+  const rule = getUndoRule(state)
+  return (
+    rule !== 'off' &&
+    (rule !== 'paid' || getCoinsBeforeLastStep(state) >= UNDO_COIN_COST) &&
+    !state.isPaused &&
+    state.undoStack.length > 0 &&
+    (state.status === 'ready' || state.status === 'playing' || state.status === 'answering')
+  )
+}
+
+/**
+ * Check if the game can be paused right now (only once play has started)
+ */
+export function canPauseGame(state: GameState): boolean {
+  return !state.isPaused && (state.status === 'playing' || state.status === 'answering')
+}
+
+/**
+ * Time since play started, for timestamping moves
+ */
+function getGameTimeMs(state: GameState): number {
+  return state.startTime ? Date.now() - state.startTime : 0
+}
+
+/**
+ * Record the current position so the next step can be undone
+ */
+function pushUndoSnapshot(state: GameState): MoveSnapshot[] {
+  return [
+    ...state.undoStack,
+    {
+      currentPosition: state.currentPosition,
+      visitedCells: state.visitedCells,
+      traversedConnectors: state.traversedConnectors,
+      moveHistory: state.moveHistory,
+      puzzleCoins: state.puzzleCoins,
+    },
+  ]
+}
+
+/**
+ * Whether difficulty settings play in hidden mode
+ */
+function isHiddenDifficulty(difficulty: DifficultySettings): boolean {
+  return difficulty.hiddenMode && !difficulty.reverseMode && !difficulty.practiceMode
+}
+
 /**
  * Create initial game state
  */
@@ -72,20 +170,29 @@ export function createInitialGameState(
     status: 'setup',
     puzzle: null,
     difficulty: difficultySettings,
-    currentPosition: { row: 0, col: 0 },
+    currentPosition: { row: 0, col: 0 }, // Moved to the puzzle's START once one is generated
     visitedCells: [],
     traversedConnectors: [],
     moveHistory: [],
+    undoStack: [],
     lives: 5,
     maxLives: 5,
     startTime: null,
     elapsedMs: 0,
     isTimerRunning: false,
+    isPaused: false,
     puzzleCoins: 0,
     coinAnimations: [],
-    isHiddenMode: difficultySettings.hiddenMode,
+    // Reverse and practice modes always show mistakes, so they override hidden mode
+    isHiddenMode: isHiddenDifficulty(difficultySettings),
+    isReverseMode: difficultySettings.reverseMode ?? false,
+    isPracticeMode: difficultySettings.practiceMode ?? false,
+    workedAnswer: null,
+    answerInput: '',
     hiddenModeResults: null,
     showingSolution: false,
+    hint: null,
+    hintsUsed: 0,
     error: null,
   }
 }
@@ -94,12 +201,18 @@ export function createInitialGameState(
  * Game reducer for state management
  */
 export function gameReducer(state: GameState, action: GameAction): GameState {
+  if (state.isPaused && ACTIONS_BLOCKED_WHILE_PAUSED.includes(action.type)) {
+    return state
+  }
+
   switch (action.type) {
     case 'SET_DIFFICULTY':
       return {
         ...state,
         difficulty: action.payload,
-        isHiddenMode: action.payload.hiddenMode,
+        isHiddenMode: isHiddenDifficulty(action.payload),
+        isReverseMode: action.payload.reverseMode ?? false,
+        isPracticeMode: action.payload.practiceMode ?? false,
       }
 
     case 'GENERATE_PUZZLE':
@@ -114,20 +227,26 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
         ...state,
         status: 'ready',
         puzzle: action.payload,
-        currentPosition: { row: 0, col: 0 },
-        visitedCells: [{ row: 0, col: 0 }], // START is initially visited
+        currentPosition: getPuzzleTopology(action.payload).start,
+        visitedCells: [getPuzzleTopology(action.payload).start], // START is initially visited
         traversedConnectors: [],
         moveHistory: [],
+        undoStack: [],
         lives: state.maxLives,
         startTime: null,
         elapsedMs: 0,
         isTimerRunning: false,
+        isPaused: false,
         puzzleCoins: 0,
         coinAnimations: [],
         hiddenModeResults: state.isHiddenMode
           ? { moves: [], correctCount: 0, mistakeCount: 0 }
           : null,
         showingSolution: false,
+        hint: null,
+        hintsUsed: 0,
+        workedAnswer: null,
+        answerInput: '',
         error: null,
       }
 
@@ -138,11 +257,32 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
         error: action.payload,
       }
 
+    case 'RESTORE_GAME': {
+      const saved = action.payload
+      const isInPlay = saved.status === 'playing' || saved.status === 'answering'
+      return {
+        ...saved,
+        // Carry on the clock from the saved time, so time away from the game isn't counted
+        startTime: isInPlay ? Date.now() - saved.elapsedMs : null,
+        isTimerRunning: isInPlay && !saved.isPracticeMode,
+        isPaused: false,
+        coinAnimations: [],
+      }
+    }
+
     case 'START_TIMER':
       if (state.isTimerRunning) return state
+      // Practice mode has no clock, but play still starts (and moves are still timed)
+      if (state.isPracticeMode) {
+        return {
+          ...state,
+          status: state.isReverseMode ? 'answering' : 'playing',
+          startTime: Date.now(),
+        }
+      }
       return {
         ...state,
-        status: 'playing',
+        status: state.isReverseMode ? 'answering' : 'playing',
         startTime: Date.now(),
         isTimerRunning: true,
       }
@@ -154,9 +294,31 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
         elapsedMs: action.payload,
       }
 
+    case 'PAUSE_GAME':
+      if (!canPauseGame(state)) return state
+      // Stop the clock exactly now, so paused time never counts towards stars or move times
+      return {
+        ...state,
+        isPaused: true,
+        elapsedMs: state.startTime ? Date.now() - state.startTime : state.elapsedMs,
+        startTime: null,
+        isTimerRunning: false,
+      }
+
+    case 'RESUME_GAME':
+      if (!state.isPaused) return state
+      return {
+        ...state,
+        isPaused: false,
+        // Carry on the clock from where it stopped
+        startTime: Date.now() - state.elapsedMs,
+        isTimerRunning: !state.isPracticeMode,
+      }
+
     case 'MAKE_MOVE': {
       if (
         !state.puzzle ||
+        state.isReverseMode ||
         state.status === 'won' ||
         state.status === 'lost'
       ) {
@@ -167,8 +329,9 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
       const fromCell =
         state.puzzle.grid[state.currentPosition.row][state.currentPosition.col]
 
-      // Check if target is adjacent
-      if (!isAdjacent(state.currentPosition, targetCoord)) {
+      // Check if target neighbours the current cell in the puzzle's grid
+      const topology = getPuzzleTopology(state.puzzle)
+      if (!areNeighbours(topology, state.currentPosition, targetCoord)) {
         return state // Invalid move, ignore
       }
 
@@ -181,6 +344,12 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
         return state // Can't revisit
       }
 
+      // FINISH stays closed until every checkpoint has been visited
+      const isFinish = isFinishCell(topology, targetCoord)
+      if (isFinish && !allCheckpointsVisited(state.puzzle, state.visitedCells)) {
+        return state
+      }
+
       // Check move correctness
       const { correct, connector } = checkMoveCorrectness(
         fromCell,
@@ -196,13 +365,9 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
         toCell: targetCoord,
         connectorValue: connector.value,
         cellAnswer: fromCell.answer!,
+        timeMs: getGameTimeMs(state),
       }
 
-      // Check if reached FINISH
-      const isFinish =
-        targetCoord.row === state.puzzle.grid.length - 1 &&
-        targetCoord.col === state.puzzle.grid[0].length - 1
-
       // Handle based on mode
       if (state.isHiddenMode) {
         // Hidden mode: always accept move, track results
@@ -222,8 +387,10 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
             ...state.traversedConnectors,
             { cellA: state.currentPosition, cellB: targetCoord },
           ],
+          undoStack: pushUndoSnapshot(state),
           moveHistory: [...state.moveHistory, moveResult],
           hiddenModeResults: newHiddenResults,
+          hint: null,
           status: isFinish ? 'revealing' : state.status,
         }
       } else {
@@ -241,14 +408,24 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
               ...state.traversedConnectors,
               { cellA: state.currentPosition, cellB: targetCoord },
             ],
+            undoStack: pushUndoSnapshot(state),
             moveHistory: [...state.moveHistory, moveResult],
             puzzleCoins: newPuzzleCoins,
             coinAnimations: [
               ...state.coinAnimations,
               { id: coinId, value: 10, type: 'earn', timestamp: Date.now() },
             ],
+            hint: null,
+            workedAnswer: null,
             status: isFinish ? 'won' : state.status,
           }
+        } else if (state.isPracticeMode) {
+          // Practice: nothing is lost, the worked answer is shown instead
+          return {
+            ...state,
+            moveHistory: [...state.moveHistory, moveResult],
+            workedAnswer: getWorkedAnswer(fromCell),
+          }
         } else {
           // Wrong move
           const newLives = state.lives - 1
@@ -275,26 +452,70 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
       }
     }
 
+    case 'UNDO_MOVE': {
+      if (!canUndoMove(state)) return state
+
+      const snapshot = state.undoStack[state.undoStack.length - 1]
+      const isPaid = getUndoRule(state) === 'paid'
+      const coins = getCoinsBeforeLastStep(state)
+      const coinId = `coin-${Date.now()}`
+
+      // Mistakes made since the step still count, so stepping back can't erase them
+      const mistakesSince = state.moveHistory
+        .slice(snapshot.moveHistory.length)
+        .filter((m) => !m.correct)
+
+      return {
+        ...state,
+        currentPosition: snapshot.currentPosition,
+        visitedCells: snapshot.visitedCells,
+        traversedConnectors: snapshot.traversedConnectors,
+        moveHistory: [...snapshot.moveHistory, ...mistakesSince],
+        undoStack: state.undoStack.slice(0, -1),
+        puzzleCoins: isPaid ? coins - UNDO_COIN_COST : coins,
+        coinAnimations: isPaid
+          ? [
+              ...state.coinAnimations,
+              {
+                id: coinId,
+                value: -UNDO_COIN_COST,
+                type: 'penalty',
+                timestamp: Date.now(),
+              },
+            ]
+          : state.coinAnimations,
+        hint: null,
+        workedAnswer: null,
+        answerInput: '',
+      }
+    }
+
     case 'RESET_PUZZLE':
       // Reset to start of same puzzle
       if (!state.puzzle) return state
       return {
         ...state,
         status: 'ready',
-        currentPosition: { row: 0, col: 0 },
-        visitedCells: [{ row: 0, col: 0 }],
+        currentPosition: getPuzzleTopology(state.puzzle).start,
+        visitedCells: [getPuzzleTopology(state.puzzle).start],
         traversedConnectors: [],
         moveHistory: [],
+        undoStack: [],
         lives: state.maxLives,
         startTime: null,
         elapsedMs: 0,
         isTimerRunning: false,
+        isPaused: false,
         puzzleCoins: 0,
         coinAnimations: [],
         hiddenModeResults: state.isHiddenMode
           ? { moves: [], correctCount: 0, mistakeCount: 0 }
           : null,
         showingSolution: false,
+        hint: null,
+        hintsUsed: 0,
+        workedAnswer: null,
+        answerInput: '',
       }
 
     case 'NEW_PUZZLE':
@@ -317,6 +538,40 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
         showingSolution: false,
       }
 
+    case 'REQUEST_HINT': {
+      // Hints are only for standard play, and one at a time
+      if (
+        !state.puzzle ||
+        state.isHiddenMode ||
+        state.isReverseMode ||
+        state.hint ||
+        (state.status !== 'ready' && state.status !== 'playing')
+      ) {
+        return state
+      }
+
+      const hint = getNextMove(state.puzzle, state.currentPosition, state.visitedCells)
+      if (!hint) return state
+
+      const coinId = `coin-${Date.now()}`
+
+      return {
+        ...state,
+        hint,
+        hintsUsed: state.hintsUsed + 1,
+        puzzleCoins: Math.max(0, state.puzzleCoins - HINT_COIN_COST), // Clamp to 0
+        coinAnimations: [
+          ...state.coinAnimations,
+          {
+            id: coinId,
+            value: -HINT_COIN_COST,
+            type: 'penalty',
+            timestamp: Date.now(),
+          },
+        ],
+      }
+    }
+
     case 'REVEAL_HIDDEN_RESULTS': {
       // Calculate final coins for hidden mode
       if (!state.hiddenModeResults) return state
@@ -340,6 +595,131 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
         ),
       }
 
+    case 'ENTER_DIGIT': {
+      if (!state.isReverseMode || (state.status !== 'ready' && state.status !== 'answering')) {
+        return state
+      }
+      const digits = state.answerInput.replace('-', '')
+      if (!/^[0-9]$/.test(action.payload) || digits.length >= MAX_ANSWER_DIGITS) return state
+
+      return {
+        ...state,
+        answerInput: state.answerInput + action.payload,
+      }
+    }
+
+    case 'DELETE_DIGIT':
+      if (!state.isReverseMode || (state.status !== 'ready' && state.status !== 'answering')) {
+        return state
+      }
+      return {
+        ...state,
+        answerInput: state.answerInput.slice(0, -1),
+      }
+
+    case 'TOGGLE_ANSWER_SIGN':
+      // Only offered when the puzzle can have negative answers
+      if (!state.isReverseMode || !state.difficulty.negativeNumbers) return state
+      if (state.status !== 'ready' && state.status !== 'answering') return state
+      return {
+        ...state,
+        answerInput: state.answerInput.startsWith('-')
+          ? state.answerInput.slice(1)
+          : `-${state.answerInput}`,
+      }
+
+    case 'SUBMIT_ANSWER': {
+      if (
+        !state.puzzle ||
+        !state.isReverseMode ||
+        (state.status !== 'ready' && state.status !== 'answering')
+      ) {
+        return state
+      }
+
+      const typed = parseInt(state.answerInput, 10)
+      if (isNaN(typed)) return state
+
+      // Answers are typed in solution order, starting at START
+      const path = state.puzzle.solution.path
+      const index = path.findIndex(
+        (c) => c.row === state.currentPosition.row && c.col === state.currentPosition.col
+      )
+      const targetCoord = path[index + 1]
+      if (index < 0 || !targetCoord) return state
+
+      const fromCell =
+        state.puzzle.grid[state.currentPosition.row][state.currentPosition.col]
+      const connector = getConnectorBetweenCells(
+        state.currentPosition,
+        targetCoord,
+        state.puzzle.connectors
+      )
+      if (!connector) return state
+
+      const correct = typed === fromCell.answer
+      const moveResult: GameMoveResult = {
+        correct,
+        fromCell: state.currentPosition,
+        toCell: targetCoord,
+        connectorValue: typed,
+        cellAnswer: fromCell.answer!,
+        timeMs: getGameTimeMs(state),
+      }
+      const coinId = `coin-${Date.now()}`
+
+      if (correct) {
+        // Correct answer lights up the connector to the next cell
+        const isFinish = isFinishCell(getPuzzleTopology(state.puzzle), targetCoord)
+
+        return {
+          ...state,
+          currentPosition: targetCoord,
+          visitedCells: [...state.visitedCells, targetCoord],
+          traversedConnectors: [
+            ...state.traversedConnectors,
+            { cellA: state.currentPosition, cellB: targetCoord },
+          ],
+          undoStack: pushUndoSnapshot(state),
+          moveHistory: [...state.moveHistory, moveResult],
+          puzzleCoins: state.puzzleCoins + 10,
+          coinAnimations: [
+            ...state.coinAnimations,
+            { id: coinId, value: 10, type: 'earn', timestamp: Date.now() },
+          ],
+          answerInput: '',
+          workedAnswer: null,
+          status: isFinish ? 'won' : state.status,
+        }
+      }
+
+      // Practice: nothing is lost, the worked answer is shown instead
+      if (state.isPracticeMode) {
+        return {
+          ...state,
+          moveHistory: [...state.moveHistory, moveResult],
+          answerInput: '',
+          workedAnswer: getWorkedAnswer(fromCell),
+        }
+      }
+
+      // Wrong answer
+      const newLives = state.lives - 1
+
+      return {
+        ...state,
+        lives: newLives,
+        moveHistory: [...state.moveHistory, moveResult],
+        puzzleCoins: Math.max(0, state.puzzleCoins - 30), // Clamp to 0
+        coinAnimations: [
+          ...state.coinAnimations,
+          { id: coinId, value: -30, type: 'penalty', timestamp: Date.now() },
+        ],
+        answerInput: '',
+        status: newLives <= 0 ? 'lost' : state.status,
+      }
+    }
+
     default:
       return state
   }
@@ -1,5 +1,9 @@
 export { useGame } from './useGame'
 export type { UseGameReturn } from './useGame'
-export { gameReducer, createInitialGameState, isAdjacent, getConnectorBetweenCells, checkMoveCorrectness } from './gameReducer'
+export { gameReducer, createInitialGameState, canPauseGame, HINT_COIN_COST, isAdjacent, getConnectorBetweenCells, checkMoveCorrectness } from './gameReducer'
 export { useFeedback, useGameSounds } from './useFeedback'
 export type { UseFeedbackReturn } from './useFeedback'
+export { useSavedGame } from './useSavedGame'
+export type { UseSavedGameReturn } from './useSavedGame'
+export { useGameNarration } from './useGameNarration'
+export type { UseGameNarrationReturn, Announcement } from './useGameNarration'
@@ -1,9 +1,9 @@
 import { useReducer, useCallback, useEffect, useRef } from 'react'
-import { gameReducer, createInitialGameState } from './gameReducer'
-import { generatePuzzle } from '../engine'
+import { gameReducer, createInitialGameState, canPauseGame, canUndoMove } from './gameReducer'
+import { requestPuzzle } from '../services/puzzleGeneration'
 import type { DifficultySettings } from '../engine/types'
 import type { GameState } from '../types/gameState'
-import type { Coordinate } from '../types'
+import type { Coordinate, Puzzle } from '../types'
 
 /**
  * Return type for the useGame hook
@@ -14,18 +14,31 @@ export interface UseGameReturn {
 
   // Computed values
   canMove: boolean
+  canAnswer: boolean
+  canUndo: boolean
+  canPause: boolean
   isGameOver: boolean
   timeThresholdMs: number | null
 
   // Actions
   setDifficulty: (difficulty: DifficultySettings) => void
   generateNewPuzzle: () => Promise<void>
+  loadPuzzle: (puzzle: Puzzle) => void
+  restoreGame: (saved: GameState) => void
   makeMove: (coord: Coordinate) => void
+  undoMove: () => void
+  pauseGame: () => void
+  resumeGame: () => void
   resetPuzzle: () => void
   requestNewPuzzle: () => void
   showSolution: () => void
   hideSolution: () => void
   revealHiddenResults: () => void
+  requestHint: () => void
+  enterDigit: (digit: string) => void
+  deleteDigit: () => void
+  toggleAnswerSign: () => void
+  submitAnswer: () => void
 }
 
 /**
@@ -78,6 +91,18 @@ export function useGame(initialDifficulty?: DifficultySettings): UseGameReturn {
     }
   }, [state.status])
 
+  // Pause when the app is hidden (switching tabs or apps, locking the screen)
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        dispatch({ type: 'PAUSE_GAME' })
+      }
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [])
+
   // Clear coin animations after delay
   useEffect(() => {
     state.coinAnimations.forEach((anim) => {
@@ -98,8 +123,8 @@ export function useGame(initialDifficulty?: DifficultySettings): UseGameReturn {
   const generateNewPuzzle = useCallback(async () => {
     dispatch({ type: 'GENERATE_PUZZLE' })
 
-    // Run generation (could be async in web worker for large puzzles)
-    const result = generatePuzzle(state.difficulty)
+    // Generated in a web worker, or served straight from the warm pool
+    const result = await requestPuzzle(state.difficulty)
 
     if (result.success) {
       dispatch({ type: 'PUZZLE_GENERATED', payload: result.puzzle })
@@ -111,6 +136,14 @@ export function useGame(initialDifficulty?: DifficultySettings): UseGameReturn {
     }
   }, [state.difficulty])
 
+  const loadPuzzle = useCallback((puzzle: Puzzle) => {
+    dispatch({ type: 'PUZZLE_GENERATED', payload: puzzle })
+  }, [])
+
+  const restoreGame = useCallback((saved: GameState) => {
+    dispatch({ type: 'RESTORE_GAME', payload: saved })
+  }, [])
+
   const makeMove = useCallback(
     (coord: Coordinate) => {
       // Start timer on first move if not already running
@@ -123,6 +156,18 @@ export function useGame(initialDifficulty?: DifficultySettings): UseGameReturn {
     [state.status]
   )
 
+  const undoMove = useCallback(() => {
+    dispatch({ type: 'UNDO_MOVE' })
+  }, [])
+
+  const pauseGame = useCallback(() => {
+    dispatch({ type: 'PAUSE_GAME' })
+  }, [])
+
+  const resumeGame = useCallback(() => {
+    dispatch({ type: 'RESUME_GAME' })
+  }, [])
+
   const resetPuzzle = useCallback(() => {
     dispatch({ type: 'RESET_PUZZLE' })
   }, [])
@@ -143,26 +188,73 @@ export function useGame(initialDifficulty?: DifficultySettings): UseGameReturn {
     dispatch({ type: 'REVEAL_HIDDEN_RESULTS' })
   }, [])
 
+  const requestHint = useCallback(() => {
+    dispatch({ type: 'REQUEST_HINT' })
+  }, [])
+
+  const enterDigit = useCallback(
+    (digit: string) => {
+      // Start timer on first key press if not already running
+      if (state.status === 'ready') {
+        dispatch({ type: 'START_TIMER' })
+      }
+
+      dispatch({ type: 'ENTER_DIGIT', payload: digit })
+    },
+    [state.status]
+  )
+
+  const deleteDigit = useCallback(() => {
+    dispatch({ type: 'DELETE_DIGIT' })
+  }, [])
+
+  const toggleAnswerSign = useCallback(() => {
+    dispatch({ type: 'TOGGLE_ANSWER_SIGN' })
+  }, [])
+
+  const submitAnswer = useCallback(() => {
+    dispatch({ type: 'SUBMIT_ANSWER' })
+  }, [])
+
   // Computed values
-  const canMove = state.status === 'ready' || state.status === 'playing'
+  const canMove =
+    !state.isReverseMode && !state.isPaused && (state.status === 'ready' || state.status === 'playing')
+  const canAnswer =
+    state.isReverseMode && !state.isPaused && (state.status === 'ready' || state.status === 'answering')
+  const canUndo = canUndoMove(state)
+  const canPause = canPauseGame(state)
   const isGameOver = state.status === 'won' || state.status === 'lost'
 
-  const timeThresholdMs = state.puzzle
+  // Practice mode has no clock to beat
+  const timeThresholdMs = state.puzzle && !state.isPracticeMode
     ? state.puzzle.solution.steps * state.difficulty.secondsPerStep * 1000
     : null
 
   return {
     state,
     canMove,
+    canAnswer,
+    canUndo,
+    canPause,
     isGameOver,
     timeThresholdMs,
     setDifficulty,
     generateNewPuzzle,
+    loadPuzzle,
+    restoreGame,
     makeMove,
+    undoMove,
+    pauseGame,
+    resumeGame,
     resetPuzzle,
     requestNewPuzzle,
     showSolution,
     hideSolution,
     revealHiddenResults,
+    requestHint,
+    enterDigit,
+    deleteDigit,
+    toggleAnswerSign,
+    submitAnswer,
   }
 }
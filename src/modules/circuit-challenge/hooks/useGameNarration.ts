@@ -0,0 +1,76 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { describeMove, describePosition, describeStatus } from '../services/narration'
+import type { GameState } from '../types/gameState'
+
+/**
+ * A message for the live region; the id changes so repeating a message still reads it out
+ */
+export interface Announcement {
+  id: number
+  text: string
+}
+
+/**
+ * Return type for useGameNarration hook
+ */
+export interface UseGameNarrationReturn {
+  /** Latest message to read out */
+  announcement: Announcement | null
+  /** Read out any message */
+  announce: (text: string) => void
+  /** Read out lives and time */
+  announceStatus: () => void
+}
+
+/**
+ * Hook for narrating the game to screen readers
+ * Announces new puzzles, each move and what can be done next, undo, pause and the end of the game
+ */
+export function useGameNarration(state: GameState, enabled: boolean): UseGameNarrationReturn {
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null)
+  const previousRef = useRef({
+    puzzle: state.puzzle,
+    moveCount: state.moveHistory.length,
+    status: state.status,
+    isPaused: state.isPaused,
+  })
+
+  const announce = useCallback((text: string) => {
+    setAnnouncement((prev) => ({ id: (prev?.id ?? 0) + 1, text }))
+  }, [])
+
+  useEffect(() => {
+    const previous = previousRef.current
+    previousRef.current = {
+      puzzle: state.puzzle,
+      moveCount: state.moveHistory.length,
+      status: state.status,
+      isPaused: state.isPaused,
+    }
+    if (!enabled || !state.puzzle) return
+
+    const moveCount = state.moveHistory.length
+    const inPlay = state.status === 'ready' || state.status === 'playing' || state.status === 'answering'
+
+    if (state.puzzle !== previous.puzzle) {
+      announce(`New puzzle. ${describePosition(state)}`)
+    } else if (state.status !== previous.status && state.status === 'won') {
+      announce('Puzzle complete!')
+    } else if (state.status !== previous.status && state.status === 'lost') {
+      announce('Out of lives. The puzzle is over.')
+    } else if (state.isPaused !== previous.isPaused) {
+      announce(state.isPaused ? 'Paused.' : `Resumed. ${describePosition(state)}`)
+    } else if (moveCount > previous.moveCount) {
+      const move = describeMove(state, state.moveHistory[moveCount - 1])
+      announce(inPlay ? `${move} ${describePosition(state)}` : move)
+    } else if (moveCount < previous.moveCount) {
+      announce(`${moveCount === 0 ? 'Puzzle reset.' : 'Move undone.'} ${describePosition(state)}`)
+    }
+  }, [state, enabled, announce])
+
+  const announceStatus = useCallback(() => {
+    announce(describeStatus(state))
+  }, [announce, state])
+
+  return { announcement, announce, announceStatus }
+}
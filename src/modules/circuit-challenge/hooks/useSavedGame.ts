@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useStorage } from '@/app/providers/StorageProvider'
+import { SAVED_GAME_MODULE_ID, parseSavedGame, type SavedGame } from '../services/savedGame'
+
+/**
+ * Return type for useSavedGame hook
+ */
+export interface UseSavedGameReturn {
+  /** Game in progress, if one was left unfinished */
+  savedGame: SavedGame | null
+  /** Go back to the game in progress */
+  resumeGame: () => void
+}
+
+/**
+ * Hook for offering to resume the game in progress
+ */
+export function useSavedGame(): UseSavedGameReturn {
+  const navigate = useNavigate()
+  const { getGameInProgress } = useStorage()
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getGameInProgress(SAVED_GAME_MODULE_ID)
+      .then((data) => {
+        if (!cancelled) setSavedGame(parseSavedGame(data))
+      })
+      .catch((error) => console.warn('Failed to load saved game:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [getGameInProgress])
+
+  const resumeGame = useCallback(() => {
+    if (!savedGame) return
+
+    if (savedGame.storyChapter && savedGame.storyLevel) {
+      navigate(`/play/circuit-challenge/story/${savedGame.storyChapter}/${savedGame.storyLevel}`, {
+        state: { resumeGame: true, skipIntro: true },
+      })
+    } else {
+      navigate('/play/circuit-challenge/game', {
+        state: { difficulty: savedGame.state.difficulty, resumeGame: true },
+      })
+    }
+  }, [navigate, savedGame])
+
+  return { savedGame, resumeGame }
+}
@@ -1,9 +1,12 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
 import { useGame } from '../hooks/useGame'
 import { useFeedback } from '../hooks/useFeedback'
-import { useOrientation } from '@/shared/hooks'
+import { useGameNarration } from '../hooks/useGameNarration'
+import { useAccessibilitySettings, useOrientation } from '@/shared/hooks'
+import { SCAN_INTERVAL_OPTIONS } from '@/shared/services/accessibility'
 import { useSound } from '@/app/providers/SoundProvider'
+import { useStorage } from '@/app/providers/StorageProvider'
 import {
   PuzzleGrid,
   GameHeader,
@@ -13,16 +16,33 @@ import {
   TimerDisplay,
   GameCoinDisplay,
   MusicToggleButton,
+  NumberKeypad,
+  TextPuzzleView,
 } from '../components'
 import { Button, Modal } from '@/ui'
 import { printCurrentPuzzle } from '../services/pdfGenerator'
 import { getStoryDifficulty } from '../engine/storyDifficulty'
+import { encodePuzzleCode } from '../engine/puzzleCode'
+import {
+  SAVED_GAME_MODULE_ID,
+  createSavedGame,
+  isSavedGameFor,
+  parseSavedGame,
+  shouldSaveGame,
+} from '../services/savedGame'
+import { createGameId } from '../services/replay'
 import type { DifficultySettings } from '../engine/types'
+import type { Puzzle } from '../types'
+import type { GameMoveResult } from '../types/gameState'
 import type { ChapterAlien } from '@/shared/types/chapterAlien'
 
 interface LocationState {
   difficulty?: DifficultySettings
+  /** Puzzle already generated by the setup screen, played instead of making a new one */
+  puzzle?: Puzzle
   showSolution?: boolean
+  /** Pick up the saved game in progress instead of starting a new puzzle */
+  resumeGame?: boolean
 }
 
 interface GameScreenProps {
@@ -30,6 +50,9 @@ interface GameScreenProps {
   storyAlien?: ChapterAlien
   storyChapter?: number
   storyLevel?: number
+  // Shared puzzle optional props (opened from a puzzle code)
+  sharedPuzzle?: Puzzle
+  sharedDifficulty?: DifficultySettings
 }
 
 /**
@@ -39,22 +62,33 @@ export default function GameScreen({
   storyAlien,
   storyChapter,
   storyLevel,
+  sharedPuzzle,
+  sharedDifficulty,
 }: GameScreenProps = {}) {
   const location = useLocation()
   const navigate = useNavigate()
   const locationState = location.state as LocationState | null
 
-  // Calculate difficulty from story props or location state
+  // Calculate difficulty from story props, shared puzzle or location state
   const isStoryMode = !!(storyChapter && storyLevel)
   const difficulty = isStoryMode
     ? getStoryDifficulty({ chapter: storyChapter, level: storyLevel })
-    : locationState?.difficulty
+    : sharedDifficulty ?? locationState?.difficulty
+  const initialPuzzle = sharedPuzzle ?? locationState?.puzzle
 
   const [showExitConfirm, setShowExitConfirm] = useState(false)
+  const [shareCode, setShareCode] = useState<string | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const initialPuzzleLoaded = useRef(false)
+  const moveCountRef = useRef(0)
+  const [isRestoring, setIsRestoring] = useState(!!locationState?.resumeGame)
+  const savedMovesRef = useRef<GameMoveResult[] | null>(null)
 
   const { triggerShake, shakeClassName } = useFeedback()
   const { isMobileLandscape } = useOrientation()
+  const [accessibility] = useAccessibilitySettings()
   const { playMusic, playSound } = useSound()
+  const { getGameInProgress, saveGameInProgress, clearGameInProgress } = useStorage()
 
   // Redirect to setup if no difficulty (only for quick play, not story mode)
   useEffect(() => {
@@ -67,44 +101,153 @@ export default function GameScreen({
   const {
     state,
     canMove,
+    canAnswer,
+    canUndo,
+    canPause,
     isGameOver,
     timeThresholdMs,
     generateNewPuzzle,
+    loadPuzzle,
+    restoreGame,
     makeMove,
+    undoMove,
+    pauseGame,
+    resumeGame,
     resetPuzzle,
     requestNewPuzzle,
     showSolution,
+    requestHint,
+    enterDigit,
+    deleteDigit,
+    toggleAnswerSign,
+    submitAnswer,
   } = useGame(difficulty)
 
-  // Generate puzzle on mount
+  const { announcement, announceStatus } = useGameNarration(state, accessibility.screenReaderMode)
+
+  // Pick up the saved game where it was left
+  useEffect(() => {
+    if (!isRestoring) return
+    let cancelled = false
+
+    getGameInProgress(SAVED_GAME_MODULE_ID)
+      .then((data) => {
+        const saved = parseSavedGame(data)
+        if (cancelled || !saved || !isSavedGameFor(saved, { storyChapter, storyLevel })) return
+        // Moves already made shouldn't replay their sounds or be saved again
+        moveCountRef.current = saved.state.moveHistory.length
+        savedMovesRef.current = saved.state.moveHistory
+        restoreGame(saved.state)
+      })
+      .catch((error) => console.warn('Failed to load saved game:', error))
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isRestoring, getGameInProgress, restoreGame, storyChapter, storyLevel])
+
+  // Generate puzzle on mount (or load the shared or already generated puzzle the first time)
+  useEffect(() => {
+    if (difficulty && !isRestoring && !state.puzzle && state.status === 'setup') {
+      if (initialPuzzle && !initialPuzzleLoaded.current) {
+        initialPuzzleLoaded.current = true
+        loadPuzzle(initialPuzzle)
+      } else {
+        generateNewPuzzle()
+      }
+    }
+  }, [difficulty, isRestoring, state.puzzle, state.status, generateNewPuzzle, initialPuzzle, loadPuzzle])
+
+  const saveGame = useCallback(() => {
+    if (!shouldSaveGame(state)) return
+    const saved = createSavedGame(state, { storyChapter, storyLevel })
+    saveGameInProgress(SAVED_GAME_MODULE_ID, saved as unknown as Record<string, unknown>)
+  }, [state, storyChapter, storyLevel, saveGameInProgress])
+
+  // Checkpoint the game after every move and when it's paused, so closing the app doesn't lose it
+  const savedPausedRef = useRef(false)
+  useEffect(() => {
+    const isNewMove = state.moveHistory !== savedMovesRef.current
+    const isNewPause = state.isPaused && !savedPausedRef.current
+    savedMovesRef.current = state.moveHistory
+    savedPausedRef.current = state.isPaused
+    if (isNewMove || isNewPause) saveGame()
+  }, [state.moveHistory, state.isPaused, saveGame])
+
+  // Also save as the app is hidden or the screen is left, so time since the last move isn't lost
+  const saveGameRef = useRef(saveGame)
+  useEffect(() => {
+    saveGameRef.current = saveGame
+  }, [saveGame])
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) saveGameRef.current()
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      saveGameRef.current()
+    }
+  }, [])
+
+  // Modals stop the clock while they're open, and play carries on when they close
+  const isModalOpen = showExitConfirm || shareCode !== null
+  const pausedForModalRef = useRef(false)
+  useEffect(() => {
+    if (isModalOpen && canPause) {
+      pausedForModalRef.current = true
+      pauseGame()
+    } else if (!isModalOpen && pausedForModalRef.current) {
+      pausedForModalRef.current = false
+      resumeGame()
+    }
+  }, [isModalOpen, canPause, pauseGame, resumeGame])
+
+  // A finished game can't be resumed
   useEffect(() => {
-    if (difficulty && !state.puzzle && state.status === 'setup') {
-      generateNewPuzzle()
+    if (state.status === 'won' || state.status === 'lost' || state.status === 'revealing') {
+      clearGameInProgress(SAVED_GAME_MODULE_ID)
     }
-  }, [difficulty, state.puzzle, state.status, generateNewPuzzle])
+  }, [state.status, clearGameInProgress])
 
   // Play game music when puzzle is ready
   useEffect(() => {
-    if (state.puzzle && (state.status === 'ready' || state.status === 'playing')) {
+    if (state.puzzle && (state.status === 'ready' || state.status === 'playing' || state.status === 'answering')) {
       playMusic('game', true)
     }
   }, [state.puzzle, state.status, playMusic])
 
-  // Play sound effects for correct/wrong moves
+  // Play sound effects for correct/wrong moves and shake on wrong ones
+  // Only new moves count - undoing a step shortens the history
   useEffect(() => {
+    const previousCount = moveCountRef.current
+    moveCountRef.current = state.moveHistory.length
+    if (state.moveHistory.length <= previousCount) return
+
     const lastMove = state.moveHistory[state.moveHistory.length - 1]
-    if (lastMove) {
-      playSound(lastMove.correct ? 'correct' : 'wrong')
+    playSound(lastMove.correct ? 'correct' : 'wrong')
+    if (!lastMove.correct && !state.isHiddenMode && !state.isPracticeMode) {
+      triggerShake()
     }
-  }, [state.moveHistory.length, playSound])
+  }, [state.moveHistory, state.isHiddenMode, state.isPracticeMode, playSound, triggerShake])
+
+  // Id for the finished game, created once when it ends so the summary only records it once
+  const finishedGameIdRef = useRef<string | null>(null)
+  const getFinishedGameId = useCallback(() => {
+    finishedGameIdRef.current ??= createGameId()
+    return finishedGameIdRef.current
+  }, [])
 
-  // Watch for wrong moves and trigger shake
+  // A new game gets a new id
   useEffect(() => {
-    const lastMove = state.moveHistory[state.moveHistory.length - 1]
-    if (lastMove && !lastMove.correct && !state.isHiddenMode) {
-      triggerShake()
+    if (state.status === 'ready' || state.status === 'playing' || state.status === 'answering') {
+      finishedGameIdRef.current = null
     }
-  }, [state.moveHistory, state.isHiddenMode, triggerShake])
+  }, [state.status])
 
   // Navigate to summary when game ends (but not if viewing solution)
   useEffect(() => {
@@ -115,12 +258,15 @@ export default function GameScreen({
           state: {
             won: state.status === 'won',
             isHiddenMode: state.isHiddenMode,
+            isReverseMode: state.isReverseMode,
+            isPracticeMode: state.isPracticeMode,
             elapsedMs: state.elapsedMs,
             puzzleCoins: state.puzzleCoins,
             moveHistory: state.moveHistory,
             hiddenModeResults: state.hiddenModeResults,
             difficulty: state.difficulty,
             puzzle: state.puzzle,
+            gameId: getFinishedGameId(),
             // Story mode data
             storyAlien,
             storyChapter,
@@ -130,7 +276,7 @@ export default function GameScreen({
       }, 1000)
       return () => clearTimeout(timer)
     }
-  }, [state.status, state.showingSolution, navigate, state, storyAlien, storyChapter, storyLevel])
+  }, [state.status, state.showingSolution, navigate, state, storyAlien, storyChapter, storyLevel, getFinishedGameId])
 
   // Handle revealing hidden mode results
   useEffect(() => {
@@ -146,6 +292,7 @@ export default function GameScreen({
           hiddenModeResults: state.hiddenModeResults,
           difficulty: state.difficulty,
           puzzle: state.puzzle,
+          gameId: getFinishedGameId(),
           // Story mode data
           storyAlien,
           storyChapter,
@@ -153,9 +300,15 @@ export default function GameScreen({
         },
       })
     }
-  }, [state.status, state.isHiddenMode, navigate, state, storyAlien, storyChapter, storyLevel])
+  }, [state.status, state.isHiddenMode, navigate, state, storyAlien, storyChapter, storyLevel, getFinishedGameId])
+
+  const handleReset = () => {
+    clearGameInProgress(SAVED_GAME_MODULE_ID)
+    resetPuzzle()
+  }
 
   const handleNewPuzzle = async () => {
+    clearGameInProgress(SAVED_GAME_MODULE_ID)
     requestNewPuzzle()
     await generateNewPuzzle()
   }
@@ -166,17 +319,40 @@ export default function GameScreen({
     }
   }
 
+  const handleShare = () => {
+    if (state.puzzle) {
+      setLinkCopied(false)
+      setShareCode(encodePuzzleCode(state.puzzle))
+    }
+  }
+
+  const shareLink = shareCode
+    ? `${window.location.origin}/play/circuit-challenge/code/${shareCode}`
+    : ''
+
+  const handleCopyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareLink)
+      setLinkCopied(true)
+    } catch (error) {
+      console.warn('Failed to copy puzzle link:', error)
+    }
+  }
+
   const handleContinueToSummary = () => {
     navigate('/play/circuit-challenge/summary', {
       state: {
         won: state.status === 'won',
         isHiddenMode: state.isHiddenMode,
+        isReverseMode: state.isReverseMode,
+        isPracticeMode: state.isPracticeMode,
         elapsedMs: state.elapsedMs,
         puzzleCoins: state.puzzleCoins,
         moveHistory: state.moveHistory,
         hiddenModeResults: state.hiddenModeResults,
         difficulty: state.difficulty,
         puzzle: state.puzzle,
+        gameId: getFinishedGameId(),
         // Story mode data
         storyAlien,
         storyChapter,
@@ -193,6 +369,123 @@ export default function GameScreen({
       }
     : undefined
 
+  // Hints cost coins, so they're only offered while playing standard mode
+  const handleHint = canMove && !state.isHiddenMode && !state.hint ? requestHint : undefined
+
+  // Undo is offered once there's a step to take back (and the mode allows it)
+  const handleUndo = canUndo ? undoMove : undefined
+
+  // Pause is offered once play has started
+  const handlePause = canPause ? pauseGame : undefined
+
+  // Keypad for typing cell answers in reverse mode
+  const renderKeypad = (compact: boolean) => state.isReverseMode && state.puzzle && (
+    <NumberKeypad
+      value={state.answerInput}
+      onDigit={enterDigit}
+      onDelete={deleteDigit}
+      onSubmit={submitAnswer}
+      onToggleSign={state.difficulty.negativeNumbers ? toggleAnswerSign : undefined}
+      disabled={!canAnswer}
+      compact={compact}
+    />
+  )
+
+  // Hint banner floats over the top of the grid area in both layouts
+  const hintBanner = state.hint && (
+    <div
+      role="status"
+      className="absolute top-2 left-1/2 -translate-x-1/2 z-20 px-4 py-2 rounded-xl bg-background-dark/90 border border-accent-primary/50 text-sm text-white shadow-lg"
+    >
+      💡 {state.hint.explanation}
+    </div>
+  )
+
+  // While paused the grid is blurred, so the puzzle can't be studied with the clock stopped
+  const pauseOverlay = state.isPaused && (
+    <div className="absolute inset-0 z-30 flex flex-col items-center justify-center gap-4">
+      <p className="text-3xl font-display font-bold text-white">Paused</p>
+      <Button variant="primary" onClick={resumeGame}>
+        ▶ Resume
+      </Button>
+    </div>
+  )
+
+  // Practice mode shows how a cell works out after a wrong move
+  const workedAnswerBanner = state.workedAnswer && (
+    <div
+      role="status"
+      className="absolute bottom-2 left-1/2 -translate-x-1/2 z-20 px-4 py-2 rounded-xl bg-background-dark/90 border border-accent-tertiary/50 text-sm text-white shadow-lg"
+    >
+      ✏️ {state.workedAnswer}
+    </div>
+  )
+
+  // Screen-reader mode swaps the grid for a text layout (hidden while paused, like the blurred grid)
+  const textPuzzleView = state.puzzle && !state.isPaused && (
+    <TextPuzzleView
+      puzzle={state.puzzle}
+      currentPosition={state.currentPosition}
+      visitedCells={state.visitedCells}
+      onMove={canMove ? makeMove : undefined}
+      onReadStatus={announceStatus}
+      isReverseMode={state.isReverseMode}
+    />
+  )
+
+  // Moves and game events are read out here in screen-reader mode
+  const liveRegion = accessibility.screenReaderMode && (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {announcement && <p key={announcement.id}>{announcement.text}</p>}
+    </div>
+  )
+
+  // Practice has its own setup screen
+  const handleChangeDifficulty = () =>
+    navigate(state.isPracticeMode ? '/play/circuit-challenge/practice' : '/play/circuit-challenge/quick')
+
+  // Games are saved once play starts, so leaving doesn't lose them
+  const exitMessage = shouldSaveGame(state)
+    ? 'Your progress is saved, so you can resume this puzzle later.'
+    : 'Your progress on this puzzle will be lost.'
+
+  // Share modal is the same in both layouts
+  const shareModal = (
+    <Modal
+      isOpen={shareCode !== null}
+      onClose={() => setShareCode(null)}
+      title="Share Puzzle"
+    >
+      <p className="mb-4 text-text-secondary">
+        Anyone who opens this link gets exactly this puzzle.
+      </p>
+      <input
+        type="text"
+        readOnly
+        value={shareLink}
+        onFocus={(e) => e.target.select()}
+        aria-label="Puzzle link"
+        className="w-full mb-6 p-3 rounded-lg bg-background-dark border border-white/20 text-white text-sm"
+      />
+      <div className="flex gap-3">
+        <Button
+          variant="ghost"
+          onClick={() => setShareCode(null)}
+          className="flex-1"
+        >
+          Close
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleCopyShareLink}
+          className="flex-1"
+        >
+          {linkCopied ? 'Copied!' : 'Copy Link'}
+        </Button>
+      </div>
+    </Modal>
+  )
+
   // Don't render if no difficulty
   if (!difficulty) {
     return null
@@ -219,10 +512,14 @@ export default function GameScreen({
           <MusicToggleButton size="sm" />
 
           <ActionButtons
-            onReset={resetPuzzle}
+            onReset={handleReset}
             onNewPuzzle={handleNewPuzzle}
-            onChangeDifficulty={() => navigate('/play/circuit-challenge/quick')}
+            onChangeDifficulty={handleChangeDifficulty}
             onPrint={handlePrint}
+            onShare={handleShare}
+            onUndo={handleUndo}
+            onPause={handlePause}
+            onHint={handleHint}
             onViewSolution={state.status === 'lost' ? showSolution : undefined}
             showViewSolution={state.status === 'lost' && !state.showingSolution}
             onContinue={handleContinueToSummary}
@@ -234,18 +531,27 @@ export default function GameScreen({
 
         {/* Center: Puzzle Grid */}
         <div className="flex-1 min-w-0 flex items-center justify-center p-1 relative z-10">
+          {hintBanner}
+          {workedAnswerBanner}
+          {pauseOverlay}
           {state.puzzle ? (
             <div className="w-full h-full flex items-center justify-center">
-              <PuzzleGrid
-                puzzle={state.puzzle}
-                currentPosition={state.currentPosition}
-                visitedCells={state.visitedCells}
-                traversedConnectors={state.traversedConnectors}
-                onCellClick={canMove ? makeMove : undefined}
-                disabled={!canMove}
-                showSolution={state.showingSolution}
-                className="max-w-full max-h-full"
-              />
+              {accessibility.screenReaderMode ? textPuzzleView : (
+                <PuzzleGrid
+                  puzzle={state.puzzle}
+                  currentPosition={state.currentPosition}
+                  visitedCells={state.visitedCells}
+                  traversedConnectors={state.traversedConnectors}
+                  onCellClick={canMove ? makeMove : undefined}
+                  disabled={!canMove}
+                  showSolution={state.showingSolution}
+                  highlightPath={state.isReverseMode}
+                  blurred={state.isPaused}
+                  scanning={accessibility.switchScanning}
+                  scanIntervalMs={SCAN_INTERVAL_OPTIONS[accessibility.scanSpeed]}
+                  className="max-w-full max-h-full"
+                />
+              )}
             </div>
           ) : state.error ? (
             <div className="text-center">
@@ -265,7 +571,7 @@ export default function GameScreen({
 
         {/* Right Panel: Status displays (vertical) */}
         <div className="shrink-0 flex flex-col items-center justify-center gap-3 py-2 px-2 bg-background-dark/80 backdrop-blur-sm border-l border-white/10 z-20">
-          {!state.isHiddenMode && (
+          {!state.isHiddenMode && !state.isPracticeMode && (
             <LivesDisplay
               lives={state.lives}
               maxLives={state.maxLives}
@@ -274,20 +580,27 @@ export default function GameScreen({
             />
           )}
 
-          <TimerDisplay
-            elapsedMs={state.elapsedMs}
-            thresholdMs={state.isHiddenMode ? undefined : timeThresholdMs ?? undefined}
-            isRunning={state.isTimerRunning}
-            size="sm"
-          />
+          {!state.isPracticeMode && (
+            <TimerDisplay
+              elapsedMs={state.elapsedMs}
+              thresholdMs={state.isHiddenMode ? undefined : timeThresholdMs ?? undefined}
+              isRunning={state.isTimerRunning}
+              size="sm"
+            />
+          )}
 
           <GameCoinDisplay
             amount={state.puzzleCoins}
             showChange={state.isHiddenMode ? undefined : coinChange}
             size="sm"
           />
+
+          {renderKeypad(true)}
         </div>
 
+        {shareModal}
+        {liveRegion}
+
         {/* Exit Confirmation Modal */}
         <Modal
           isOpen={showExitConfirm}
@@ -295,7 +608,7 @@ export default function GameScreen({
           title="Exit Puzzle?"
         >
           <p className="mb-6 text-text-secondary">
-            Your progress on this puzzle will be lost.
+            {exitMessage}
           </p>
           <div className="flex gap-3">
             <Button
@@ -339,7 +652,7 @@ export default function GameScreen({
 
       {/* Game Header - shrink-0 to prevent compression */}
       <GameHeader
-        title={isStoryMode && storyAlien ? `${storyAlien.name} ${storyLevel}` : (state.isHiddenMode ? 'Hidden Mode' : 'Quick Play')}
+        title={isStoryMode && storyAlien ? `${storyAlien.name} ${storyLevel}` : sharedPuzzle ? 'Shared Puzzle' : (state.isHiddenMode ? 'Hidden Mode' : state.isPracticeMode ? 'Practice' : state.isReverseMode ? 'Reverse Mode' : 'Quick Play')}
         lives={state.lives}
         maxLives={state.maxLives}
         elapsedMs={state.elapsedMs}
@@ -348,24 +661,34 @@ export default function GameScreen({
         coins={state.puzzleCoins}
         coinChange={coinChange}
         isHiddenMode={state.isHiddenMode}
+        isPracticeMode={state.isPracticeMode}
         onBackClick={() => setShowExitConfirm(true)}
         className="shrink-0"
       />
 
       {/* Puzzle Grid - flex-1 min-h-0 allows proper shrinking within flexbox */}
       <div className="flex-1 min-h-0 flex items-center justify-center p-2 relative z-10">
+        {hintBanner}
+        {workedAnswerBanner}
+        {pauseOverlay}
         {state.puzzle ? (
           <div className="w-full h-full flex items-center justify-center">
-            <PuzzleGrid
-              puzzle={state.puzzle}
-              currentPosition={state.currentPosition}
-              visitedCells={state.visitedCells}
-              traversedConnectors={state.traversedConnectors}
-              onCellClick={canMove ? makeMove : undefined}
-              disabled={!canMove}
-              showSolution={state.showingSolution}
-              className="max-w-full max-h-full"
-            />
+            {accessibility.screenReaderMode ? textPuzzleView : (
+              <PuzzleGrid
+                puzzle={state.puzzle}
+                currentPosition={state.currentPosition}
+                visitedCells={state.visitedCells}
+                traversedConnectors={state.traversedConnectors}
+                onCellClick={canMove ? makeMove : undefined}
+                disabled={!canMove}
+                showSolution={state.showingSolution}
+                highlightPath={state.isReverseMode}
+                blurred={state.isPaused}
+                scanning={accessibility.switchScanning}
+                scanIntervalMs={SCAN_INTERVAL_OPTIONS[accessibility.scanSpeed]}
+                className="max-w-full max-h-full"
+              />
+            )}
           </div>
         ) : state.error ? (
           <div className="text-center">
@@ -383,12 +706,23 @@ export default function GameScreen({
         )}
       </div>
 
+      {/* Reverse mode keypad - shrink-0 to prevent compression */}
+      {state.isReverseMode && (
+        <div className="shrink-0 flex justify-center pb-2 relative z-10">
+          {renderKeypad(false)}
+        </div>
+      )}
+
       {/* Action Buttons - shrink-0 to prevent compression */}
       <ActionButtons
-        onReset={resetPuzzle}
+        onReset={handleReset}
         onNewPuzzle={handleNewPuzzle}
-        onChangeDifficulty={() => navigate('/play/circuit-challenge/quick')}
+        onChangeDifficulty={handleChangeDifficulty}
         onPrint={handlePrint}
+        onShare={handleShare}
+        onUndo={handleUndo}
+        onPause={handlePause}
+        onHint={handleHint}
         onViewSolution={state.status === 'lost' ? showSolution : undefined}
         showViewSolution={state.status === 'lost' && !state.showingSolution}
         onContinue={handleContinueToSummary}
@@ -397,6 +731,9 @@ export default function GameScreen({
         className="shrink-0"
       />
 
+      {shareModal}
+      {liveRegion}
+
       {/* Exit Confirmation Modal */}
       <Modal
         isOpen={showExitConfirm}
@@ -404,7 +741,7 @@ export default function GameScreen({
         title="Exit Puzzle?"
       >
         <p className="mb-6 text-text-secondary">
-          Your progress on this puzzle will be lost.
+          {exitMessage}
         </p>
         <div className="flex gap-3">
           <Button
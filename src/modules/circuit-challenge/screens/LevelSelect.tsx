@@ -4,6 +4,9 @@ import { useSound } from "@/app/providers/SoundProvider";
 import Header from "@/hub/components/Header";
 import { SplashBackground } from "../components";
 import { StarDisplay } from "../components/StarReveal";
+import { getStoryDifficulty, getStoryLevelDisplayName } from "../engine/storyDifficulty";
+import { useSavedGame } from "../hooks/useSavedGame";
+import { warmPuzzlePool } from "../services/puzzleGeneration";
 import { chapterAliens } from "@/shared/types/chapterAlien";
 import {
   getStoryProgress,
@@ -39,6 +42,7 @@ export default function LevelSelect() {
   const { playMusic } = useSound();
   const { chapterId } = useParams<{ chapterId: string }>();
   const chapter = parseInt(chapterId || "1", 10);
+  const { savedGame, resumeGame } = useSavedGame();
 
   const [progress, setProgress] = useState<StoryProgressData>({
     levelProgress: {},
@@ -56,6 +60,17 @@ export default function LevelSelect() {
     setProgress(getStoryProgress());
   }, []);
 
+  // Pre-generate the current level's puzzle so it starts instantly
+  useEffect(() => {
+    if (!isChapterUnlocked(chapter, progress)) return;
+    const level = [1, 2, 3, 4, 5].find(
+      (l) => !isLevelCompleted(chapter, l, progress)
+    );
+    if (level) {
+      warmPuzzlePool(getStoryDifficulty({ chapter, level }));
+    }
+  }, [chapter, progress]);
+
   if (!alien) {
     return <div>Chapter not found</div>;
   }
@@ -90,6 +105,10 @@ export default function LevelSelect() {
     return level === 5 || chapter === 10;
   };
 
+  // Only offer to resume a level from this chapter
+  const resumeLevel =
+    savedGame?.storyChapter === chapter ? savedGame.storyLevel : undefined;
+
   const totalStars = getStarsInChapter(chapter, progress);
   const completedLevels = [1, 2, 3, 4, 5].filter((l) =>
     isLevelCompleted(chapter, l, progress)
@@ -188,6 +207,22 @@ export default function LevelSelect() {
         </div>
       </div>
 
+      {/* Resume the unfinished level */}
+      {resumeLevel && (
+        <div className="flex justify-center pb-4 relative z-10 shrink-0">
+          <button
+            onClick={resumeGame}
+            className="px-5 py-3 rounded-2xl bg-background-mid/80 text-white font-bold hover:scale-[1.02] transition-transform"
+            style={{
+              border: `2px solid ${accentColor}`,
+              boxShadow: `0 0 12px ${accentColor}50`,
+            }}
+          >
+            ⏯️ Resume Puzzle {getStoryLevelDisplayName({ chapter, level: resumeLevel })}
+          </button>
+        </div>
+      )}
+
       {/* Chapter stats */}
       <div className="text-center pb-6 relative z-10 shrink-0">
         <div className="flex items-center justify-center gap-1 mb-2">
@@ -3,6 +3,8 @@ import { useNavigate } from 'react-router-dom'
 import { useSound } from '@/app/providers/SoundProvider'
 import Header from '@/hub/components/Header'
 import { SplashBackground, MusicToggleButton } from '../components'
+import { useSavedGame } from '../hooks/useSavedGame'
+import { getStoryLevelDisplayName } from '../engine/storyDifficulty'
 
 /**
  * Circuit Challenge module menu screen
@@ -10,6 +12,7 @@ import { SplashBackground, MusicToggleButton } from '../components'
 export default function ModuleMenu() {
   const navigate = useNavigate()
   const { playMusic } = useSound()
+  const { savedGame, resumeGame } = useSavedGame()
 
   // Continue hub music on this screen
   useEffect(() => {
@@ -55,6 +58,39 @@ export default function ModuleMenu() {
 
       {/* Menu Options */}
       <div className="flex-1 flex flex-col items-center justify-center p-4 gap-4 relative z-10">
+        {/* Resume the unfinished game */}
+        {savedGame && (
+          <button
+            onClick={resumeGame}
+            className="w-full max-w-md p-4 rounded-2xl bg-background-mid/80 cursor-pointer hover:scale-[1.02] transition-transform flex items-center gap-4"
+            style={{
+              border: '1px solid rgba(0, 255, 136, 0.6)',
+            }}
+          >
+            <span className="w-14 h-14 flex items-center justify-center text-4xl" aria-hidden="true">
+              ⏯️
+            </span>
+            <div className="flex-1 text-left">
+              <h2
+                className="text-lg font-bold text-white"
+                style={{
+                  textShadow: '0 0 4px rgba(0, 255, 136, 0.6)',
+                }}
+              >
+                Resume Puzzle
+              </h2>
+              <p className="text-white/80 text-sm">
+                {savedGame.storyChapter && savedGame.storyLevel
+                  ? `Story level ${getStoryLevelDisplayName({ chapter: savedGame.storyChapter, level: savedGame.storyLevel })}`
+                  : savedGame.state.difficulty.name}
+                {' • '}
+                {savedGame.state.moveHistory.length} moves made
+              </p>
+            </div>
+            <span className="text-white/70 text-lg">›</span>
+          </button>
+        )}
+
         {/* Quick Play */}
         <button
           onClick={() => navigate('/play/circuit-challenge/quick')}
@@ -82,6 +118,31 @@ export default function ModuleMenu() {
           <span className="text-white/70 text-lg">›</span>
         </button>
 
+        {/* Practice */}
+        <button
+          onClick={() => navigate('/play/circuit-challenge/practice')}
+          className="w-full max-w-md p-4 rounded-2xl bg-background-mid/80 cursor-pointer hover:scale-[1.02] transition-transform flex items-center gap-4"
+          style={{
+            border: '1px solid rgba(56, 189, 248, 0.3)',
+          }}
+        >
+          <span className="w-14 h-14 flex items-center justify-center text-4xl" aria-hidden="true">
+            🎓
+          </span>
+          <div className="flex-1 text-left">
+            <h2
+              className="text-lg font-bold text-white"
+              style={{
+                textShadow: '0 0 4px rgba(0, 255, 136, 0.6)',
+              }}
+            >
+              Practice
+            </h2>
+            <p className="text-white/80 text-sm">No timer, no lives - learn as you go</p>
+          </div>
+          <span className="text-white/70 text-lg">›</span>
+        </button>
+
         {/* Story Mode */}
         <button
           onClick={() => navigate('/play/circuit-challenge/story')}
@@ -1,8 +1,8 @@
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useMemo, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Button, Card, Modal, Toggle, Slider } from '@/ui'
-import { StarryBackground, PuzzlePreview } from '../components'
-import { generatePrintablePuzzlesWithSettings } from '../services/printGenerator'
+import { StarryBackground, PuzzlePreview, SettingsFeasibility } from '../components'
+import { generatePrintablePuzzlesInBackground } from '../services/printGenerator'
 import { renderAllPages } from '../services/svgRenderer'
 import { openPrintPreview, openPreview } from '../services/pdfGenerator'
 import {
@@ -10,12 +10,15 @@ import {
   createCustomDifficulty,
   calculateMinPathLength,
   calculateMaxPathLength,
+  validateDifficultySettings,
 } from '../engine/difficulty'
+import { getHolePattern } from '../engine/topology'
 import type { DifficultySettings } from '../engine/types'
 import {
   DEFAULT_PRINT_CONFIG,
   type PrintConfig,
   type PrintablePuzzle,
+  type PrintBatchFailure,
 } from '../types/print'
 
 /**
@@ -43,6 +46,7 @@ export default function PuzzleMakerScreen() {
   const [config, setConfig] = useState<PrintConfig>(DEFAULT_PRINT_CONFIG)
   const [selectedPreset, setSelectedPreset] = useState(3) // Default to Level 4
   const [isCustomMode, setIsCustomMode] = useState(false)
+  const [gridHoles, setGridHoles] = useState(false)
 
   // Custom settings
   const [customSettings, setCustomSettings] = useState<Partial<DifficultySettings>>({
@@ -54,11 +58,21 @@ export default function PuzzleMakerScreen() {
     multDivRange: 5,
     gridRows: 4,
     gridCols: 5,
+    maxOperations: 1,
+    fractionsEnabled: false,
+    decimalsEnabled: false,
+    percentagesEnabled: false,
+    missingNumberEnabled: false,
+    numberClues: false,
+    negativeNumbers: false,
   })
 
   // Generation state
   const [puzzles, setPuzzles] = useState<PrintablePuzzle[]>([])
   const [isGenerating, setIsGenerating] = useState(false)
+  const [generatedCount, setGeneratedCount] = useState(0)
+  // Puzzles in the last batch that couldn't be made (cleared when settings change)
+  const [failures, setFailures] = useState<PrintBatchFailure[]>([])
   const [isExporting, setIsExporting] = useState(false)
   const [previewIndex, setPreviewIndex] = useState(0)
 
@@ -73,8 +87,12 @@ export default function PuzzleMakerScreen() {
       const settings = createCustomDifficulty({
         ...customSettings,
       })
-      settings.minPathLength = calculateMinPathLength(settings.gridRows, settings.gridCols)
-      settings.maxPathLength = calculateMaxPathLength(settings.gridRows, settings.gridCols)
+      if (gridHoles) {
+        settings.blockedCells = getHolePattern(settings.gridRows, settings.gridCols)
+      }
+      const blockedCount = settings.blockedCells?.length ?? 0
+      settings.minPathLength = calculateMinPathLength(settings.gridRows, settings.gridCols, blockedCount)
+      settings.maxPathLength = calculateMaxPathLength(settings.gridRows, settings.gridCols, blockedCount)
       return settings
     } else {
       const preset = { ...currentPreset }
@@ -82,7 +100,17 @@ export default function PuzzleMakerScreen() {
       preset.maxPathLength = calculateMaxPathLength(preset.gridRows, preset.gridCols)
       return preset
     }
-  }, [isCustomMode, customSettings, currentPreset])
+  }, [isCustomMode, customSettings, gridHoles, currentPreset])
+
+  useEffect(() => {
+    setFailures([])
+  }, [config, finalDifficulty])
+
+  // Suggestions from every failed puzzle, without repeats
+  const failureSuggestions = useMemo(
+    () => [...new Set(failures.flatMap((failure) => failure.diagnostics.suggestions))],
+    [failures]
+  )
 
   // Update config helper
   const updateConfig = (updates: Partial<PrintConfig>) => {
@@ -96,20 +124,25 @@ export default function PuzzleMakerScreen() {
   }
 
   // Generate puzzles
-  const handleGenerate = useCallback(() => {
+  const handleGenerate = useCallback(async () => {
     setIsGenerating(true)
+    setGeneratedCount(0)
+    setFailures([])
 
-    setTimeout(() => {
-      try {
-        const newPuzzles = generatePrintablePuzzlesWithSettings(config, finalDifficulty)
-        setPuzzles(newPuzzles)
-        setPreviewIndex(0)
-      } catch (err) {
-        console.error('Error generating puzzles:', err)
-      } finally {
-        setIsGenerating(false)
-      }
-    }, 100)
+    try {
+      const batch = await generatePrintablePuzzlesInBackground(
+        config,
+        finalDifficulty,
+        (completed) => setGeneratedCount(completed)
+      )
+      setPuzzles(batch.puzzles)
+      setFailures(batch.failures)
+      setPreviewIndex(0)
+    } catch (err) {
+      console.error('Error generating puzzles:', err)
+    } finally {
+      setIsGenerating(false)
+    }
   }, [config, finalDifficulty])
 
   // Print / Export to PDF
@@ -178,6 +211,10 @@ export default function PuzzleMakerScreen() {
        customSettings.multiplicationEnabled || customSettings.divisionEnabled)
     : true
 
+  // Predict whether custom settings can produce puzzles before generating
+  const feasibility = useMemo(() => validateDifficultySettings(finalDifficulty), [finalDifficulty])
+  const canGenerate = hasValidOperations && (!isCustomMode || feasibility.valid)
+
   // Calculate stats
   const totalPages = Math.ceil(puzzles.length / config.puzzlesPerPage)
 
@@ -298,6 +335,48 @@ export default function PuzzleMakerScreen() {
                 />
               )}
 
+              {/* Steps per sum slider */}
+              <Slider
+                label="Steps per Sum"
+                min={1}
+                max={3}
+                value={customSettings.maxOperations ?? 1}
+                onChange={(v) => {
+                  setCustomSettings((s) => ({ ...s, maxOperations: v }))
+                  setPuzzles([])
+                }}
+                showValue
+              />
+
+              {/* Fractions, decimals, percentages and missing numbers */}
+              <div>
+                <label className="text-sm font-medium mb-3 block">Number Topics</label>
+                <div className="flex flex-wrap gap-3">
+                  {([
+                    ['fractionsEnabled', 'Fractions (½ of 18)'],
+                    ['decimalsEnabled', 'Decimals (2.5 + 1.5)'],
+                    ['percentagesEnabled', 'Percentages (10% of 60)'],
+                    ['missingNumberEnabled', 'Missing Numbers (? + 7 = 15)'],
+                  ] as const).map(([key, label]) => (
+                    <label
+                      key={key}
+                      className="flex items-center gap-2 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={customSettings[key] ?? false}
+                        onChange={(e) => {
+                          setCustomSettings((s) => ({ ...s, [key]: e.target.checked }))
+                          setPuzzles([])
+                        }}
+                        className="w-5 h-5 rounded accent-accent-primary"
+                      />
+                      <span>{label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
               {/* Grid size selectors */}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div>
@@ -344,10 +423,135 @@ export default function PuzzleMakerScreen() {
                 </div>
               </div>
 
+              {/* Grid shape */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">Grid Shape</label>
+                <div className="flex flex-wrap gap-2">
+                  {([['square', 'Square'], ['hex', 'Hex']] as const).map(([kind, label]) => (
+                    <button
+                      key={kind}
+                      onClick={() => {
+                        setCustomSettings((s) => ({ ...s, gridTopology: kind }))
+                        setPuzzles([])
+                      }}
+                      className={`px-4 h-10 rounded transition-colors ${
+                        (customSettings.gridTopology ?? 'square') === kind
+                          ? 'bg-accent-primary text-white'
+                          : 'bg-background-dark border border-white/20 hover:border-white/40'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-text-secondary text-sm">
+                  Hex grids shift every other row, so each cell has up to six neighbours.
+                </p>
+              </div>
+
+              {/* Holes in the grid */}
+              <div>
+                <Toggle
+                  checked={gridHoles}
+                  onChange={(checked) => {
+                    setGridHoles(checked)
+                    setPuzzles([])
+                  }}
+                  label="Holes"
+                />
+                <p className="mt-2 text-text-secondary text-sm">
+                  Some cells are left out, so the path has to go around the gaps.
+                </p>
+              </div>
+
+              {/* START and FINISH placement */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">Start & Finish</label>
+                <div className="flex flex-wrap gap-2">
+                  {([['corners', 'Corners'], ['center-out', 'Centre Out'], ['random', 'Random']] as const).map(([layout, label]) => (
+                    <button
+                      key={layout}
+                      onClick={() => {
+                        setCustomSettings((s) => ({ ...s, endpointLayout: layout }))
+                        setPuzzles([])
+                      }}
+                      className={`px-4 h-10 rounded transition-colors ${
+                        (customSettings.endpointLayout ?? 'corners') === layout
+                          ? 'bg-accent-primary text-white'
+                          : 'bg-background-dark border border-white/20 hover:border-white/40'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-text-secondary text-sm">
+                  Where the path begins and ends. Centre Out starts in the middle and finishes at a corner.
+                </p>
+              </div>
+
+              {/* Checkpoints */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">Checkpoints</label>
+                <div className="flex flex-wrap gap-2">
+                  {[0, 1, 2, 3].map((n) => (
+                    <button
+                      key={n}
+                      onClick={() => {
+                        setCustomSettings((s) => ({ ...s, checkpointCount: n }))
+                        setPuzzles([])
+                      }}
+                      className={`w-10 h-10 rounded transition-colors ${
+                        (customSettings.checkpointCount ?? 0) === n
+                          ? 'bg-accent-primary text-white'
+                          : 'bg-background-dark border border-white/20 hover:border-white/40'
+                      }`}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-text-secondary text-sm">
+                  Marked cells the path must pass through before it can reach FINISH.
+                </p>
+              </div>
+
+              {/* Directed numbers */}
+              <div>
+                <Toggle
+                  checked={customSettings.negativeNumbers ?? false}
+                  onChange={(checked) => {
+                    setCustomSettings((s) => ({ ...s, negativeNumbers: checked }))
+                    setPuzzles([])
+                  }}
+                  label="Negative Numbers"
+                />
+                <p className="mt-2 text-text-secondary text-sm">
+                  Connectors and sums can go below zero, like "3 − 8" or "−2 + (−4)".
+                </p>
+              </div>
+
+              {/* Number-property clues */}
+              <div>
+                <Toggle
+                  checked={customSettings.numberClues ?? false}
+                  onChange={(checked) => {
+                    setCustomSettings((s) => ({ ...s, numberClues: checked }))
+                    setPuzzles([])
+                  }}
+                  label="Number Property Clues"
+                />
+                <p className="mt-2 text-text-secondary text-sm">
+                  Cells give clues like "square of 6" or "next multiple of 7 after 40" instead of sums.
+                </p>
+              </div>
+
               {/* Custom description */}
               <p className="text-text-secondary text-sm">
                 {getPresetDescription(finalDifficulty)}
               </p>
+
+              {hasValidOperations && <SettingsFeasibility result={feasibility} />}
             </div>
           )}
         </Card>
@@ -381,6 +585,14 @@ export default function PuzzleMakerScreen() {
             onChange={(checked) => updateConfig({ showAnswers: checked })}
             label="Include answer key pages"
           />
+
+          {/* Order by measured difficulty */}
+          <Toggle
+            checked={config.sortByDifficulty ?? false}
+            onChange={(checked) => updateConfig({ sortByDifficulty: checked })}
+            label="Order from easiest to hardest"
+            className="mt-3"
+          />
         </Card>
 
         {/* Generate Button */}
@@ -391,14 +603,28 @@ export default function PuzzleMakerScreen() {
             size="lg"
             onClick={handleGenerate}
             loading={isGenerating}
-            disabled={isGenerating || !hasValidOperations}
+            disabled={isGenerating || !canGenerate}
           >
             {isGenerating
-              ? 'Generating Puzzles...'
+              ? `Generating Puzzles... ${generatedCount}/${config.puzzleCount}`
               : `Generate ${config.puzzleCount} Puzzles`}
           </Button>
         </div>
 
+        {/* Why some puzzles couldn't be made */}
+        {failures.length > 0 && (
+          <Card className="mb-6 p-4 border border-error/50">
+            <h3 className="font-bold mb-2">
+              {failures.length} of {config.puzzleCount} puzzles couldn't be made
+            </h3>
+            <ul className="list-disc pl-5 space-y-1 text-sm">
+              {failureSuggestions.map((suggestion) => (
+                <li key={suggestion}>{suggestion}</li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
         {/* Preview Section */}
         {puzzles.length > 0 && (
           <Card className="p-4 mb-6">
@@ -421,8 +647,13 @@ export default function PuzzleMakerScreen() {
                 &larr; Previous
               </Button>
 
-              <span className="text-sm">
+              <span className="text-sm text-center">
                 Puzzle {previewIndex + 1} of {puzzles.length}
+                {puzzles[previewIndex].measuredDifficulty !== undefined && (
+                  <span className="block text-xs text-text-secondary">
+                    Measured difficulty {puzzles[previewIndex].measuredDifficulty}/10
+                  </span>
+                )}
               </span>
 
               <Button
@@ -2,14 +2,38 @@ import { useState, useMemo, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useSound } from '@/app/providers/SoundProvider'
 import { Button, Card, Toggle, Slider } from '@/ui'
-import { StarryBackground } from '../components'
+import { StarryBackground, SettingsFeasibility } from '../components'
 import {
   DIFFICULTY_PRESETS,
   createCustomDifficulty,
   calculateMinPathLength,
   calculateMaxPathLength,
+  validateDifficultySettings,
 } from '../engine/difficulty'
-import type { DifficultySettings } from '../engine/types'
+import { getHolePattern } from '../engine/topology'
+import type { DifficultySettings, GenerationDiagnostics, GenerationStep } from '../engine/types'
+import { requestPuzzle } from '../services/puzzleGeneration'
+import type { Puzzle } from '../types'
+
+/**
+ * Labels for the generation step each failed attempt stopped at
+ */
+const STEP_LABELS: Record<GenerationStep, string> = {
+  topology: 'placing START, FINISH and the holes',
+  path: 'finding a path through the grid',
+  values: 'choosing connector numbers',
+  validation: 'making sums for every answer',
+  error: 'on an unexpected error',
+}
+
+/**
+ * Settings every practice game uses on top of the chosen difficulty
+ */
+const PRACTICE_SETTINGS: Partial<DifficultySettings> = {
+  practiceMode: true,
+  hiddenMode: false,
+  undoRule: 'free',
+}
 
 /**
  * Get human-readable description of a difficulty preset
@@ -26,10 +50,15 @@ function getPresetDescription(preset: DifficultySettings): string {
   return `${opsStr.charAt(0).toUpperCase() + opsStr.slice(1)}, numbers up to ${preset.addSubRange}, ${preset.gridRows}×${preset.gridCols} grid`
 }
 
+interface QuickPlaySetupProps {
+  // Practice mode: no timer or lives, worked answers after mistakes
+  practice?: boolean
+}
+
 /**
- * Quick Play setup screen for selecting difficulty
+ * Quick Play setup screen for selecting difficulty (also used to set up practice)
  */
-export default function QuickPlaySetup() {
+export default function QuickPlaySetup({ practice = false }: QuickPlaySetupProps = {}) {
   const navigate = useNavigate()
   const { playMusic } = useSound()
 
@@ -41,6 +70,8 @@ export default function QuickPlaySetup() {
   const [selectedPreset, setSelectedPreset] = useState(0) // Start new players at Level 1
   const [isCustomMode, setIsCustomMode] = useState(false)
   const [hiddenMode, setHiddenMode] = useState(false)
+  const [reverseMode, setReverseMode] = useState(false)
+  const [gridHoles, setGridHoles] = useState(false)
 
   // Custom settings start as a copy of the selected preset
   const [customSettings, setCustomSettings] = useState<Partial<DifficultySettings>>({
@@ -52,6 +83,14 @@ export default function QuickPlaySetup() {
     multDivRange: 5,
     gridRows: 4,
     gridCols: 5,
+    maxOperations: 1,
+    mistakeDistractors: false,
+    fractionsEnabled: false,
+    decimalsEnabled: false,
+    percentagesEnabled: false,
+    missingNumberEnabled: false,
+    numberClues: false,
+    negativeNumbers: false,
   })
 
   const currentPreset = DIFFICULTY_PRESETS[selectedPreset]
@@ -62,23 +101,58 @@ export default function QuickPlaySetup() {
       const settings = createCustomDifficulty({
         ...customSettings,
         hiddenMode,
+        reverseMode,
       })
+      if (practice) {
+        Object.assign(settings, PRACTICE_SETTINGS)
+      }
+      if (gridHoles) {
+        settings.blockedCells = getHolePattern(settings.gridRows, settings.gridCols)
+      }
       // Recalculate path lengths
-      settings.minPathLength = calculateMinPathLength(settings.gridRows, settings.gridCols)
-      settings.maxPathLength = calculateMaxPathLength(settings.gridRows, settings.gridCols)
+      const blockedCount = settings.blockedCells?.length ?? 0
+      settings.minPathLength = calculateMinPathLength(settings.gridRows, settings.gridCols, blockedCount)
+      settings.maxPathLength = calculateMaxPathLength(settings.gridRows, settings.gridCols, blockedCount)
       return settings
     } else {
       const preset = { ...currentPreset }
       preset.hiddenMode = hiddenMode
+      preset.reverseMode = reverseMode
+      if (practice) {
+        Object.assign(preset, PRACTICE_SETTINGS)
+      }
       preset.minPathLength = calculateMinPathLength(preset.gridRows, preset.gridCols)
       preset.maxPathLength = calculateMaxPathLength(preset.gridRows, preset.gridCols)
       return preset
     }
-  }, [isCustomMode, customSettings, currentPreset, hiddenMode])
+  }, [isCustomMode, customSettings, gridHoles, currentPreset, hiddenMode, reverseMode, practice])
+
+  // Why the last custom settings couldn't make a puzzle (cleared when settings change)
+  const [diagnostics, setDiagnostics] = useState<GenerationDiagnostics | null>(null)
+  const [isCheckingSettings, setIsCheckingSettings] = useState(false)
+
+  useEffect(() => {
+    setDiagnostics(null)
+  }, [finalDifficulty])
+
+  const handleStart = async () => {
+    // Custom settings might be impossible, so make sure a puzzle can be built first
+    // (and play that puzzle rather than generating another)
+    let puzzle: Puzzle | undefined
+    if (isCustomMode) {
+      setIsCheckingSettings(true)
+      const result = await requestPuzzle(finalDifficulty)
+      setIsCheckingSettings(false)
+
+      if (!result.success) {
+        setDiagnostics(result.diagnostics)
+        return
+      }
+      puzzle = result.puzzle
+    }
 
-  const handleStart = () => {
     navigate('/play/circuit-challenge/game', {
-      state: { difficulty: finalDifficulty },
+      state: { difficulty: finalDifficulty, puzzle },
     })
   }
 
@@ -115,6 +189,10 @@ export default function QuickPlaySetup() {
        customSettings.multiplicationEnabled || customSettings.divisionEnabled)
     : true
 
+  // Predict whether custom settings can produce puzzles before pressing Play
+  const feasibility = useMemo(() => validateDifficultySettings(finalDifficulty), [finalDifficulty])
+  const canStart = hasValidOperations && (!isCustomMode || feasibility.valid)
+
   return (
     <div className="min-h-screen flex flex-col relative">
       <StarryBackground />
@@ -131,7 +209,7 @@ export default function QuickPlaySetup() {
           >
             <span className="text-xl">←</span>
           </Button>
-          <h1 className="text-2xl font-display font-bold">Quick Play</h1>
+          <h1 className="text-2xl font-display font-bold">{practice ? 'Practice' : 'Quick Play'}</h1>
         </div>
 
         {/* Difficulty Selection */}
@@ -214,6 +292,42 @@ export default function QuickPlaySetup() {
                 />
               )}
 
+              {/* Steps per sum slider (e.g. 3 × 4 + 2 has two steps) */}
+              <Slider
+                label="Steps per Sum"
+                min={1}
+                max={3}
+                value={customSettings.maxOperations ?? 1}
+                onChange={(v) => setCustomSettings((s) => ({ ...s, maxOperations: v }))}
+                showValue
+              />
+
+              {/* Fractions, decimals, percentages and missing numbers */}
+              <div>
+                <label className="text-sm font-medium mb-3 block">Number Topics</label>
+                <div className="flex flex-wrap gap-3">
+                  {([
+                    ['fractionsEnabled', 'Fractions (½ of 18)'],
+                    ['decimalsEnabled', 'Decimals (2.5 + 1.5)'],
+                    ['percentagesEnabled', 'Percentages (10% of 60)'],
+                    ['missingNumberEnabled', 'Missing Numbers (? + 7 = 15)'],
+                  ] as const).map(([key, label]) => (
+                    <label
+                      key={key}
+                      className="flex items-center gap-2 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={customSettings[key] ?? false}
+                        onChange={(e) => setCustomSettings((s) => ({ ...s, [key]: e.target.checked }))}
+                        className="w-5 h-5 rounded accent-accent-primary"
+                      />
+                      <span>{label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
               {/* Grid size selectors */}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div>
@@ -253,29 +367,186 @@ export default function QuickPlaySetup() {
                   </div>
                 </div>
               </div>
+
+              {/* Grid shape */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">Grid Shape</label>
+                <div className="flex flex-wrap gap-2">
+                  {([['square', 'Square'], ['hex', 'Hex']] as const).map(([kind, label]) => (
+                    <button
+                      key={kind}
+                      onClick={() => setCustomSettings((s) => ({ ...s, gridTopology: kind }))}
+                      className={`px-4 h-10 rounded transition-colors ${
+                        (customSettings.gridTopology ?? 'square') === kind
+                          ? 'bg-accent-primary text-white'
+                          : 'bg-background-dark border border-white/20 hover:border-white/40'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-text-secondary text-sm">
+                  Hex grids shift every other row, so each cell has up to six neighbours.
+                </p>
+              </div>
+
+              {/* Holes in the grid */}
+              <div>
+                <Toggle
+                  checked={gridHoles}
+                  onChange={setGridHoles}
+                  label="Holes"
+                />
+                <p className="mt-2 text-text-secondary text-sm">
+                  Some cells are left out, so the path has to go around the gaps.
+                </p>
+              </div>
+
+              {/* START and FINISH placement */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">Start & Finish</label>
+                <div className="flex flex-wrap gap-2">
+                  {([['corners', 'Corners'], ['center-out', 'Centre Out'], ['random', 'Random']] as const).map(([layout, label]) => (
+                    <button
+                      key={layout}
+                      onClick={() => setCustomSettings((s) => ({ ...s, endpointLayout: layout }))}
+                      className={`px-4 h-10 rounded transition-colors ${
+                        (customSettings.endpointLayout ?? 'corners') === layout
+                          ? 'bg-accent-primary text-white'
+                          : 'bg-background-dark border border-white/20 hover:border-white/40'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-text-secondary text-sm">
+                  Where the path begins and ends. Centre Out starts in the middle and finishes at a corner.
+                </p>
+              </div>
+
+              {/* Checkpoints */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">Checkpoints</label>
+                <div className="flex flex-wrap gap-2">
+                  {[0, 1, 2, 3].map((n) => (
+                    <button
+                      key={n}
+                      onClick={() => setCustomSettings((s) => ({ ...s, checkpointCount: n }))}
+                      className={`w-10 h-10 rounded transition-colors ${
+                        (customSettings.checkpointCount ?? 0) === n
+                          ? 'bg-accent-primary text-white'
+                          : 'bg-background-dark border border-white/20 hover:border-white/40'
+                      }`}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-text-secondary text-sm">
+                  Marked cells the path must pass through before it can reach FINISH.
+                </p>
+              </div>
+
+              {/* Directed numbers */}
+              <div>
+                <Toggle
+                  checked={customSettings.negativeNumbers ?? false}
+                  onChange={(checked) => setCustomSettings((s) => ({ ...s, negativeNumbers: checked }))}
+                  label="Negative Numbers"
+                />
+                <p className="mt-2 text-text-secondary text-sm">
+                  Connectors and sums can go below zero, like "3 − 8" or "−2 + (−4)".
+                </p>
+              </div>
+
+              {/* Number-property clues */}
+              <div>
+                <Toggle
+                  checked={customSettings.numberClues ?? false}
+                  onChange={(checked) => setCustomSettings((s) => ({ ...s, numberClues: checked }))}
+                  label="Number Property Clues"
+                />
+                <p className="mt-2 text-text-secondary text-sm">
+                  Cells give clues like "square of 6" or "next multiple of 7 after 40" instead of sums.
+                </p>
+              </div>
+
+              {/* Common-mistake distractors */}
+              <div>
+                <Toggle
+                  checked={customSettings.mistakeDistractors ?? false}
+                  onChange={(checked) => setCustomSettings((s) => ({ ...s, mistakeDistractors: checked }))}
+                  label="Tricky Wrong Answers"
+                />
+                <p className="mt-2 text-text-secondary text-sm">
+                  Wrong paths show answers you'd get from common mistakes, like being one out.
+                </p>
+              </div>
+
+              {hasValidOperations && <SettingsFeasibility result={feasibility} />}
             </div>
           )}
         </Card>
 
-        {/* Hidden Mode Toggle */}
+        {/* Play Mode Toggles */}
         <Card className="mb-8 p-4">
+          {practice ? (
+            <p className="mb-4 text-text-secondary text-sm">
+              No timer and no lives. Get one wrong and you'll see how it works out.
+            </p>
+          ) : (
+            <>
+              <Toggle
+                checked={hiddenMode && !reverseMode}
+                onChange={setHiddenMode}
+                disabled={reverseMode}
+                label="Hidden Mode"
+              />
+              <p className="mt-2 mb-4 text-text-secondary text-sm">
+                Mistakes aren't revealed until the end. No lives - always reach FINISH.
+              </p>
+            </>
+          )}
+
           <Toggle
-            checked={hiddenMode}
-            onChange={setHiddenMode}
-            label="Hidden Mode"
+            checked={reverseMode}
+            onChange={setReverseMode}
+            label="Reverse Mode"
           />
           <p className="mt-2 text-text-secondary text-sm">
-            Mistakes aren't revealed until the end. No lives - always reach FINISH.
+            The path is shown - type each cell's answer to light up the next connector.
           </p>
         </Card>
 
+        {/* Why custom settings failed */}
+        {isCustomMode && diagnostics && (
+          <Card className="mb-6 p-4 border border-error/50">
+            <h3 className="font-bold mb-2">These settings can't make a puzzle</h3>
+            <ul className="list-disc pl-5 space-y-1 text-sm mb-3">
+              {diagnostics.suggestions.map((suggestion) => (
+                <li key={suggestion}>{suggestion}</li>
+              ))}
+            </ul>
+            <p className="text-text-secondary text-xs">
+              Out of {diagnostics.attempts} tries:{' '}
+              {(Object.keys(STEP_LABELS) as GenerationStep[])
+                .filter((step) => diagnostics.failuresByStep[step] > 0)
+                .map((step) => `${diagnostics.failuresByStep[step]} got stuck ${STEP_LABELS[step]}`)
+                .join(', ')}
+            </p>
+          </Card>
+        )}
+
         {/* Start Button */}
         <Button
           variant="primary"
           size="lg"
           fullWidth
           onClick={handleStart}
-          disabled={!hasValidOperations}
+          loading={isCheckingSettings}
+          disabled={!canStart || isCheckingSettings}
         >
           Start Puzzle
         </Button>
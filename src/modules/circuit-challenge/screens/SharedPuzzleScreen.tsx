@@ -0,0 +1,76 @@
+import { useMemo } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { Button } from '@/ui'
+import { StarryBackground } from '../components'
+import { decodePuzzleCode } from '../engine/puzzleCode'
+import {
+  getDifficultyByLevel,
+  createCustomDifficulty,
+  calculateMinPathLength,
+  calculateMaxPathLength,
+} from '../engine/difficulty'
+import { getPuzzleTopology } from '../engine/topology'
+import type { DifficultySettings } from '../engine/types'
+import type { Puzzle } from '../types'
+import GameScreen from './GameScreen'
+
+/**
+ * Difficulty used for timers and "New Puzzle" when playing a shared puzzle
+ */
+function getSharedPuzzleDifficulty(puzzle: Puzzle): DifficultySettings {
+  const gridRows = puzzle.grid.length
+  const gridCols = puzzle.grid[0]?.length ?? 0
+  const topology = getPuzzleTopology(puzzle)
+
+  const base = puzzle.difficulty >= 1 && puzzle.difficulty <= 10
+    ? getDifficultyByLevel(puzzle.difficulty)
+    : createCustomDifficulty({})
+
+  return {
+    ...base,
+    gridRows,
+    gridCols,
+    gridTopology: topology.kind,
+    blockedCells: topology.blockedCells,
+    startCell: topology.start,
+    finishCell: topology.finish,
+    checkpointCount: puzzle.grid.flat().filter(cell => cell.isCheckpoint).length,
+    minPathLength: calculateMinPathLength(gridRows, gridCols, topology.blockedCells.length),
+    maxPathLength: calculateMaxPathLength(gridRows, gridCols, topology.blockedCells.length),
+  }
+}
+
+/**
+ * Opens a puzzle shared as a code in the URL
+ */
+export default function SharedPuzzleScreen() {
+  const { code } = useParams<{ code: string }>()
+  const navigate = useNavigate()
+
+  const result = useMemo(() => decodePuzzleCode(code ?? ''), [code])
+  const difficulty = useMemo(
+    () => (result.success ? getSharedPuzzleDifficulty(result.puzzle) : undefined),
+    [result]
+  )
+
+  if (!result.success) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center relative p-4">
+        <StarryBackground />
+        <div className="relative z-10 text-center max-w-md">
+          <div className="text-4xl mb-4">⚠️</div>
+          <h1 className="text-2xl font-display font-bold mb-2">Puzzle Not Found</h1>
+          <p className="text-text-secondary mb-2">
+            This puzzle code doesn't work. Check the link and try again.
+          </p>
+          <p className="text-error text-sm mb-6">{result.error}</p>
+          <Button variant="primary" onClick={() => navigate('/play/circuit-challenge')}>
+            Back to Menu
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return <GameScreen sharedPuzzle={result.puzzle} sharedDifficulty={difficulty} />
+}
@@ -1,14 +1,17 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
 import { useSound } from '@/app/providers/SoundProvider'
-import { Button, Card } from '@/ui'
-import { StarryBackground, AnimatedStarReveal, Confetti } from '../components'
+import { useStorage } from '@/app/providers/StorageProvider'
+import { Button, Card, Modal } from '@/ui'
+import { StarryBackground, AnimatedStarReveal, Confetti, ReplayViewer } from '../components'
 import { chapterAliens, getRandomWinMessage, type ChapterAlien } from '@/shared/types/chapterAlien'
 import {
   getStoryProgress,
   isChapterCompleted,
   recordLevelAttempt,
 } from '@/shared/types/storyProgress'
+import { calculateStars } from '../engine/storyDifficulty'
+import { createGameReplay } from '../services/replay'
 import type { Puzzle } from '../types'
 import type { DifficultySettings } from '../engine/types'
 import type { GameMoveResult, HiddenModeResults } from '../types/gameState'
@@ -16,12 +19,16 @@ import type { GameMoveResult, HiddenModeResults } from '../types/gameState'
 interface SummaryData {
   won: boolean
   isHiddenMode: boolean
+  isReverseMode?: boolean
+  isPracticeMode?: boolean
   elapsedMs: number
   puzzleCoins: number
   moveHistory: GameMoveResult[]
   hiddenModeResults?: HiddenModeResults
   difficulty: DifficultySettings
   puzzle: Puzzle
+  /** Created when the game ended, so reloading the summary doesn't record it again */
+  gameId: string
   // Story mode
   storyAlien?: ChapterAlien
   storyChapter?: number
@@ -63,6 +70,7 @@ export default function SummaryScreen() {
   const location = useLocation()
   const navigate = useNavigate()
   const { playMusic, playSound, stopMusic } = useSound()
+  const { recordFinishedGame } = useStorage()
   const data = location.state as SummaryData | null
 
   // State for character reveal animation
@@ -74,6 +82,8 @@ export default function SummaryScreen() {
   const [unlockedAlien, setUnlockedAlien] = useState<ChapterAlien | null>(null)
   const [chapterUnlockVisible, setChapterUnlockVisible] = useState(false)
 
+  const [showReplay, setShowReplay] = useState(false)
+
   const isStoryMode = !!data?.storyAlien
 
   const dismissCharacter = useCallback(() => {
@@ -125,6 +135,35 @@ export default function SummaryScreen() {
     }
   }, [data, isStoryMode])
 
+  // The replay shares the game id, so a reloaded summary matches the replay already saved
+  const replay = useMemo(() => {
+    if (!data) return null
+    try {
+      return createGameReplay(data)
+    } catch (error) {
+      console.warn('Failed to build replay:', error)
+      return null
+    }
+  }, [data])
+
+  // Keep a replay of every game so it can be watched here or by a parent, and practice
+  // results apart from Quick Play stats. The ref stops StrictMode's second run recording
+  // the game again; the game id does the same when the summary is reloaded
+  const recordedGameIdRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!data || recordedGameIdRef.current === data.gameId) return
+    recordedGameIdRef.current = data.gameId
+
+    const correctMoves = data.moveHistory.filter(m => m.correct).length
+    recordFinishedGame({
+      gameId: data.gameId,
+      practice: data.isPracticeMode
+        ? { completed: data.won, correctMoves, mistakes: data.moveHistory.length - correctMoves }
+        : undefined,
+      replay: replay ?? undefined,
+    }).catch((error) => console.warn('Failed to record finished game:', error))
+  }, [data, replay, recordFinishedGame])
+
   // Play victory or defeat stinger on mount
   useEffect(() => {
     if (!data) return
@@ -169,9 +208,13 @@ export default function SummaryScreen() {
   // - 1 star: Completed the puzzle
   // - 2 stars: Completed with no lives lost (no mistakes)
   // - 3 stars: Completed with no lives lost AND average tile time < 5 seconds
+  // Reverse mode scores every answered cell as a tile
   const averageTileTimeMs = correctMoves > 0 ? data.elapsedMs / correctMoves : 0
   const starsEarned = (() => {
     if (!data.won) return 0
+    if (data.isReverseMode) {
+      return calculateStars(mistakes, Math.floor(data.elapsedMs / 1000), correctMoves)
+    }
     let stars = 1 // 1 star for completing
     if (mistakes === 0) {
       stars = 2 // 2 stars for no mistakes
@@ -220,6 +263,8 @@ export default function SummaryScreen() {
     if (isStoryMode && data.storyChapter) {
       // Go back to level select
       navigate(`/play/circuit-challenge/story/${data.storyChapter}`)
+    } else if (data.isPracticeMode) {
+      navigate('/play/circuit-challenge/practice')
     } else {
       navigate('/play/circuit-challenge/quick')
     }
@@ -244,6 +289,12 @@ export default function SummaryScreen() {
     })
   }
 
+  const replayModal = (
+    <Modal isOpen={showReplay} onClose={() => setShowReplay(false)} title="Replay" size="lg">
+      <ReplayViewer puzzle={data.puzzle} moves={data.moveHistory} hiddenMode={data.isHiddenMode} />
+    </Modal>
+  )
+
   // Get random message - use alien-specific messages for story mode wins
   const alienMessage = data.won
     ? (data.storyAlien ? getRandomWinMessage(data.storyAlien) : winMessages[Math.floor(Math.random() * winMessages.length)])
@@ -385,6 +436,59 @@ export default function SummaryScreen() {
     )
   }
 
+  // Practice complete (no stars or points, just how it went)
+  if (data.isPracticeMode) {
+    return (
+      <div className="summary-screen min-h-screen flex flex-col items-center justify-center p-4 relative">
+        <StarryBackground />
+
+        <Card className="w-full max-w-md text-center relative z-10 p-6">
+          <h1 className="text-2xl font-display font-bold mb-4">
+            Practice Complete!
+          </h1>
+
+          <div className="space-y-3 mb-6">
+            <p className="flex justify-between items-center px-4">
+              <span className="flex items-center gap-2">
+                <span className="text-accent-primary">✓</span> Correct:
+              </span>
+              <span className="font-bold text-accent-primary text-xl">
+                {correctMoves}
+              </span>
+            </p>
+            <p className="flex justify-between items-center px-4">
+              <span className="flex items-center gap-2">
+                <span className="text-error">✗</span> Mistakes:
+              </span>
+              <span className="font-bold text-error text-xl">{mistakes}</span>
+            </p>
+            <p className="flex justify-between items-center px-4">
+              <span>Accuracy:</span>
+              <span className="font-bold text-xl">{accuracy}%</span>
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <Button variant="primary" fullWidth onClick={handlePlayAgain}>
+              Practise Again
+            </Button>
+            <Button variant="ghost" fullWidth onClick={handleChangeDifficulty}>
+              Change Difficulty
+            </Button>
+            <Button variant="ghost" fullWidth onClick={() => setShowReplay(true)}>
+              Watch Replay
+            </Button>
+            <Button variant="ghost" fullWidth onClick={handleExit}>
+              Exit
+            </Button>
+          </div>
+        </Card>
+
+        {replayModal}
+      </div>
+    )
+  }
+
   // Hidden mode win
   if (data.isHiddenMode && data.hiddenModeResults) {
     const { correctCount, mistakeCount } = data.hiddenModeResults
@@ -467,11 +571,16 @@ export default function SummaryScreen() {
                 </Button>
               </>
             )}
+            <Button variant="ghost" fullWidth onClick={() => setShowReplay(true)}>
+              Watch Replay
+            </Button>
             <Button variant="ghost" fullWidth onClick={handleExit}>
               Exit
             </Button>
           </div>
         </Card>
+
+        {replayModal}
       </div>
     )
   }
@@ -539,11 +648,16 @@ export default function SummaryScreen() {
                 </Button>
               </>
             )}
+            <Button variant="ghost" fullWidth onClick={() => setShowReplay(true)}>
+              Watch Replay
+            </Button>
             <Button variant="ghost" fullWidth onClick={handleExit}>
               Exit
             </Button>
           </div>
         </Card>
+
+        {replayModal}
       </div>
     )
   }
@@ -584,11 +698,16 @@ export default function SummaryScreen() {
           <Button variant="secondary" fullWidth onClick={handleViewSolution}>
             See Solution
           </Button>
+          <Button variant="ghost" fullWidth onClick={() => setShowReplay(true)}>
+            Watch Replay
+          </Button>
           <Button variant="ghost" fullWidth onClick={handleExit}>
             Exit
           </Button>
         </div>
       </Card>
+
+      {replayModal}
     </div>
   )
 }
@@ -3,3 +3,4 @@ export { default as QuickPlaySetup } from './QuickPlaySetup'
 export { default as GameScreen } from './GameScreen'
 export { default as SummaryScreen } from './SummaryScreen'
 export { default as PuzzleMakerScreen } from './PuzzleMakerScreen'
+export { default as SharedPuzzleScreen } from './SharedPuzzleScreen'
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { describeMove, formatSpokenTime, getConnectorChoices } from '../narration'
+import { createSeededPuzzle } from '@/test/factories'
+import { getDifficultyByLevel } from '../../engine/difficulty'
+import { createInitialGameState } from '../../hooks/gameReducer'
+import type { GameMoveResult } from '../../types/gameState'
+
+describe('Narration', () => {
+  it('offers the solution connector among the moves from START', () => {
+    const puzzle = createSeededPuzzle()
+    const [start, next] = puzzle.solution.path
+    const choices = getConnectorChoices(puzzle, start, [start])
+
+    const step = choices.find(c => c.cell.row === next.row && c.cell.col === next.col)
+    expect(step?.value).toBe(puzzle.grid[start.row][start.col].answer)
+    expect(choices.every(c => c.label.length > 0)).toBe(true)
+  })
+
+  it('keeps hidden mode moves secret', () => {
+    const puzzle = createSeededPuzzle()
+    const [from, to] = puzzle.solution.path
+    const move: GameMoveResult = { correct: false, fromCell: from, toCell: to, connectorValue: 0, cellAnswer: 0, timeMs: 0 }
+    const state = { ...createInitialGameState(getDifficultyByLevel(1)), puzzle }
+
+    expect(describeMove({ ...state, isHiddenMode: true }, move)).not.toMatch(/wrong|correct/i)
+    expect(describeMove(state, move)).toMatch(/^Wrong move/)
+  })
+
+  it('reads times out in words', () => {
+    expect(formatSpokenTime(5000)).toBe('5 seconds')
+    expect(formatSpokenTime(60000)).toBe('1 minute')
+    expect(formatSpokenTime(125000)).toBe('2 minutes 5 seconds')
+  })
+})
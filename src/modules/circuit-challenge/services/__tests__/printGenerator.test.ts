@@ -1,10 +1,12 @@
 import { describe, it, expect } from 'vitest'
 import {
   generatePrintablePuzzles,
+  generatePrintablePuzzlesInBackground,
   generateBatchId,
   validatePrintConfig,
 } from '../printGenerator'
 import type { PrintConfig } from '../../types/print'
+import { getDifficultyByLevel, createCustomDifficulty } from '../../engine/difficulty'
 
 const defaultConfig: PrintConfig = {
   pageSize: 'A4',
@@ -28,12 +30,12 @@ const defaultConfig: PrintConfig = {
 describe('Print Generator', () => {
   describe('generatePrintablePuzzles', () => {
     it('generates requested number of puzzles', () => {
-      const puzzles = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 3 })
+      const { puzzles } = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 3 })
       expect(puzzles.length).toBe(3)
     })
 
     it('generates puzzles with correct structure', () => {
-      const puzzles = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
+      const { puzzles } = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
       expect(puzzles.length).toBe(1)
 
       const puzzle = puzzles[0]
@@ -50,7 +52,7 @@ describe('Print Generator', () => {
     })
 
     it('includes all cells in the grid', () => {
-      const puzzles = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
+      const { puzzles } = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
       const puzzle = puzzles[0]
 
       const expectedCellCount = puzzle.gridRows * puzzle.gridCols
@@ -58,7 +60,7 @@ describe('Print Generator', () => {
     })
 
     it('marks start and end cells correctly', () => {
-      const puzzles = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
+      const { puzzles } = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
       const puzzle = puzzles[0]
 
       const startCells = puzzle.cells.filter(c => c.isStart)
@@ -77,7 +79,7 @@ describe('Print Generator', () => {
     })
 
     it('has at least one solution cell marked', () => {
-      const puzzles = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
+      const { puzzles } = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
       const puzzle = puzzles[0]
 
       const solutionCells = puzzle.cells.filter(c => c.inSolution)
@@ -85,16 +87,24 @@ describe('Print Generator', () => {
     })
 
     it('assigns sequential puzzle numbers', () => {
-      const puzzles = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 5 })
+      const { puzzles } = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 5 })
 
       for (let i = 0; i < puzzles.length; i++) {
         expect(puzzles[i].puzzleNumber).toBe(i + 1)
       }
     })
 
+    it('orders puzzles by measured difficulty when requested', () => {
+      const { puzzles } = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 5, sortByDifficulty: true })
+      const scores = puzzles.map(p => p.measuredDifficulty ?? 0)
+
+      expect(scores).toEqual([...scores].sort((a, b) => a - b))
+      puzzles.forEach((puzzle, i) => expect(puzzle.puzzleNumber).toBe(i + 1))
+    })
+
     it('respects difficulty setting', () => {
-      const easyPuzzles = generatePrintablePuzzles({ ...defaultConfig, difficulty: 0 })
-      const hardPuzzles = generatePrintablePuzzles({ ...defaultConfig, difficulty: 9 })
+      const { puzzles: easyPuzzles } = generatePrintablePuzzles({ ...defaultConfig, difficulty: 0 })
+      const { puzzles: hardPuzzles } = generatePrintablePuzzles({ ...defaultConfig, difficulty: 9 })
 
       // Different difficulties should produce different grid sizes
       // Level 0 (Tiny Tot) is 3x4, Level 9 (Expert) is 6x8
@@ -102,7 +112,7 @@ describe('Print Generator', () => {
     })
 
     it('has connectors with solution markers', () => {
-      const puzzles = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
+      const { puzzles } = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
       const puzzle = puzzles[0]
 
       // Should have some solution connectors
@@ -111,7 +121,7 @@ describe('Print Generator', () => {
     })
 
     it('generates valid solution indices', () => {
-      const puzzles = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
+      const { puzzles } = generatePrintablePuzzles({ ...defaultConfig, puzzleCount: 1 })
       const puzzle = puzzles[0]
 
       const maxIndex = puzzle.gridRows * puzzle.gridCols - 1
@@ -129,6 +139,37 @@ describe('Print Generator', () => {
     })
   })
 
+  describe('generatePrintablePuzzlesInBackground', () => {
+    it('generates the batch and reports progress for each puzzle', async () => {
+      const progress: number[] = []
+      const { puzzles, failures } = await generatePrintablePuzzlesInBackground(
+        { ...defaultConfig, puzzleCount: 3 },
+        getDifficultyByLevel(2),
+        (completed, total) => {
+          expect(total).toBe(3)
+          progress.push(completed)
+        }
+      )
+
+      expect(puzzles).toHaveLength(3)
+      expect(failures).toEqual([])
+      expect(progress).toEqual([1, 2, 3])
+      puzzles.forEach((puzzle, i) => expect(puzzle.puzzleNumber).toBe(i + 1))
+    })
+
+    it('returns failed puzzles with their diagnostics', async () => {
+      const impossible = createCustomDifficulty({ connectorMin: 5, connectorMax: 6, gridRows: 5, gridCols: 5 })
+      const { puzzles, failures } = await generatePrintablePuzzlesInBackground(
+        { ...defaultConfig, puzzleCount: 2 },
+        impossible
+      )
+
+      expect(puzzles).toEqual([])
+      expect(failures.map(f => f.attempt)).toEqual([1, 2])
+      expect(failures[0].diagnostics.failuresByStep.values).toBeGreaterThan(0)
+    })
+  })
+
   describe('generateBatchId', () => {
     it('generates unique IDs', () => {
       const ids = new Set<string>()
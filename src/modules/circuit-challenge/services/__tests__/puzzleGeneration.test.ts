@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { getDifficultyByLevel } from '../../engine/difficulty'
+import { createSeededPuzzle } from '@/test/factories'
+import type { GenerationWorkerRequest, GenerationWorkerResponse } from '../puzzleGeneration'
+
+/**
+ * Stand-in for the generation worker that finishes requests when the test says so
+ */
+class FakeWorker {
+  static instance: FakeWorker | null = null
+  posted: GenerationWorkerRequest[] = []
+  onmessage: ((event: MessageEvent<GenerationWorkerResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+
+  constructor() {
+    FakeWorker.instance = this
+  }
+
+  postMessage(request: GenerationWorkerRequest) {
+    this.posted.push(request)
+  }
+
+  terminate() {}
+
+  /** Finish the request the worker is running with a ready puzzle */
+  finishCurrent() {
+    const { id } = this.posted[this.posted.length - 1]
+    const done: GenerationWorkerResponse = { id, type: 'done', results: [{ success: true, puzzle: createSeededPuzzle() }] }
+    this.onmessage?.({ data: done } as MessageEvent<GenerationWorkerResponse>)
+  }
+}
+
+describe('Puzzle Generation Queue', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  })
+
+  it('runs a requested puzzle before waiting pool refills', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { warmPuzzlePool, requestPuzzle } = await import('../puzzleGeneration')
+    const warmed = getDifficultyByLevel(1)
+    const requested = getDifficultyByLevel(2)
+
+    warmPuzzlePool(warmed)
+    const worker = FakeWorker.instance!
+    expect(worker.posted).toHaveLength(1)
+
+    const pending = requestPuzzle(requested)
+    worker.finishCurrent()
+
+    // The second refill for the warmed pool is still waiting, but the player goes first
+    expect(worker.posted).toHaveLength(2)
+    expect(worker.posted[1].difficulty).toEqual(requested)
+
+    worker.finishCurrent()
+    expect((await pending).success).toBe(true)
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { createGameReplay, getReplayFrame, getReplayStepDelayMs } from '../replay'
+import { createSeededPuzzle } from '@/test/factories'
+import { decodePuzzleCode } from '../../engine/puzzleCode'
+import { getDifficultyByLevel } from '../../engine/difficulty'
+import type { GameMoveResult } from '../../types/gameState'
+import type { Puzzle } from '../../types'
+
+/**
+ * Moves along the solution with one mistake after the first step
+ */
+function makeMoves(puzzle: Puzzle): GameMoveResult[] {
+  const [first, second, third] = puzzle.solution.path
+  return [
+    { correct: true, fromCell: first, toCell: second, connectorValue: 0, cellAnswer: 0, timeMs: 1000 },
+    { correct: false, fromCell: second, toCell: first, connectorValue: 0, cellAnswer: 0, timeMs: 1100 },
+    { correct: true, fromCell: second, toCell: third, connectorValue: 0, cellAnswer: 0, timeMs: 9000 },
+  ]
+}
+
+describe('Replay', () => {
+  describe('getReplayFrame', () => {
+    it('starts at START with nothing traversed', () => {
+      const puzzle = createSeededPuzzle()
+      const frame = getReplayFrame(puzzle, makeMoves(puzzle), 0)
+      expect(frame.currentPosition).toEqual(puzzle.solution.path[0])
+      expect(frame.traversedConnectors).toEqual([])
+      expect(frame.timeMs).toBe(0)
+    })
+
+    it('shows a mistake without moving the player', () => {
+      const puzzle = createSeededPuzzle()
+      const frame = getReplayFrame(puzzle, makeMoves(puzzle), 2)
+      expect(frame.currentPosition).toEqual(puzzle.solution.path[1])
+      expect(frame.wrongMoves).toEqual([puzzle.solution.path[0]])
+      expect(frame.timeMs).toBe(1100)
+    })
+
+    it('moves the player on mistakes in hidden mode', () => {
+      const puzzle = createSeededPuzzle()
+      const frame = getReplayFrame(puzzle, makeMoves(puzzle), 2, true)
+      expect(frame.currentPosition).toEqual(puzzle.solution.path[0])
+      expect(frame.wrongMoves).toEqual([])
+    })
+
+    it('clears the mistake once the next move is shown', () => {
+      const puzzle = createSeededPuzzle()
+      const frame = getReplayFrame(puzzle, makeMoves(puzzle), 3)
+      expect(frame.currentPosition).toEqual(puzzle.solution.path[2])
+      expect(frame.traversedConnectors.length).toBe(2)
+      expect(frame.wrongMoves).toEqual([])
+    })
+  })
+
+  describe('getReplayStepDelayMs', () => {
+    it('follows the gap between moves within limits', () => {
+      const moves = makeMoves(createSeededPuzzle())
+      expect(getReplayStepDelayMs(moves, 0)).toBe(1000)
+      expect(getReplayStepDelayMs(moves, 1)).toBe(300)
+      expect(getReplayStepDelayMs(moves, 2)).toBe(2000)
+      expect(getReplayStepDelayMs(moves, 3)).toBe(0)
+    })
+  })
+
+  describe('createGameReplay', () => {
+    it('keeps the game id and the puzzle as a code', () => {
+      const puzzle = createSeededPuzzle()
+      const replay = createGameReplay({
+        gameId: 'game-1',
+        puzzle,
+        difficulty: getDifficultyByLevel(1),
+        moveHistory: makeMoves(puzzle),
+        won: true,
+        isHiddenMode: false,
+        elapsedMs: 9000,
+      })
+
+      expect(replay.id).toBe('game-1')
+      expect(replay.moves).toHaveLength(3)
+      const decoded = decodePuzzleCode(replay.puzzleCode)
+      expect(decoded.success && decoded.puzzle.grid).toEqual(puzzle.grid)
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  SAVED_GAME_VERSION,
+  createSavedGame,
+  isSavedGameFor,
+  parseSavedGame,
+  shouldSaveGame,
+} from '../savedGame'
+import { gameReducer, createInitialGameState } from '../../hooks/gameReducer'
+import { getDifficultyByLevel } from '../../engine/difficulty'
+import { createSeededPuzzle } from '@/test/factories'
+import type { GameAction, GameState } from '../../types/gameState'
+
+/**
+ * A game started at the given time, with the first step of the solution taken
+ */
+function playFirstStep(startedAt: number): GameState {
+  vi.spyOn(Date, 'now').mockReturnValue(startedAt)
+  const puzzle = createSeededPuzzle()
+  const actions: GameAction[] = [
+    { type: 'PUZZLE_GENERATED', payload: puzzle },
+    { type: 'START_TIMER' },
+    { type: 'MAKE_MOVE', payload: puzzle.solution.path[1] },
+  ]
+  return actions.reduce(gameReducer, createInitialGameState(getDifficultyByLevel(1)))
+}
+
+/**
+ * A saved record as it comes back from storage
+ */
+function roundTrip(state: GameState): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(createSavedGame(state))) as Record<string, unknown>
+}
+
+describe('Saved Games', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('freezes the clock at the moment of saving', () => {
+    const state = playFirstStep(10000)
+    vi.spyOn(Date, 'now').mockReturnValue(25000)
+
+    const saved = createSavedGame(state, { storyChapter: 2, storyLevel: 3 })
+
+    expect(saved.version).toBe(SAVED_GAME_VERSION)
+    expect(saved.state.elapsedMs).toBe(15000)
+    expect(saved.state.startTime).toBeNull()
+    expect(saved.state.isTimerRunning).toBe(false)
+    expect(isSavedGameFor(saved, { storyChapter: 2, storyLevel: 3 })).toBe(true)
+    expect(isSavedGameFor(saved)).toBe(false)
+  })
+
+  it('only saves games in play with a move made', () => {
+    const state = playFirstStep(10000)
+
+    expect(shouldSaveGame(state)).toBe(true)
+    expect(shouldSaveGame({ ...state, moveHistory: [] })).toBe(false)
+    expect(shouldSaveGame({ ...state, status: 'won' })).toBe(false)
+    expect(shouldSaveGame({ ...state, showingSolution: true })).toBe(false)
+    expect(shouldSaveGame({ ...state, puzzle: null })).toBe(false)
+  })
+
+  it('reads back a saved game', () => {
+    const state = playFirstStep(10000)
+
+    expect(parseSavedGame(roundTrip(state))?.state.moveHistory).toHaveLength(1)
+  })
+
+  it('drops old versions and damaged records', () => {
+    const data = roundTrip(playFirstStep(10000))
+    const state = data.state as Record<string, unknown>
+
+    expect(parseSavedGame(null)).toBeNull()
+    expect(parseSavedGame({ ...data, version: undefined })).toBeNull()
+    expect(parseSavedGame({ ...data, version: SAVED_GAME_VERSION + 1 })).toBeNull()
+    expect(parseSavedGame({ ...data, state: { ...state, lives: '3' } })).toBeNull()
+    expect(parseSavedGame({ ...data, state: { ...state, currentPosition: null } })).toBeNull()
+    expect(parseSavedGame({ ...data, state: { ...state, status: 'won' } })).toBeNull()
+    expect(parseSavedGame({ ...data, state: { ...state, undoStack: [{ moveHistory: [] }] } })).toBeNull()
+    expect(parseSavedGame({
+      ...data,
+      state: { ...state, puzzle: { ...(state.puzzle as object), connectors: undefined } },
+    })).toBeNull()
+  })
+
+  it('restores the clock and the undo stack', () => {
+    const state = playFirstStep(10000)
+    vi.spyOn(Date, 'now').mockReturnValue(25000)
+    const saved = parseSavedGame(roundTrip(state))!
+
+    // Time away from the game isn't counted
+    vi.spyOn(Date, 'now').mockReturnValue(90000)
+    const restored = gameReducer(createInitialGameState(), { type: 'RESTORE_GAME', payload: saved.state })
+
+    expect(restored.startTime).toBe(90000 - 15000)
+    expect(restored.elapsedMs).toBe(15000)
+    expect(restored.isTimerRunning).toBe(true)
+    expect(restored.undoStack).toHaveLength(1)
+    expect(restored.currentPosition).toEqual(state.currentPosition)
+
+    // The restored step can still be undone
+    const free = { ...restored, difficulty: { ...restored.difficulty, undoRule: 'free' as const } }
+    const undone = gameReducer(free, { type: 'UNDO_MOVE' })
+    expect(undone.currentPosition).toEqual(state.puzzle!.solution.path[0])
+  })
+})
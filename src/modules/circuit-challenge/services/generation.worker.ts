@@ -0,0 +1,29 @@
+import { generatePuzzle } from '../engine/generator'
+import type { GenerationResult } from '../engine/types'
+import type { GenerationWorkerRequest, GenerationWorkerResponse } from './puzzleGeneration'
+
+/**
+ * Web Worker that runs the puzzle generator off the main thread
+ * Each request generates `count` puzzles, reporting progress after each one
+ */
+self.onmessage = (event: MessageEvent<GenerationWorkerRequest>) => {
+  const { id, difficulty, count } = event.data
+  const results: GenerationResult[] = []
+
+  for (let i = 0; i < count; i++) {
+    // Retry a failed puzzle once before giving up on it
+    let result = generatePuzzle(difficulty)
+    if (!result.success) {
+      result = generatePuzzle(difficulty)
+    }
+    results.push(result)
+
+    if (count > 1) {
+      const progress: GenerationWorkerResponse = { id, type: 'progress', completed: i + 1, total: count }
+      self.postMessage(progress)
+    }
+  }
+
+  const done: GenerationWorkerResponse = { id, type: 'done', results }
+  self.postMessage(done)
+}
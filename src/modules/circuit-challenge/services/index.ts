@@ -1,3 +1,7 @@
 export * from './printGenerator'
 export * from './svgRenderer'
 export * from './pdfGenerator'
+export * from './puzzleGeneration'
+export * from './replay'
+export * from './narration'
+export * from './savedGame'
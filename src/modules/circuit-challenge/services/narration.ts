@@ -0,0 +1,131 @@
+import { formatNumber } from '../engine/expressions'
+import { getAvailableMoves } from '../engine/solver'
+import { getDirectionName, getPuzzleTopology, type DirectionName } from '../engine/topology'
+import type { Coordinate, Puzzle } from '../types'
+import type { GameMoveResult, GameState } from '../types/gameState'
+
+/**
+ * A move the player can make, described for screen readers and the text-only layout
+ */
+export interface ConnectorChoice {
+  /** Cell the connector leads to */
+  cell: Coordinate
+  /** Value on the connector */
+  value: number
+  /** Which way the connector goes on screen */
+  direction: DirectionName
+  /** What the cell at the other end says */
+  label: string
+}
+
+const isSameCell = (a: Coordinate, b: Coordinate) => a.row === b.row && a.col === b.col
+
+/**
+ * What a cell says, read the way it's shown on the grid
+ */
+export function describeCell(puzzle: Puzzle, coord: Coordinate): string {
+  const cell = puzzle.grid[coord.row]?.[coord.col]
+  if (!cell) return ''
+  if (cell.isFinish) return 'FINISH'
+
+  const parts = [cell.isStart ? `START, ${cell.expression}` : cell.expression]
+  if (cell.isCheckpoint) parts.push('checkpoint')
+  return parts.join(', ')
+}
+
+/**
+ * Connectors leading from the current cell to every cell the player can move to
+ */
+export function getConnectorChoices(
+  puzzle: Puzzle,
+  currentPosition: Coordinate,
+  visitedCells: Coordinate[]
+): ConnectorChoice[] {
+  const topology = getPuzzleTopology(puzzle)
+
+  return getAvailableMoves(puzzle, currentPosition, visitedCells).map(cell => {
+    const connector = puzzle.connectors.find(c =>
+      (isSameCell(c.cellA, currentPosition) && isSameCell(c.cellB, cell)) ||
+      (isSameCell(c.cellB, currentPosition) && isSameCell(c.cellA, cell))
+    )
+
+    return {
+      cell,
+      value: connector?.value ?? 0,
+      direction: getDirectionName(topology, currentPosition, cell),
+      label: describeCell(puzzle, cell),
+    }
+  })
+}
+
+/**
+ * One connector choice as a sentence, e.g. "up-right, connector 12, to 3 × 4"
+ */
+export function describeConnectorChoice(choice: ConnectorChoice): string {
+  return `${choice.direction}, connector ${formatNumber(choice.value)}, to ${choice.label}`
+}
+
+/**
+ * Where the player is and where they can go next
+ */
+export function describePosition(state: GameState): string {
+  if (!state.puzzle) return ''
+
+  const here = `You are on ${describeCell(state.puzzle, state.currentPosition)}.`
+  if (state.isReverseMode) {
+    return `${here} Type the answer to this cell.`
+  }
+
+  const choices = getConnectorChoices(state.puzzle, state.currentPosition, state.visitedCells)
+  if (choices.length === 0) {
+    return `${here} There are no connectors left to take.`
+  }
+
+  const count = choices.length === 1 ? '1 connector' : `${choices.length} connectors`
+  return `${here} ${count}: ${choices.map(describeConnectorChoice).join('; ')}.`
+}
+
+/**
+ * Time read out in words, e.g. "1 minute 5 seconds"
+ */
+export function formatSpokenTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`
+
+  if (minutes === 0) return plural(seconds, 'second')
+  if (seconds === 0) return plural(minutes, 'minute')
+  return `${plural(minutes, 'minute')} ${plural(seconds, 'second')}`
+}
+
+/**
+ * Lives left and time taken, for the status line and on request
+ * Hidden mode keeps lives secret and practice mode has neither
+ */
+export function describeStatus(state: GameState): string {
+  if (state.isPracticeMode) return 'Practice: no timer or lives.'
+
+  const time = `Time ${formatSpokenTime(state.elapsedMs)}.`
+  if (state.isHiddenMode) return time
+  return `${state.lives} of ${state.maxLives} lives left. ${time}`
+}
+
+/**
+ * Announcement for a move just made
+ * Hidden mode never says whether a move was right until the end
+ */
+export function describeMove(state: GameState, move: GameMoveResult): string {
+  if (!state.puzzle) return ''
+
+  const target = describeCell(state.puzzle, move.toCell)
+  if (state.isHiddenMode) return `Moved to ${target}.`
+  if (move.correct) return `Correct! Moved to ${target}.`
+
+  const lives = state.isPracticeMode
+    ? ''
+    : ` ${state.lives === 1 ? '1 life' : `${state.lives} lives`} left.`
+  return state.isReverseMode
+    ? `Wrong answer.${lives}`
+    : `Wrong move, ${target} isn't next.${lives}`
+}
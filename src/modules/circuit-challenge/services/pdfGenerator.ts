@@ -2,6 +2,8 @@ import type { PrintConfig, PrintablePuzzle } from '../types/print'
 import { A4_PORTRAIT, LETTER_PORTRAIT, DEFAULT_PRINT_CONFIG } from '../types/print'
 import { renderPuzzleSVGStandalone } from './svgRenderer'
 import type { Puzzle } from '../types'
+import { getMeasuredScore } from '../engine/analyzer'
+import { getPuzzleTopology, isBlockedCell } from '../engine/topology'
 
 /**
  * Get the page layout based on config.
@@ -320,6 +322,7 @@ export async function svgToDataURL(
 function convertPuzzleToPrintable(puzzle: Puzzle, puzzleNumber: number = 1): PrintablePuzzle {
   const gridRows = puzzle.grid.length
   const gridCols = puzzle.grid[0]?.length || 0
+  const topology = getPuzzleTopology(puzzle)
 
   // Create solution set for quick lookup
   const solutionCoords = puzzle.solution.path.map((c) => `${c.row},${c.col}`)
@@ -340,6 +343,8 @@ function convertPuzzleToPrintable(puzzle: Puzzle, puzzleNumber: number = 1): Pri
 
   for (let row = 0; row < gridRows; row++) {
     for (let col = 0; col < gridCols; col++) {
+      if (isBlockedCell(topology, { row, col })) continue
+
       const cell = puzzle.grid[row][col]
       const index = row * gridCols + col
       const coordKey = `${row},${col}`
@@ -357,6 +362,7 @@ function convertPuzzleToPrintable(puzzle: Puzzle, puzzleNumber: number = 1): Pri
         answer: cell.answer,
         isStart: cell.isStart,
         isEnd: cell.isFinish,
+        isCheckpoint: cell.isCheckpoint,
         inSolution,
       })
     }
@@ -397,8 +403,10 @@ function convertPuzzleToPrintable(puzzle: Puzzle, puzzleNumber: number = 1): Pri
     puzzleNumber,
     difficulty: puzzle.difficulty,
     difficultyName: difficultyNames[puzzle.difficulty] || `Level ${puzzle.difficulty}`,
+    measuredDifficulty: getMeasuredScore(puzzle),
     gridRows,
     gridCols,
+    topology,
     cells,
     connectors,
     targetSum,
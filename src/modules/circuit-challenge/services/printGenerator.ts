@@ -1,9 +1,14 @@
 import { generatePuzzle } from '../engine/generator'
 import { DIFFICULTY_PRESETS } from '../engine/difficulty'
-import type { DifficultySettings } from '../engine/types'
+import { getMeasuredScore } from '../engine/analyzer'
+import { getPuzzleTopology, isBlockedCell } from '../engine/topology'
+import { generatePuzzleBatch } from './puzzleGeneration'
+import type { GenerationProgressCallback } from './puzzleGeneration'
+import type { DifficultySettings, GenerationResult } from '../engine/types'
 import type { Puzzle, Coordinate, Connector } from '../types'
 import type {
   PrintConfig,
+  PrintBatchResult,
   PrintablePuzzle,
   PrintableCell,
   PrintableConnector,
@@ -12,32 +17,13 @@ import type {
 /**
  * Generates a batch of puzzles formatted for printing.
  */
-export function generatePrintablePuzzles(config: PrintConfig): PrintablePuzzle[] {
-  const puzzles: PrintablePuzzle[] = []
+export function generatePrintablePuzzles(config: PrintConfig): PrintBatchResult {
   const difficultyIndex = Math.max(0, Math.min(9, config.difficulty))
   const diffSettings = DIFFICULTY_PRESETS[difficultyIndex]
 
-  for (let i = 0; i < config.puzzleCount; i++) {
-    // Generate a puzzle using the existing engine
-    const result = generatePuzzle(diffSettings)
-
-    if (result.success) {
-      // Convert to printable format
-      const printable = convertToPrintable(result.puzzle, i + 1, difficultyIndex)
-      puzzles.push(printable)
-    } else {
-      // If generation fails, retry once more
-      const retry = generatePuzzle(diffSettings)
-      if (retry.success) {
-        const printable = convertToPrintable(retry.puzzle, i + 1, difficultyIndex)
-        puzzles.push(printable)
-      } else {
-        console.warn(`Failed to generate puzzle ${i + 1}:`, retry.error)
-      }
-    }
-  }
-
-  return puzzles
+  return collectPrintBatch(generateBatchResults(diffSettings, config.puzzleCount), config, (puzzle, puzzleNumber) =>
+    convertToPrintable(puzzle, puzzleNumber, difficultyIndex)
+  )
 }
 
 /**
@@ -46,30 +32,71 @@ export function generatePrintablePuzzles(config: PrintConfig): PrintablePuzzle[]
 export function generatePrintablePuzzlesWithSettings(
   config: PrintConfig,
   diffSettings: DifficultySettings
-): PrintablePuzzle[] {
-  const puzzles: PrintablePuzzle[] = []
+): PrintBatchResult {
+  return collectPrintBatch(generateBatchResults(diffSettings, config.puzzleCount), config, (puzzle, puzzleNumber) =>
+    convertToPrintableWithSettings(puzzle, puzzleNumber, diffSettings)
+  )
+}
 
-  for (let i = 0; i < config.puzzleCount; i++) {
-    // Generate a puzzle using the existing engine with custom settings
+/**
+ * Generates puzzles on the main thread, retrying each failed puzzle once.
+ */
+function generateBatchResults(diffSettings: DifficultySettings, count: number): GenerationResult[] {
+  const results: GenerationResult[] = []
+  for (let i = 0; i < count; i++) {
     const result = generatePuzzle(diffSettings)
+    results.push(result.success ? result : generatePuzzle(diffSettings))
+  }
+  return results
+}
+
+/**
+ * Generates a batch of printable puzzles in the background using custom difficulty settings.
+ * Reports progress after each puzzle so the Puzzle Maker can show it.
+ */
+export async function generatePrintablePuzzlesInBackground(
+  config: PrintConfig,
+  diffSettings: DifficultySettings,
+  onProgress?: GenerationProgressCallback
+): Promise<PrintBatchResult> {
+  const results = await generatePuzzleBatch(diffSettings, config.puzzleCount, onProgress)
+  return collectPrintBatch(results, config, (puzzle, puzzleNumber) =>
+    convertToPrintableWithSettings(puzzle, puzzleNumber, diffSettings)
+  )
+}
+
+/**
+ * Converts generation results into a print batch.
+ * Puzzles that worked are numbered in order with no gaps; failures keep their diagnostics.
+ */
+function collectPrintBatch(
+  results: GenerationResult[],
+  config: PrintConfig,
+  convert: (puzzle: Puzzle, puzzleNumber: number) => PrintablePuzzle
+): PrintBatchResult {
+  const batch: PrintBatchResult = { puzzles: [], failures: [] }
 
+  results.forEach((result, i) => {
     if (result.success) {
-      // Convert to printable format
-      const printable = convertToPrintableWithSettings(result.puzzle, i + 1, diffSettings)
-      puzzles.push(printable)
+      batch.puzzles.push(convert(result.puzzle, batch.puzzles.length + 1))
     } else {
-      // If generation fails, retry once more
-      const retry = generatePuzzle(diffSettings)
-      if (retry.success) {
-        const printable = convertToPrintableWithSettings(retry.puzzle, i + 1, diffSettings)
-        puzzles.push(printable)
-      } else {
-        console.warn(`Failed to generate puzzle ${i + 1}:`, retry.error)
-      }
+      batch.failures.push({ attempt: i + 1, error: result.error, diagnostics: result.diagnostics })
     }
+  })
+
+  if (config.sortByDifficulty) {
+    batch.puzzles = sortByMeasuredDifficulty(batch.puzzles)
   }
+  return batch
+}
 
-  return puzzles
+/**
+ * Orders printable puzzles easiest first and renumbers them to match.
+ */
+function sortByMeasuredDifficulty(puzzles: PrintablePuzzle[]): PrintablePuzzle[] {
+  return [...puzzles]
+    .sort((a, b) => (a.measuredDifficulty ?? 0) - (b.measuredDifficulty ?? 0))
+    .map((puzzle, i) => ({ ...puzzle, puzzleNumber: i + 1 }))
 }
 
 /**
@@ -99,6 +126,7 @@ function convertToPrintable(
   const { grid, connectors, solution } = puzzle
   const gridRows = grid.length
   const gridCols = grid[0]?.length || 0
+  const topology = getPuzzleTopology(puzzle)
 
   // Create solution set for quick lookup (using coordinate key)
   const solutionCoords = solution.path.map(
@@ -122,6 +150,8 @@ function convertToPrintable(
 
   for (let row = 0; row < gridRows; row++) {
     for (let col = 0; col < gridCols; col++) {
+      if (isBlockedCell(topology, { row, col })) continue
+
       const cell = grid[row][col]
       const index = row * gridCols + col
       const coordKey = `${row},${col}`
@@ -140,6 +170,7 @@ function convertToPrintable(
         answer: cell.answer,
         isStart: cell.isStart,
         isEnd: cell.isFinish,
+        isCheckpoint: cell.isCheckpoint,
         inSolution,
       })
     }
@@ -170,8 +201,10 @@ function convertToPrintable(
     puzzleNumber,
     difficulty: difficultyIndex,
     difficultyName: DIFF_NAMES[difficultyIndex] || `Level ${difficultyIndex + 1}`,
+    measuredDifficulty: getMeasuredScore(puzzle),
     gridRows,
     gridCols,
+    topology,
     cells,
     connectors: printableConnectors,
     targetSum,
@@ -190,6 +223,7 @@ function convertToPrintableWithSettings(
   const { grid, connectors, solution } = puzzle
   const gridRows = grid.length
   const gridCols = grid[0]?.length || 0
+  const topology = getPuzzleTopology(puzzle)
 
   // Create solution set for quick lookup (using coordinate key)
   const solutionCoords = solution.path.map(
@@ -212,6 +246,8 @@ function convertToPrintableWithSettings(
 
   for (let row = 0; row < gridRows; row++) {
     for (let col = 0; col < gridCols; col++) {
+      if (isBlockedCell(topology, { row, col })) continue
+
       const cell = grid[row][col]
       const index = row * gridCols + col
       const coordKey = `${row},${col}`
@@ -229,6 +265,7 @@ function convertToPrintableWithSettings(
         answer: cell.answer,
         isStart: cell.isStart,
         isEnd: cell.isFinish,
+        isCheckpoint: cell.isCheckpoint,
         inSolution,
       })
     }
@@ -262,8 +299,10 @@ function convertToPrintableWithSettings(
     puzzleNumber,
     difficulty: 0, // Custom difficulty doesn't have a preset index
     difficultyName,
+    measuredDifficulty: getMeasuredScore(puzzle),
     gridRows,
     gridCols,
+    topology,
     cells,
     connectors: printableConnectors,
     targetSum,
@@ -0,0 +1,244 @@
+import { generatePuzzle } from '../engine/generator'
+import type { DifficultySettings, GenerationResult } from '../engine/types'
+import type { Puzzle } from '../types'
+
+/**
+ * Message sent to the generation worker
+ */
+export interface GenerationWorkerRequest {
+  id: number
+  difficulty: DifficultySettings
+  count: number
+}
+
+/**
+ * Message sent back by the generation worker
+ */
+export type GenerationWorkerResponse =
+  | { id: number; type: 'progress'; completed: number; total: number }
+  | { id: number; type: 'done'; results: GenerationResult[] }
+
+/**
+ * Progress callback for batch generation
+ */
+export type GenerationProgressCallback = (completed: number, total: number) => void
+
+/**
+ * Ready puzzles kept per difficulty
+ */
+const POOL_SIZE = 2
+
+/**
+ * Most difficulties kept warm at once (oldest is dropped first)
+ */
+const MAX_POOLED_DIFFICULTIES = 4
+
+interface PendingRequest {
+  request: GenerationWorkerRequest
+  /** Pool refills wait behind anything a player is waiting for */
+  isBackground: boolean
+  resolve: (results: GenerationResult[]) => void
+  onProgress?: GenerationProgressCallback
+}
+
+let worker: Worker | null = null
+let workerUnavailable = false
+let nextRequestId = 1
+/** Requests waiting for the worker, which runs one at a time */
+const queuedRequests: PendingRequest[] = []
+/** Request the worker is running now */
+let activeRequest: PendingRequest | null = null
+
+/** Ready-to-play puzzles, keyed by difficulty */
+const puzzlePools = new Map<string, Puzzle[]>()
+/** Number of puzzles currently being generated for each pool */
+const poolRefills = new Map<string, number>()
+
+/**
+ * Key identifying a difficulty's pool
+ */
+function getPoolKey(difficulty: DifficultySettings): string {
+  return JSON.stringify(difficulty)
+}
+
+/**
+ * Generate on the main thread (tests, or browsers without module workers)
+ */
+function generateInline(
+  difficulty: DifficultySettings,
+  count: number,
+  onProgress?: GenerationProgressCallback
+): GenerationResult[] {
+  const results: GenerationResult[] = []
+  for (let i = 0; i < count; i++) {
+    let result = generatePuzzle(difficulty)
+    if (!result.success) {
+      result = generatePuzzle(difficulty)
+    }
+    results.push(result)
+    onProgress?.(i + 1, count)
+  }
+  return results
+}
+
+/**
+ * Stop using the worker and finish any outstanding requests on the main thread
+ */
+function abandonWorker(): void {
+  worker?.terminate()
+  worker = null
+  workerUnavailable = true
+  poolRefills.clear()
+
+  const pending = activeRequest ? [activeRequest, ...queuedRequests] : [...queuedRequests]
+  activeRequest = null
+  queuedRequests.length = 0
+  pending.forEach(request => request.resolve([]))
+}
+
+/**
+ * Send the next waiting request to the worker, taking requests a player is waiting for first
+ */
+function sendNextRequest(): void {
+  if (!worker || activeRequest || queuedRequests.length === 0) return
+
+  const foregroundIndex = queuedRequests.findIndex(request => !request.isBackground)
+  const [next] = queuedRequests.splice(Math.max(0, foregroundIndex), 1)
+  activeRequest = next
+  worker.postMessage(next.request)
+}
+
+/**
+ * Lazily start the generation worker, or return null if workers aren't available
+ */
+function getWorker(): Worker | null {
+  if (worker || workerUnavailable) return worker
+  if (typeof Worker === 'undefined') {
+    workerUnavailable = true
+    return null
+  }
+
+  try {
+    worker = new Worker(new URL('./generation.worker.ts', import.meta.url), { type: 'module' })
+  } catch (error) {
+    console.warn('Puzzle generation worker unavailable:', error)
+    workerUnavailable = true
+    return null
+  }
+
+  worker.onmessage = (event: MessageEvent<GenerationWorkerResponse>) => {
+    const message = event.data
+    const request = activeRequest
+    if (!request || request.request.id !== message.id) return
+
+    if (message.type === 'progress') {
+      request.onProgress?.(message.completed, message.total)
+    } else {
+      activeRequest = null
+      request.resolve(message.results)
+      sendNextRequest()
+    }
+  }
+
+  worker.onerror = (event) => {
+    console.warn('Puzzle generation worker failed:', event.message)
+    abandonWorker()
+  }
+
+  return worker
+}
+
+/**
+ * Generate puzzles in the worker, falling back to the main thread if needed
+ * Background work (pool refills) runs after anything a player is waiting for,
+ * and never falls back, so it can't block the main thread
+ */
+function runGeneration(
+  difficulty: DifficultySettings,
+  count: number,
+  onProgress?: GenerationProgressCallback,
+  isBackground = false
+): Promise<GenerationResult[]> {
+  if (!getWorker()) {
+    return Promise.resolve(isBackground ? [] : generateInline(difficulty, count, onProgress))
+  }
+
+  return new Promise(resolve => {
+    queuedRequests.push({
+      request: { id: nextRequestId++, difficulty, count },
+      isBackground,
+      // An abandoned worker resolves with nothing, so redo the work here if a player is waiting
+      resolve: results =>
+        resolve(results.length === count || isBackground
+          ? results
+          : generateInline(difficulty, count, onProgress)),
+      onProgress,
+    })
+    sendNextRequest()
+  })
+}
+
+/**
+ * Top up a difficulty's pool in the background
+ * Only runs when a worker is available, so warming never blocks the main thread
+ */
+function refillPool(difficulty: DifficultySettings): void {
+  const key = getPoolKey(difficulty)
+  const pool = puzzlePools.get(key) ?? []
+  const inFlight = poolRefills.get(key) ?? 0
+  const needed = POOL_SIZE - pool.length - inFlight
+  if (needed <= 0 || !getWorker()) return
+
+  // Keep the number of warm difficulties bounded (Map keeps insertion order)
+  if (!puzzlePools.has(key)) {
+    puzzlePools.set(key, pool)
+    while (puzzlePools.size > MAX_POOLED_DIFFICULTIES) {
+      const oldest = puzzlePools.keys().next().value as string
+      puzzlePools.delete(oldest)
+    }
+  }
+
+  // One puzzle per request, so a player's request never waits behind more than one refill
+  poolRefills.set(key, inFlight + needed)
+  for (let i = 0; i < needed; i++) {
+    runGeneration(difficulty, 1, undefined, true).then(([result]) => {
+      poolRefills.set(key, Math.max(0, (poolRefills.get(key) ?? 0) - 1))
+      const current = puzzlePools.get(key)
+      if (current && result?.success) current.push(result.puzzle)
+    })
+  }
+}
+
+/**
+ * Start generating puzzles for a difficulty so the next request is instant
+ */
+export function warmPuzzlePool(difficulty: DifficultySettings): void {
+  refillPool(difficulty)
+}
+
+/**
+ * Get a puzzle for the given difficulty
+ * Served from the warm pool when possible, then the pool is topped up again
+ */
+export async function requestPuzzle(difficulty: DifficultySettings): Promise<GenerationResult> {
+  const pool = puzzlePools.get(getPoolKey(difficulty))
+  const pooled = pool?.shift()
+
+  const result: GenerationResult = pooled
+    ? { success: true, puzzle: pooled }
+    : (await runGeneration(difficulty, 1))[0]
+
+  refillPool(difficulty)
+  return result
+}
+
+/**
+ * Generate a batch of puzzles off the main thread, reporting progress as each one finishes
+ */
+export function generatePuzzleBatch(
+  difficulty: DifficultySettings,
+  count: number,
+  onProgress?: GenerationProgressCallback
+): Promise<GenerationResult[]> {
+  return runGeneration(difficulty, count, onProgress)
+}
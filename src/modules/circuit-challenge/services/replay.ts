@@ -0,0 +1,111 @@
+import type { CircuitChallengeReplay } from '@/shared/services/progress'
+import { encodePuzzleCode } from '../engine/puzzleCode'
+import { getPuzzleTopology } from '../engine/topology'
+import type { DifficultySettings } from '../engine/types'
+import type { Coordinate, Puzzle } from '../types'
+import type { GameMoveResult } from '../types/gameState'
+
+/**
+ * Shortest and longest pause between moves when playing a replay back
+ */
+const MIN_REPLAY_STEP_MS = 300
+const MAX_REPLAY_STEP_MS = 2000
+
+/**
+ * What the grid looks like after some number of moves
+ */
+export interface ReplayFrame {
+  currentPosition: Coordinate
+  visitedCells: Coordinate[]
+  traversedConnectors: Array<{ cellA: Coordinate; cellB: Coordinate }>
+  /** Cell the last move tried to reach, if it was a mistake */
+  wrongMoves: Coordinate[]
+  /** Connector the last move tried to take, if it was a mistake */
+  wrongConnectors: Array<{ cellA: Coordinate; cellB: Coordinate }>
+  /** Game time of the last move shown */
+  timeMs: number
+}
+
+/**
+ * Rebuild the grid after the first moveCount moves
+ * Mistakes only move the player in hidden mode; otherwise they stay where they were
+ */
+export function getReplayFrame(
+  puzzle: Puzzle,
+  moves: GameMoveResult[],
+  moveCount: number,
+  hiddenMode: boolean = false
+): ReplayFrame {
+  const start = getPuzzleTopology(puzzle).start
+  const frame: ReplayFrame = {
+    currentPosition: start,
+    visitedCells: [start],
+    traversedConnectors: [],
+    wrongMoves: [],
+    wrongConnectors: [],
+    timeMs: 0,
+  }
+
+  for (const move of moves.slice(0, moveCount)) {
+    const advances = move.correct || hiddenMode
+    if (advances) {
+      frame.currentPosition = move.toCell
+      frame.visitedCells = [...frame.visitedCells, move.toCell]
+      frame.traversedConnectors = [
+        ...frame.traversedConnectors,
+        { cellA: move.fromCell, cellB: move.toCell },
+      ]
+    }
+
+    // Only the latest mistake is shown, so it flashes up as the replay passes it
+    const showMistake = !move.correct && !hiddenMode
+    frame.wrongMoves = showMistake ? [move.toCell] : []
+    frame.wrongConnectors = showMistake ? [{ cellA: move.fromCell, cellB: move.toCell }] : []
+    frame.timeMs = move.timeMs
+  }
+
+  return frame
+}
+
+/**
+ * How long to wait before showing the next move, following the real pace of the game
+ */
+export function getReplayStepDelayMs(moves: GameMoveResult[], moveCount: number): number {
+  const next = moves[moveCount]
+  if (!next) return 0
+  const previousTimeMs = moves[moveCount - 1]?.timeMs ?? 0
+  const gap = next.timeMs - previousTimeMs
+  return Math.min(MAX_REPLAY_STEP_MS, Math.max(MIN_REPLAY_STEP_MS, gap))
+}
+
+/**
+ * Id for a finished game, created once when it ends so it is only recorded once
+ */
+export function createGameId(): string {
+  return `game-${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * Build the replay record saved for a finished game, under the id created when it ended
+ * Throws if the puzzle can't be stored as a code
+ */
+export function createGameReplay(game: {
+  gameId: string
+  puzzle: Puzzle
+  difficulty: DifficultySettings
+  moveHistory: GameMoveResult[]
+  won: boolean
+  isHiddenMode: boolean
+  elapsedMs: number
+}): CircuitChallengeReplay {
+  return {
+    id: game.gameId,
+    puzzleCode: encodePuzzleCode(game.puzzle),
+    difficultyName: game.difficulty.name,
+    hiddenMode: game.isHiddenMode,
+    won: game.won,
+    durationMs: game.elapsedMs,
+    playedAt: new Date().toISOString(),
+    moves: game.moveHistory,
+  }
+}
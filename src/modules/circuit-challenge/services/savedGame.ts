@@ -0,0 +1,110 @@
+import type { GameState } from '../types/gameState'
+
+/**
+ * Module id the game in progress is saved under
+ */
+export const SAVED_GAME_MODULE_ID = 'circuit-challenge'
+
+/**
+ * Version of the saved record, bumped when the game state changes shape so old saves are dropped
+ */
+export const SAVED_GAME_VERSION = 2
+
+/**
+ * A game in progress, checkpointed after every move so it can be resumed later
+ */
+export interface SavedGame {
+  /** Record version (see SAVED_GAME_VERSION) */
+  version: number
+  /** Game state with the clock stopped at the moment of saving */
+  state: GameState
+  /** Story level being played (absent for Quick Play, practice and shared puzzles) */
+  storyChapter?: number
+  storyLevel?: number
+}
+
+/**
+ * Build the saved record for a game in progress
+ * The elapsed time is frozen now, so time spent away isn't counted when the game is resumed
+ */
+export function createSavedGame(
+  state: GameState,
+  story: { storyChapter?: number; storyLevel?: number } = {}
+): SavedGame {
+  return {
+    version: SAVED_GAME_VERSION,
+    state: {
+      ...state,
+      elapsedMs: state.startTime ? Date.now() - state.startTime : state.elapsedMs,
+      startTime: null,
+      isTimerRunning: false,
+      coinAnimations: [],
+    },
+    storyChapter: story.storyChapter,
+    storyLevel: story.storyLevel,
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+const isCoordinate = (value: unknown): boolean => {
+  const coord = value as { row?: unknown; col?: unknown } | null
+  return !!coord && isNumber(coord.row) && isNumber(coord.col)
+}
+
+/**
+ * Whether saved state has everything needed to carry on playing
+ */
+function isGameStateShape(state: GameState | undefined): state is GameState {
+  const puzzle = state?.puzzle
+  return (
+    !!state &&
+    !!puzzle &&
+    Array.isArray(puzzle.grid) &&
+    puzzle.grid.length > 0 &&
+    puzzle.grid.every(row => Array.isArray(row)) &&
+    Array.isArray(puzzle.connectors) &&
+    Array.isArray(puzzle.solution?.path) &&
+    isCoordinate(state.currentPosition) &&
+    Array.isArray(state.visitedCells) &&
+    state.visitedCells.every(isCoordinate) &&
+    Array.isArray(state.moveHistory) &&
+    Array.isArray(state.undoStack) &&
+    state.undoStack.every(snapshot => isNumber(snapshot?.puzzleCoins)) &&
+    isNumber(state.lives) &&
+    isNumber(state.maxLives) &&
+    isNumber(state.elapsedMs)
+  )
+}
+
+/**
+ * Read a saved record back, ignoring old versions, damaged records and games no longer in play
+ */
+export function parseSavedGame(data: Record<string, unknown> | null): SavedGame | null {
+  const saved = data as Partial<SavedGame> | null
+  if (saved?.version !== SAVED_GAME_VERSION || !isGameStateShape(saved.state)) return null
+  if (saved.state.status !== 'playing' && saved.state.status !== 'answering') return null
+  return saved as SavedGame
+}
+
+/**
+ * Whether a game is worth saving (once play has started and until it ends)
+ */
+export function shouldSaveGame(state: GameState): boolean {
+  return (
+    !!state.puzzle &&
+    !state.showingSolution &&
+    state.moveHistory.length > 0 &&
+    (state.status === 'playing' || state.status === 'answering')
+  )
+}
+
+/**
+ * Whether a saved game belongs to the given story level (or to free play when no level is given)
+ */
+export function isSavedGameFor(
+  saved: SavedGame,
+  story: { storyChapter?: number; storyLevel?: number } = {}
+): boolean {
+  return saved.storyChapter === story.storyChapter && saved.storyLevel === story.storyLevel
+}
@@ -4,6 +4,9 @@ import type {
   PageLayout,
 } from '../types/print'
 import { A4_PORTRAIT, LETTER_PORTRAIT } from '../types/print'
+import { formatNumber, isMissingNumberExpression, MISSING_NUMBER_SYMBOL } from '../engine/expressions'
+import { isClueText, splitCellText } from '../engine/clues'
+import { createTopology, getCellLayoutPosition, getLayoutSize } from '../engine/topology'
 
 /**
  * Get the page layout based on config.
@@ -38,16 +41,14 @@ const BADGE = {
 }
 
 /**
- * Determines the connector type based on cell positions
+ * Determines the connector type based on cell center positions
  */
 function getConnectorType(
-  fromRow: number,
-  fromCol: number,
-  toRow: number,
-  toCol: number
+  from: { x: number; y: number },
+  to: { x: number; y: number }
 ): 'horizontal' | 'vertical' | 'diagonal' {
-  if (fromRow === toRow) return 'horizontal'
-  if (fromCol === toCol) return 'vertical'
+  if (from.y === to.y) return 'horizontal'
+  if (from.x === to.x) return 'vertical'
   return 'diagonal'
 }
 
@@ -61,13 +62,15 @@ export function renderPuzzleSVG(
   showSolution: boolean = false
 ): string {
   const { gridRows, gridCols, cells, connectors } = puzzle
+  const topology = puzzle.topology ?? createTopology(gridRows, gridCols)
+  const layoutSize = getLayoutSize(topology)
 
   // Calculate SVG dimensions based on grid size
   // Using exemplar positioning: cells at x=45,135,225,315,405 and y=45,125,205,285
   const firstCellX = 45
   const firstCellY = 45
-  const svgWidth = firstCellX + (gridCols - 1) * HEX.spacingX + 45
-  const svgHeight = firstCellY + (gridRows - 1) * HEX.spacingY + 45
+  const svgWidth = firstCellX + layoutSize.width * HEX.spacingX + 45
+  const svgHeight = firstCellY + layoutSize.height * HEX.spacingY + 45
 
   // Start SVG
   let svg = `<svg class="puzzle-grid" viewBox="0 0 ${svgWidth} ${svgHeight}" preserveAspectRatio="xMidYMid meet">`
@@ -91,10 +94,13 @@ export function renderPuzzleSVG(
   }
 
   // Helper to get cell center coordinates
-  const getCellCenter = (row: number, col: number) => ({
-    x: firstCellX + col * HEX.spacingX,
-    y: firstCellY + row * HEX.spacingY,
-  })
+  const getCellCenter = (row: number, col: number) => {
+    const position = getCellLayoutPosition(topology, { row, col })
+    return {
+      x: firstCellX + position.x * HEX.spacingX,
+      y: firstCellY + position.y * HEX.spacingY,
+    }
+  }
 
   // Helper to get cell index
   const getCellIndex = (row: number, col: number) => row * gridCols + col
@@ -103,12 +109,7 @@ export function renderPuzzleSVG(
   for (const connector of connectors) {
     const from = getCellCenter(connector.fromRow, connector.fromCol)
     const to = getCellCenter(connector.toRow, connector.toCol)
-    const connType = getConnectorType(
-      connector.fromRow,
-      connector.fromCol,
-      connector.toRow,
-      connector.toCol
-    )
+    const connType = getConnectorType(from, to)
 
     // Check if this connector is in solution path
     const fromIdx = getCellIndex(connector.fromRow, connector.fromCol)
@@ -150,7 +151,7 @@ export function renderPuzzleSVG(
     const badgeX = midX - BADGE.width / 2
     const badgeY = midY - BADGE.height / 2
     svg += `<rect class="connector-badge" x="${badgeX}" y="${badgeY}" width="${BADGE.width}" height="${BADGE.height}" rx="${BADGE.rx}"/>`
-    svg += `<text class="connector-text" x="${midX}" y="${midY}">${connector.value}</text>`
+    svg += `<text class="connector-text" x="${midX}" y="${midY}">${formatNumber(connector.value)}</text>`
   }
 
   // Draw cells
@@ -162,6 +163,7 @@ export function renderPuzzleSVG(
     let cellClass = 'cell'
     if (cell.isStart) cellClass += ' cell-start'
     if (cell.isEnd) cellClass += ' cell-finish'
+    if (cell.isCheckpoint) cellClass += ' cell-checkpoint'
     if (isInSolution && !cell.isStart && !cell.isEnd) cellClass += ' cell-solution'
 
     // Draw cell group
@@ -171,6 +173,11 @@ export function renderPuzzleSVG(
     const outlineClass = isInSolution ? 'cell-outline-solution' : 'cell-outline'
     svg += `<use href="#hex" class="${outlineClass}"/>`
 
+    // Draw dashed inner ring on checkpoints
+    if (cell.isCheckpoint) {
+      svg += `<use href="#hex" class="cell-checkpoint-ring" transform="scale(0.82)"/>`
+    }
+
     // Draw START label above cell
     if (cell.isStart) {
       svg += `<text class="cell-label" y="-11">START</text>`
@@ -182,10 +189,10 @@ export function renderPuzzleSVG(
       svg += `<text class="cell-text" y="2">FINISH</text>`
     } else if (cell.isStart) {
       // START cell shows expression below the START label
-      svg += `<text class="cell-text" y="4">${escapeXml(cell.expression)}</text>`
+      svg += `<text class="${getCellTextClass(cell.expression)}" y="4">${renderCellExpression(cell.expression)}</text>`
     } else {
       // Normal cells show expression
-      svg += `<text class="cell-text" y="2">${escapeXml(cell.expression)}</text>`
+      svg += `<text class="${getCellTextClass(cell.expression)}" y="2">${renderCellExpression(cell.expression)}</text>`
     }
 
     svg += '</g>'
@@ -298,6 +305,13 @@ export function renderPageSVG(
       stroke-width: 2.5;
     }
 
+    .cell-checkpoint-ring {
+      fill: none;
+      stroke: black;
+      stroke-width: 1.2;
+      stroke-dasharray: 3 2;
+    }
+
     .cell-text {
       font-family: Arial, Helvetica, sans-serif;
       font-size: 11px;
@@ -307,6 +321,18 @@ export function renderPageSVG(
       dominant-baseline: middle;
     }
 
+    .cell-text-long {
+      font-size: 8px;
+    }
+
+    .cell-blank {
+      font-weight: 900;
+    }
+
+    .cell-text-clue {
+      font-size: 7px;
+    }
+
     .cell-label {
       font-size: 8px;
       font-weight: 700;
@@ -433,6 +459,12 @@ export function renderPuzzleSVGStandalone(
       .cell-finish .cell-outline {
         stroke-width: 2.5;
       }
+      .cell-checkpoint-ring {
+        fill: none;
+        stroke: black;
+        stroke-width: 1.2;
+        stroke-dasharray: 3 2;
+      }
       .cell-text {
         font-family: Arial, Helvetica, sans-serif;
         font-size: 11px;
@@ -441,6 +473,15 @@ export function renderPuzzleSVGStandalone(
         text-anchor: middle;
         dominant-baseline: middle;
       }
+      .cell-text-long {
+        font-size: 8px;
+      }
+      .cell-blank {
+        font-weight: 900;
+      }
+      .cell-text-clue {
+        font-size: 7px;
+      }
       .cell-label {
         font-size: 8px;
         font-weight: 700;
@@ -478,6 +519,34 @@ export function renderPuzzleSVGStandalone(
   return svgContent.replace(/<svg([^>]*)>/, `<svg$1>${styles}`)
 }
 
+/**
+ * Cell text class, using a smaller font for long multi-step expressions and clues.
+ */
+function getCellTextClass(expression: string): string {
+  if (isClueText(expression)) return 'cell-text cell-text-clue'
+  return expression.length > 9 ? 'cell-text cell-text-long' : 'cell-text'
+}
+
+/**
+ * Cell expression markup, wrapping clues and picking out the blank in missing-number equations.
+ */
+function renderCellExpression(expression: string): string {
+  if (isClueText(expression)) {
+    const lines = splitCellText(expression)
+    return lines
+      .map((line, i) => {
+        const dy = i === 0 ? `${-(lines.length - 1) * 0.55}em` : '1.1em'
+        return `<tspan x="0" dy="${dy}">${escapeXml(line)}</tspan>`
+      })
+      .join('')
+  }
+  if (!isMissingNumberExpression(expression)) {
+    return escapeXml(expression)
+  }
+  const [before, after] = expression.split(MISSING_NUMBER_SYMBOL)
+  return `${escapeXml(before)}<tspan class="cell-blank">${MISSING_NUMBER_SYMBOL}</tspan>${escapeXml(after)}`
+}
+
 /**
  * Escapes XML special characters.
  */
@@ -8,6 +8,39 @@ export interface Coordinate {
   col: number
 }
 
+/**
+ * How cells in a grid are laid out and which cells neighbour each other
+ * - square: rows and columns, 8 neighbours with one diagonal per 2x2 block
+ * - hex: odd rows shifted right by half a cell, 6 neighbours
+ */
+export type TopologyKind = 'square' | 'hex'
+
+/**
+ * Where the generator places START and FINISH
+ * - corners: top-left to bottom-right
+ * - center-out: the middle of the grid to a corner
+ * - random: any two cells far enough apart
+ */
+export type EndpointLayout = 'corners' | 'center-out' | 'random'
+
+/**
+ * Shape of a puzzle grid, shared by the generator, validator and renderers
+ */
+export interface GridTopology {
+  /** Cell layout */
+  kind: TopologyKind
+  /** Rows in the bounding grid */
+  rows: number
+  /** Columns in the bounding grid */
+  cols: number
+  /** Cells left out of the grid, for holes and irregular shapes */
+  blockedCells: Coordinate[]
+  /** Where the path begins */
+  start: Coordinate
+  /** Where the path ends */
+  finish: Coordinate
+}
+
 /**
  * Diagonal direction for connector placement
  */
@@ -70,6 +103,29 @@ export interface Cell {
   isStart: boolean
   /** Whether this is the finish cell */
   isFinish: boolean
+  /** Whether the path must pass through this cell before FINISH */
+  isCheckpoint?: boolean
+}
+
+/**
+ * Difficulty measured by analyzing a generated puzzle
+ */
+export interface MeasuredDifficulty {
+  /** Overall score from 1 (easiest) to 10 (hardest) */
+  score: number
+  /** Individual factors, each from 0 to 1 */
+  factors: {
+    /** Length of the solution path */
+    pathLength: number
+    /** How hard the operations on the path are */
+    operationMix: number
+    /** Size of the numbers in the expressions */
+    operandSize: number
+    /** Share of wrong connectors whose value is close to the answer */
+    nearMissDistractors: number
+    /** How many connectors there are to choose from at each step */
+    branching: number
+  }
 }
 
 /**
@@ -80,8 +136,14 @@ export interface Puzzle {
   id: string
   /** Difficulty level (1-10) */
   difficulty: number
-  /** Grid of cells */
+  /** Seed the puzzle was generated from (regenerates it with the same settings) */
+  seed?: number
+  /** Difficulty measured from the generated puzzle itself */
+  measuredDifficulty?: MeasuredDifficulty
+  /** Grid of cells (blocked cells have no expression or answer) */
   grid: Cell[][]
+  /** Grid shape (absent for puzzles made before topologies, which are plain rectangles) */
+  topology?: GridTopology
   /** All connectors in the puzzle */
   connectors: Connector[]
   /** Solution information */
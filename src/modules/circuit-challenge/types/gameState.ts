@@ -1,5 +1,6 @@
 import type { Coordinate, Puzzle } from '../types'
 import type { DifficultySettings } from '../engine/types'
+import type { SolverHint } from '../engine/solver'
 
 /**
  * Game status representing the current state of gameplay
@@ -11,6 +12,7 @@ export type GameStatus =
   | 'won'        // Reached FINISH
   | 'lost'       // Out of lives (standard mode only)
   | 'revealing'  // Hidden mode: showing results
+  | 'answering'  // Reverse mode: timer running, typing cell answers
 
 /**
  * Result of a single move during gameplay
@@ -22,10 +24,24 @@ export interface GameMoveResult {
   fromCell: Coordinate
   /** Target cell */
   toCell: Coordinate
-  /** Value on the connector taken */
+  /** Value on the connector taken (reverse mode: the answer typed in) */
   connectorValue: number
   /** The answer value of the cell we moved from */
   cellAnswer: number
+  /** Milliseconds since play started when the move was made */
+  timeMs: number
+}
+
+/**
+ * Position before a move, restored by UNDO_MOVE
+ */
+export interface MoveSnapshot {
+  currentPosition: Coordinate
+  visitedCells: Coordinate[]
+  traversedConnectors: Array<{ cellA: Coordinate; cellB: Coordinate }>
+  moveHistory: GameMoveResult[]
+  /** Coins before the move, so undoing it takes back what it earned */
+  puzzleCoins: number
 }
 
 /**
@@ -75,6 +91,8 @@ export interface GameState {
   traversedConnectors: Array<{ cellA: Coordinate; cellB: Coordinate }>
   /** History of all moves made */
   moveHistory: GameMoveResult[]
+  /** Positions before each step taken, most recent last */
+  undoStack: MoveSnapshot[]
 
   // Lives (standard mode)
   /** Remaining lives */
@@ -89,6 +107,8 @@ export interface GameState {
   elapsedMs: number
   /** Whether the timer is currently running */
   isTimerRunning: boolean
+  /** Whether play is paused (clock stopped and grid hidden) */
+  isPaused: boolean
 
   // Coins (for this puzzle)
   /** Running total for current puzzle (clamped to min 0) */
@@ -99,6 +119,18 @@ export interface GameState {
   // Mode flags
   /** Whether playing in hidden mode */
   isHiddenMode: boolean
+  /** Whether playing in reverse mode (typing answers along the shown path) */
+  isReverseMode: boolean
+  /** Whether playing in practice mode (no timer or lives) */
+  isPracticeMode: boolean
+
+  // Practice feedback
+  /** Worked answer of the cell just got wrong, e.g. "3 × 4 = 12" (practice mode) */
+  workedAnswer: string | null
+
+  // Reverse mode input
+  /** Answer typed on the keypad so far */
+  answerInput: string
 
   // Hidden mode tracking
   /** Results tracked during hidden mode */
@@ -108,6 +140,12 @@ export interface GameState {
   /** Whether the solution is being shown */
   showingSolution: boolean
 
+  // Hints
+  /** Hint currently shown to the player (cleared when they move on) */
+  hint: SolverHint | null
+  /** Number of hints used on this puzzle */
+  hintsUsed: number
+
   // Error state
   /** Error message if puzzle generation failed */
   error: string | null
@@ -121,12 +159,21 @@ export type GameAction =
   | { type: 'GENERATE_PUZZLE' }
   | { type: 'PUZZLE_GENERATED'; payload: Puzzle }
   | { type: 'PUZZLE_GENERATION_FAILED'; payload: string }
+  | { type: 'RESTORE_GAME'; payload: GameState }
   | { type: 'MAKE_MOVE'; payload: Coordinate }
+  | { type: 'UNDO_MOVE' }
   | { type: 'START_TIMER' }
   | { type: 'TICK_TIMER'; payload: number }
+  | { type: 'PAUSE_GAME' }
+  | { type: 'RESUME_GAME' }
   | { type: 'RESET_PUZZLE' }
   | { type: 'NEW_PUZZLE' }
   | { type: 'SHOW_SOLUTION' }
   | { type: 'HIDE_SOLUTION' }
+  | { type: 'REQUEST_HINT' }
   | { type: 'REVEAL_HIDDEN_RESULTS' }
   | { type: 'CLEAR_COIN_ANIMATION'; payload: string }
+  | { type: 'ENTER_DIGIT'; payload: string }
+  | { type: 'DELETE_DIGIT' }
+  | { type: 'TOGGLE_ANSWER_SIGN' }
+  | { type: 'SUBMIT_ANSWER' }
@@ -1,3 +1,6 @@
+import type { GridTopology } from '../types'
+import type { GenerationDiagnostics } from '../engine/types'
+
 /**
  * Print output configuration.
  */
@@ -27,6 +30,7 @@ export interface PrintConfig {
   // Batch settings
   puzzleCount: number
   uniquePuzzles: boolean // Generate unique puzzles or repeat
+  sortByDifficulty?: boolean // Order puzzles by measured difficulty, easiest first
 }
 
 /**
@@ -53,6 +57,7 @@ export const DEFAULT_PRINT_CONFIG: PrintConfig = {
 
   puzzleCount: 10,
   uniquePuzzles: true,
+  sortByDifficulty: false,
 }
 
 /**
@@ -63,11 +68,13 @@ export interface PrintablePuzzle {
   puzzleNumber: number
   difficulty: number
   difficultyName: string
+  measuredDifficulty?: number // 1-10 score from analyzePuzzle
 
   // Grid data
   gridRows: number
   gridCols: number
-  cells: PrintableCell[]
+  topology?: GridTopology // Layout and blocked cells (plain square grid if missing)
+  cells: PrintableCell[] // Blocked cells are left out
 
   // Connectors between cells
   connectors: PrintableConnector[]
@@ -77,6 +84,23 @@ export interface PrintablePuzzle {
   solution: number[] // Cell indices in solution path
 }
 
+/**
+ * A puzzle in a batch that couldn't be generated.
+ */
+export interface PrintBatchFailure {
+  attempt: number // Position in the requested batch (1-based)
+  error: string
+  diagnostics: GenerationDiagnostics
+}
+
+/**
+ * A generated batch: the puzzles that worked, numbered in order, and why the rest failed.
+ */
+export interface PrintBatchResult {
+  puzzles: PrintablePuzzle[]
+  failures: PrintBatchFailure[]
+}
+
 /**
  * Cell data for print rendering.
  */
@@ -88,6 +112,7 @@ export interface PrintableCell {
   answer: number | null
   isStart: boolean
   isEnd: boolean
+  isCheckpoint?: boolean
   inSolution: boolean
 }
 
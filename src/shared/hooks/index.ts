@@ -1,3 +1,4 @@
 export * from './useStorage'
 export * from './useOnlineStatus'
 export * from './useOrientation'
+export * from './useAccessibilitySettings'
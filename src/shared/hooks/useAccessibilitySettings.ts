@@ -0,0 +1,26 @@
+import { useState, useCallback } from 'react'
+import {
+  getAccessibilitySettings,
+  saveAccessibilitySettings,
+  type AccessibilitySettings,
+} from '../services/accessibility'
+
+/**
+ * Hook for reading and changing the device's accessibility preferences
+ */
+export function useAccessibilitySettings(): [
+  AccessibilitySettings,
+  (changes: Partial<AccessibilitySettings>) => void,
+] {
+  const [settings, setSettings] = useState(getAccessibilitySettings)
+
+  const updateSettings = useCallback((changes: Partial<AccessibilitySettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...changes }
+      saveAccessibilitySettings(next)
+      return next
+    })
+  }, [])
+
+  return [settings, updateSettings]
+}
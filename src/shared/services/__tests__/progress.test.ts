@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { recordFinishedGame, type CircuitChallengeProgress, type CircuitChallengeReplay } from '../progress'
+import * as localDB from '../indexedDB'
+
+vi.mock('../supabase', () => ({ supabase: null }))
+vi.mock('../indexedDB', () => ({
+  getModuleProgress: vi.fn(),
+  setModuleProgress: vi.fn(),
+  addToSyncQueue: vi.fn(),
+}))
+
+/**
+ * Progress from a player who has already played Quick Play and story levels
+ */
+function makeProgress(): CircuitChallengeProgress {
+  return {
+    quickPlay: {
+      gamesPlayed: 4,
+      gamesWon: 3,
+      totalCoinsEarned: 120,
+      bestStreak: 2,
+      currentStreak: 1,
+      lastPlayedAt: '2024-01-01T00:00:00.000Z',
+      difficultyStats: { 1: { played: 4, won: 3, bestTimeMs: 30000 } },
+    },
+    practice: {
+      puzzlesPlayed: 1,
+      puzzlesCompleted: 0,
+      correctMoves: 2,
+      mistakes: 3,
+      lastPlayedAt: null,
+    },
+    progression: {
+      completedLevels: ['1-1'],
+      starsByLevel: { '1-1': 3 },
+    },
+    replays: [],
+    recordedGameIds: [],
+  }
+}
+
+/**
+ * A practice game with six correct moves and two mistakes
+ */
+const PRACTICE_RESULT = { completed: true, correctMoves: 6, mistakes: 2 }
+
+/**
+ * A stored replay for the given game
+ */
+function makeReplay(id: string): CircuitChallengeReplay {
+  return {
+    id,
+    puzzleCode: 'code',
+    difficultyName: 'Tiny Tot',
+    hiddenMode: false,
+    won: true,
+    durationMs: 30000,
+    playedAt: '2024-01-02T00:00:00.000Z',
+    moves: [],
+  }
+}
+
+/**
+ * Progress handed to the last local save
+ */
+function getSavedProgress(): CircuitChallengeProgress {
+  const calls = vi.mocked(localDB.setModuleProgress).mock.calls
+  return calls[calls.length - 1][1] as unknown as CircuitChallengeProgress
+}
+
+describe('Finished Game Progress', () => {
+  beforeEach(() => {
+    vi.mocked(localDB.setModuleProgress).mockClear()
+    vi.mocked(localDB.getModuleProgress).mockResolvedValue({
+      moduleId: 'circuit-challenge',
+      data: makeProgress() as unknown as Record<string, unknown>,
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    })
+  })
+
+  it('adds the result to the practice stats', async () => {
+    await recordFinishedGame(null, true, { gameId: 'game-1', practice: PRACTICE_RESULT })
+
+    const { practice } = getSavedProgress()
+    expect(practice.puzzlesPlayed).toBe(2)
+    expect(practice.puzzlesCompleted).toBe(1)
+    expect(practice.correctMoves).toBe(8)
+    expect(practice.mistakes).toBe(5)
+    expect(practice.lastPlayedAt).not.toBeNull()
+  })
+
+  it('leaves Quick Play stats and story progress alone', async () => {
+    await recordFinishedGame(null, true, { gameId: 'game-1', practice: PRACTICE_RESULT })
+
+    const saved = getSavedProgress()
+    expect(saved.quickPlay).toEqual(makeProgress().quickPlay)
+    expect(saved.progression).toEqual(makeProgress().progression)
+  })
+
+  it('starts every new player from empty stats', async () => {
+    vi.mocked(localDB.getModuleProgress).mockResolvedValue(undefined)
+
+    // Nothing was stored, so each result is the first
+    await recordFinishedGame(null, true, { gameId: 'game-1', practice: PRACTICE_RESULT })
+    await recordFinishedGame(null, true, { gameId: 'game-2', practice: PRACTICE_RESULT })
+
+    expect(getSavedProgress().practice.puzzlesPlayed).toBe(1)
+  })
+
+  it('saves the practice result and the replay together', async () => {
+    await recordFinishedGame(null, true, {
+      gameId: 'game-1',
+      practice: PRACTICE_RESULT,
+      replay: makeReplay('game-1'),
+    })
+
+    expect(localDB.setModuleProgress).toHaveBeenCalledTimes(1)
+    const saved = getSavedProgress()
+    expect(saved.practice.puzzlesPlayed).toBe(2)
+    expect(saved.replays.map(r => r.id)).toEqual(['game-1'])
+  })
+
+  it('records each game only once', async () => {
+    vi.mocked(localDB.getModuleProgress).mockResolvedValue({
+      moduleId: 'circuit-challenge',
+      data: { ...makeProgress(), recordedGameIds: ['game-1'] } as unknown as Record<string, unknown>,
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    })
+
+    await recordFinishedGame(null, true, { gameId: 'game-1', practice: PRACTICE_RESULT })
+
+    expect(localDB.setModuleProgress).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * Accessibility Preferences
+ * Saved per device, since they depend on how the child is able to play.
+ */
+
+const STORAGE_KEY = 'accessibility_settings'
+
+/**
+ * How long each cell stays highlighted in switch scanning mode
+ */
+export const SCAN_INTERVAL_OPTIONS = {
+  slow: 2500,
+  medium: 1500,
+  fast: 1000,
+} as const
+
+export type ScanSpeed = keyof typeof SCAN_INTERVAL_OPTIONS
+
+export interface AccessibilitySettings {
+  /** Highlight each possible move in turn, so a single switch (Space or Enter) can pick it */
+  switchScanning: boolean
+  /** How quickly scanning moves between cells */
+  scanSpeed: ScanSpeed
+  /** Read the puzzle and each move out through live regions, with a text-only puzzle layout */
+  screenReaderMode: boolean
+}
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  switchScanning: false,
+  scanSpeed: 'medium',
+  screenReaderMode: false,
+}
+
+/**
+ * Load the saved preferences (defaults for anything missing)
+ */
+export function getAccessibilitySettings(): AccessibilitySettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      return { ...DEFAULT_ACCESSIBILITY_SETTINGS, ...JSON.parse(stored) }
+    }
+  } catch {
+    // Ignore parse errors
+  }
+  return DEFAULT_ACCESSIBILITY_SETTINGS
+}
+
+/**
+ * Save the preferences for this device
+ */
+export function saveAccessibilitySettings(settings: AccessibilitySettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
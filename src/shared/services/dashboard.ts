@@ -17,6 +17,7 @@ import type {
   DifficultyLevelStats,
 } from '@/hub/types/dashboard'
 import { getModuleMeta } from '@/hub/types/dashboard'
+import type { CircuitChallengeReplay } from './progress'
 
 // ============================================
 // FAMILY OVERVIEW
@@ -205,6 +206,7 @@ export async function getChildDetailStats(childId: string): Promise<ChildDetailS
   const quickPlayData = ccData?.quickPlay as Record<string, unknown> | undefined
   const currentStreak = (quickPlayData?.currentStreak as number) || 0
   const bestStreak = (quickPlayData?.bestStreak as number) || 0
+  const recentReplays = (ccData?.replays as CircuitChallengeReplay[] | undefined) || []
 
   return {
     totalGamesPlayed: lifetimeTotals.games,
@@ -220,6 +222,7 @@ export async function getChildDetailStats(childId: string): Promise<ChildDetailS
     bestStreak,
     memberSince: user.created_at,
     moduleStats,
+    recentReplays,
   }
 }
 
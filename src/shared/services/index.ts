@@ -17,6 +17,9 @@ export {
   getActivityByModule,
   getSetting,
   setSetting,
+  getSavedGame,
+  setSavedGame,
+  deleteSavedGame,
   addToSyncQueue,
   getSyncQueue,
   clearSyncQueue,
@@ -28,6 +31,7 @@ export type {
   GuestProfile,
   ModuleProgressEntry,
   ActivityLogEntry,
+  SavedGameEntry,
   SyncQueueEntry,
 } from './indexedDB'
 
@@ -56,11 +60,14 @@ export {
   getProgress,
   saveProgress,
   recordQuickPlayResult,
+  recordFinishedGame,
+  getReplays,
   addCoins,
   getCoins,
   getProgressSummary,
+  MAX_STORED_REPLAYS,
 } from './progress'
-export type { CircuitChallengeProgress } from './progress'
+export type { CircuitChallengeProgress, CircuitChallengeReplay, FinishedGameRecord } from './progress'
 
 // Activity tracking
 export {
@@ -83,5 +90,8 @@ export type { SyncResult } from './sync'
 // Sound service
 export * from './sound'
 
+// Accessibility preferences
+export * from './accessibility'
+
 // Legacy storage (kept for compatibility)
 export { storageService } from './storage'
@@ -52,6 +52,16 @@ interface MaxPuzzlesDB extends DBSchema {
     value: unknown
   }
 
+  // In-progress games (keyed by user and moduleId), so play survives a reload
+  savedGames: {
+    key: string
+    value: {
+      moduleId: string
+      data: Record<string, unknown>
+      savedAt: string
+    }
+  }
+
   // Pending sync queue (for when user creates account)
   syncQueue: {
     key: string
@@ -65,7 +75,7 @@ interface MaxPuzzlesDB extends DBSchema {
 }
 
 const DB_NAME = 'max-puzzles'
-const DB_VERSION = 2
+const DB_VERSION = 3
 
 let dbInstance: IDBPDatabase<MaxPuzzlesDB> | null = null
 
@@ -104,6 +114,11 @@ export async function getDB(): Promise<IDBPDatabase<MaxPuzzlesDB>> {
         db.createObjectStore('syncQueue', { keyPath: 'id' })
       }
 
+      // Saved games store (added in v3)
+      if (!db.objectStoreNames.contains('savedGames')) {
+        db.createObjectStore('savedGames')
+      }
+
       // Handle migrations from older versions
       if (oldVersion < 2) {
         // Migration from v1 to v2 if needed
@@ -225,6 +240,49 @@ export async function setSetting(key: string, value: unknown): Promise<void> {
   await db.put('settings', value, key)
 }
 
+// ============================================
+// Saved Game Operations
+// ============================================
+
+export type SavedGameEntry = MaxPuzzlesDB['savedGames']['value']
+
+/**
+ * Each user has one saved game per module
+ */
+function getSavedGameKey(userId: string | null, moduleId: string): string {
+  return `${userId ?? 'guest'}:${moduleId}`
+}
+
+export async function getSavedGame(
+  userId: string | null,
+  moduleId: string
+): Promise<SavedGameEntry | undefined> {
+  const db = await getDB()
+  return db.get('savedGames', getSavedGameKey(userId, moduleId))
+}
+
+export async function setSavedGame(
+  userId: string | null,
+  moduleId: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  const db = await getDB()
+  await db.put(
+    'savedGames',
+    {
+      moduleId,
+      data,
+      savedAt: new Date().toISOString(),
+    },
+    getSavedGameKey(userId, moduleId)
+  )
+}
+
+export async function deleteSavedGame(userId: string | null, moduleId: string): Promise<void> {
+  const db = await getDB()
+  await db.delete('savedGames', getSavedGameKey(userId, moduleId))
+}
+
 // ============================================
 // Sync Queue Operations
 // ============================================
@@ -271,6 +329,7 @@ export async function clearAllData(): Promise<void> {
   await db.clear('activityLog')
   await db.clear('settings')
   await db.clear('syncQueue')
+  await db.clear('savedGames')
 }
 
 export async function closeDB(): Promise<void> {
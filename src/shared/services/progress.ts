@@ -22,6 +22,48 @@ interface QuickPlayProgress {
   difficultyStats: Record<number, DifficultyStats>
 }
 
+interface PracticeProgress {
+  puzzlesPlayed: number
+  puzzlesCompleted: number
+  correctMoves: number
+  mistakes: number
+  lastPlayedAt: string | null
+}
+
+interface ReplayMove {
+  fromCell: { row: number; col: number }
+  toCell: { row: number; col: number }
+  correct: boolean
+  connectorValue: number
+  cellAnswer: number
+  timeMs: number
+}
+
+/**
+ * A finished game that can be watched again
+ * The puzzle is stored as its share code to keep progress data small
+ */
+export interface CircuitChallengeReplay {
+  id: string
+  puzzleCode: string
+  difficultyName: string
+  hiddenMode: boolean
+  won: boolean
+  durationMs: number
+  playedAt: string
+  moves: ReplayMove[]
+}
+
+/**
+ * Most replays kept in progress data (oldest are dropped first)
+ */
+export const MAX_STORED_REPLAYS = 10
+
+/**
+ * Most finished game ids remembered to stop a game being recorded twice
+ */
+export const MAX_RECORDED_GAME_IDS = 20
+
 interface ProgressionProgress {
   // V2 - placeholder
   completedLevels: string[]
@@ -30,23 +72,42 @@ interface ProgressionProgress {
 
 export interface CircuitChallengeProgress {
   quickPlay: QuickPlayProgress
+  practice: PracticeProgress
   progression: ProgressionProgress
+  replays: CircuitChallengeReplay[]
+  /** Most recent finished games recorded, newest first */
+  recordedGameIds: string[]
 }
 
-const DEFAULT_CC_PROGRESS: CircuitChallengeProgress = {
-  quickPlay: {
-    gamesPlayed: 0,
-    gamesWon: 0,
-    totalCoinsEarned: 0,
-    bestStreak: 0,
-    currentStreak: 0,
-    lastPlayedAt: null,
-    difficultyStats: {},
-  },
-  progression: {
-    completedLevels: [],
-    starsByLevel: {},
-  },
+/**
+ * Progress for a player who hasn't played yet
+ * Built fresh each time, since callers update the nested stats in place
+ */
+function createDefaultCCProgress(): CircuitChallengeProgress {
+  return {
+    quickPlay: {
+      gamesPlayed: 0,
+      gamesWon: 0,
+      totalCoinsEarned: 0,
+      bestStreak: 0,
+      currentStreak: 0,
+      lastPlayedAt: null,
+      difficultyStats: {},
+    },
+    practice: {
+      puzzlesPlayed: 0,
+      puzzlesCompleted: 0,
+      correctMoves: 0,
+      mistakes: 0,
+      lastPlayedAt: null,
+    },
+    progression: {
+      completedLevels: [],
+      starsByLevel: {},
+    },
+    replays: [],
+    recordedGameIds: [],
+  }
 }
 
 // ============================================
@@ -87,7 +148,7 @@ export async function getProgress(
 function getDefaultProgress(moduleId: string): Record<string, unknown> {
   switch (moduleId) {
     case 'circuit-challenge':
-      return { ...DEFAULT_CC_PROGRESS } as unknown as Record<string, unknown>
+      return createDefaultCCProgress() as unknown as Record<string, unknown>
     default:
       return {}
   }
@@ -147,7 +208,7 @@ export async function recordQuickPlayResult(
 
   // Ensure structure exists
   if (!progress.quickPlay) {
-    progress.quickPlay = { ...DEFAULT_CC_PROGRESS.quickPlay }
+    progress.quickPlay = createDefaultCCProgress().quickPlay
   }
 
   const qp = progress.quickPlay
@@ -191,6 +252,86 @@ export async function recordQuickPlayResult(
   )
 }
 
+// ============================================
+// Finished Games
+// ============================================
+
+/**
+ * A finished game's results, recorded together when the summary is shown
+ */
+export interface FinishedGameRecord {
+  /** Id created when the game ended, so the same game is only recorded once */
+  gameId: string
+  /** Practice mode result (absent for other games) */
+  practice?: {
+    completed: boolean
+    correctMoves: number
+    mistakes: number
+  }
+  /** Replay to keep (absent if the puzzle couldn't be stored) */
+  replay?: CircuitChallengeReplay
+}
+
+/**
+ * Record a finished game's practice result and replay in a single read and save,
+ * so neither update overwrites the other
+ * A game already recorded (e.g. when the summary is reloaded) is left alone
+ */
+export async function recordFinishedGame(
+  userId: string | null,
+  isGuest: boolean,
+  game: FinishedGameRecord
+): Promise<void> {
+  const rawProgress = await getProgress(userId, 'circuit-challenge', isGuest)
+  const progress = rawProgress as unknown as CircuitChallengeProgress
+
+  const recordedGameIds = progress.recordedGameIds || []
+  if (recordedGameIds.includes(game.gameId)) return
+  progress.recordedGameIds = [game.gameId, ...recordedGameIds].slice(0, MAX_RECORDED_GAME_IDS)
+
+  if (game.practice) {
+    // Ensure structure exists (progress saved before practice mode has none)
+    if (!progress.practice) {
+      progress.practice = createDefaultCCProgress().practice
+    }
+
+    const practice = progress.practice
+    practice.puzzlesPlayed++
+    if (game.practice.completed) {
+      practice.puzzlesCompleted++
+    }
+    practice.correctMoves += game.practice.correctMoves
+    practice.mistakes += game.practice.mistakes
+    practice.lastPlayedAt = new Date().toISOString()
+  }
+
+  // Newest replay first, keeping only the most recent few
+  if (game.replay) {
+    progress.replays = [game.replay, ...(progress.replays || [])].slice(0, MAX_STORED_REPLAYS)
+  }
+
+  // Save updated progress
+  await saveProgress(
+    userId,
+    'circuit-challenge',
+    progress as unknown as Record<string, unknown>,
+    isGuest
+  )
+}
+
+// ============================================
+// Replays
+// ============================================
+
+export async function getReplays(
+  userId: string | null,
+  isGuest: boolean
+): Promise<CircuitChallengeReplay[]> {
+  const rawProgress = await getProgress(userId, 'circuit-challenge', isGuest)
+  const progress = rawProgress as unknown as CircuitChallengeProgress
+  return progress.replays || []
+}
+
 // ============================================
 // Coins Management
 // ============================================
@@ -268,7 +409,7 @@ export async function getProgressSummary(
   const rawProgress = await getProgress(userId, moduleId, isGuest)
   const progress = rawProgress as unknown as CircuitChallengeProgress
 
-  const qp = progress.quickPlay || DEFAULT_CC_PROGRESS.quickPlay
+  const qp = progress.quickPlay || createDefaultCCProgress().quickPlay
   const winRate = qp.gamesPlayed > 0 ? Math.round((qp.gamesWon / qp.gamesPlayed) * 100) : 0
 
   return {
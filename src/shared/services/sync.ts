@@ -1,6 +1,8 @@
 import { supabase } from './supabase'
 import * as localDB from './indexedDB'
 import type { UserUpdate, ModuleProgressInsert } from './database.types'
+import { MAX_RECORDED_GAME_IDS, MAX_STORED_REPLAYS } from './progress'
+import type { CircuitChallengeReplay } from './progress'
 
 // ============================================
 // Types
@@ -153,6 +155,8 @@ function mergeCircuitChallengeProgress(
 ): Record<string, unknown> {
   const localQP = (local as any).quickPlay || {}
   const cloudQP = (cloud as any).quickPlay || {}
+  const localPractice = (local as any).practice || {}
+  const cloudPractice = (cloud as any).practice || {}
 
   return {
     quickPlay: {
@@ -175,6 +179,25 @@ function mergeCircuitChallengeProgress(
         cloudQP.difficultyStats || {}
       ),
     },
+    practice: {
+      // Higher wins
+      puzzlesPlayed: Math.max(localPractice.puzzlesPlayed || 0, cloudPractice.puzzlesPlayed || 0),
+      puzzlesCompleted: Math.max(
+        localPractice.puzzlesCompleted || 0,
+        cloudPractice.puzzlesCompleted || 0
+      ),
+      correctMoves: Math.max(localPractice.correctMoves || 0, cloudPractice.correctMoves || 0),
+      mistakes: Math.max(localPractice.mistakes || 0, cloudPractice.mistakes || 0),
+
+      // Most recent wins
+      lastPlayedAt: getMoreRecent(localPractice.lastPlayedAt, cloudPractice.lastPlayedAt),
+    },
+    // Union of replays, newest first
+    replays: mergeReplays((local as any).replays || [], (cloud as any).replays || []),
+    // Union of games already recorded, so neither side counts one again
+    recordedGameIds: [
+      ...new Set([...((local as any).recordedGameIds || []), ...((cloud as any).recordedGameIds || [])]),
+    ].slice(0, MAX_RECORDED_GAME_IDS),
     progression: {
       // Union of completed levels
       completedLevels: [
@@ -193,6 +216,19 @@ function mergeCircuitChallengeProgress(
 }
 /* eslint-enable @typescript-eslint/no-explicit-any */
 
+function mergeReplays(
+  local: CircuitChallengeReplay[],
+  cloud: CircuitChallengeReplay[]
+): CircuitChallengeReplay[] {
+  const byId = new Map<string, CircuitChallengeReplay>()
+  for (const replay of [...cloud, ...local]) {
+    byId.set(replay.id, replay)
+  }
+  return [...byId.values()]
+    .sort((a, b) => new Date(b.playedAt).getTime() - new Date(a.playedAt).getTime())
+    .slice(0, MAX_STORED_REPLAYS)
+}
+
 function getMoreRecent(a: string | null, b: string | null): string | null {
   if (!a) return b
   if (!b) return a
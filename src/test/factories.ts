@@ -1,6 +1,7 @@
 import { faker } from '@faker-js/faker'
 import type { Cell, Puzzle, Connector, Coordinate } from '@/modules/circuit-challenge/types'
 import type { PrintablePuzzle, PrintableCell } from '@/modules/circuit-challenge/types/print'
+import { generatePuzzle, getDifficultyByLevel } from '@/modules/circuit-challenge/engine'
 
 export function createMockCell(overrides: Partial<Cell> = {}): Cell {
   return {
@@ -68,6 +69,15 @@ export function createMockPuzzle(overrides: Partial<Puzzle> = {}): Puzzle {
   }
 }
 
+/**
+ * A real, solvable puzzle from a fixed seed, for tests that walk the solution
+ */
+export function createSeededPuzzle(level = 1, seed = 2024): Puzzle {
+  const result = generatePuzzle(getDifficultyByLevel(level), { seed })
+  if (!result.success) throw new Error('Puzzle generation failed')
+  return result.puzzle
+}
+
 export function createMockPrintablePuzzle(
   overrides: Partial<PrintablePuzzle> = {}
 ): PrintablePuzzle {